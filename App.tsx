@@ -1,68 +1,516 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
+import { SessionManager } from './components/SessionManager';
+import { QueueSettingsPanel } from './components/QueueSettingsPanel';
+import { QueuePanel } from './components/QueuePanel';
+import { StyleEditor } from './components/StyleEditor';
+import { PromptEditor } from './components/PromptEditor';
 import { UploadSection } from './components/UploadSection';
 import { StyleGrid } from './components/StyleGrid';
 import { AlbumView } from './components/AlbumView';
+import { Lightbox } from './components/Lightbox';
+import { HistoryDrawer } from './components/HistoryDrawer';
+import { EditPanel } from './components/EditPanel';
+import { CollageDialog } from './components/CollageDialog';
+import { ProvenanceVerifier } from './components/ProvenanceVerifier';
+import { BrandingPanel } from './components/BrandingPanel';
 import { PHOTO_STYLES } from './constants';
-import { AppState, GeneratedImage, Gender } from './types';
-import { generateStyledImage } from './services/genai';
-import { Clock, PauseCircle, PlayCircle, AlertTriangle } from 'lucide-react';
-
-// Strictly limit to 1 request at a time
-const MAX_CONCURRENCY = 1;
-// Increased delay to 10 seconds (max 6 RPM) to be safe for free/lower tiers
-const REQUEST_DELAY_MS = 10000; 
-// Increased base cooldown to 60 seconds for 429 errors
-const BASE_COOLDOWN_MS = 60000;
-// Stop automatically after this many consecutive errors
-const MAX_CONSECUTIVE_ERRORS = 3;
+import { AppState, AspectRatio, GeneratedImage, HistoryEntry, ImageVariant, OutputSettings, PhotoCrop, PhotoStyle, QueueJob, SubjectProfile } from './types';
+import { DEFAULT_OUTPUT_SETTINGS, buildPrompt, generateStyledImage } from './services/genai';
+import { PromptLibrary, loadPromptLibrary, savePromptLibrary } from './services/promptTemplates';
+import { DEFAULT_SUBJECT } from './services/subject';
+import { MAX_VARIANTS, selectHero, startVariants, updateVariant } from './services/variants';
+import { appendHistory, findCurrentEntry, findEditBase, restoreHistoryEntry } from './services/history';
+import { DEFAULT_ALBUM_LAYOUT, collectAlbumItems } from './services/album';
+import { AlbumArchiveError, readAlbumArchive } from './services/albumArchive';
+import { ImageGenerationResult, ProviderError, getActiveProvider } from './services/providers';
+import { SchedulerSnapshot, createScheduler } from './services/scheduler';
+import { QueueSettings, loadQueueSettings, saveQueueSettings } from './services/queueSettings';
+import { BrandingSettings, isBrandingActive, loadBrandingSettings, saveBrandingSettings } from './services/branding';
+import { MessageKey, useI18n } from './i18n';
+import {
+  SessionSummary,
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  renameSession,
+  saveSession
+} from './services/sessionStore';
+import { loadCustomStyles, nextCustomStyleId, saveCustomStyles } from './services/customStyles';
+import {
+  ConflictResolution,
+  StylePack,
+  applyStylePackImport,
+  createStableStyleId,
+  findStylePackConflicts
+} from './services/stylePacks';
+import { Clock, AlertTriangle, History } from 'lucide-react';
+
+// Debounce session writes so bursts of state updates become a single IndexedDB transaction
+const AUTOSAVE_DELAY_MS = 800;
+
+interface ActiveSession {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const createInitialResults = (styles: PhotoStyle[]): Record<number, GeneratedImage> => {
+  const initialResults: Record<number, GeneratedImage> = {};
+  styles.forEach(style => {
+    initialResults[style.id] = {
+      styleId: style.id,
+      imageUrl: null,
+      status: 'idle'
+    };
+  });
+  return initialResults;
+};
+
+const createJobId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
 const App: React.FC = () => {
+  const { t, formatDate, styleName, categoryLabel } = useI18n();
+  const provider = getActiveProvider();
   const [state, setState] = useState<AppState>({
-    gender: 'female',
+    subject: DEFAULT_SUBJECT,
     uploadedImage: null,
-    queue: [],
-    activeRequests: 0,
+    referenceImages: [],
+    photoCrops: [],
+    output: DEFAULT_OUTPUT_SETTINGS,
+    styleAspectOverrides: {},
+    variantCount: 1,
+    album: DEFAULT_ALBUM_LAYOUT,
   });
 
   const [results, setResults] = useState<Record<number, GeneratedImage>>({});
   const [selectedStyles, setSelectedStyles] = useState<Set<number>>(new Set());
   const [isAlbumOpen, setIsAlbumOpen] = useState(false);
-  const [cooldownUntil, setCooldownUntil] = useState<number>(0);
-  const [consecutiveErrors, setConsecutiveErrors] = useState(0);
+  const [isCollageOpen, setIsCollageOpen] = useState(false);
+  const [isVerifierOpen, setIsVerifierOpen] = useState(false);
+  const [lightboxStyleId, setLightboxStyleId] = useState<number | null>(null);
+  const [historyStyleId, setHistoryStyleId] = useState<number | null>(null);
+  const [editStyleId, setEditStyleId] = useState<number | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [isPaused, setIsPaused] = useState(false);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [resumeCandidate, setResumeCandidate] = useState<SessionSummary | null>(null);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [customStyles, setCustomStyles] = useState<PhotoStyle[]>(() => loadCustomStyles());
+  const [isStyleEditorOpen, setIsStyleEditorOpen] = useState(false);
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(() => loadPromptLibrary());
+  // Style to preview when the prompt editor is open; null while closed
+  const [promptEditorStyleId, setPromptEditorStyleId] = useState<number | null>(null);
+
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(() => loadQueueSettings());
+  const [isQueueSettingsOpen, setIsQueueSettingsOpen] = useState(false);
+
+  // Watermark applied when exporting; results in the session are never touched
+  const [branding, setBranding] = useState<BrandingSettings>(() => loadBrandingSettings());
+  const [isBrandingOpen, setIsBrandingOpen] = useState(false);
+
+  // The scheduler outlives renders, so it calls into whatever processStyle the latest render defined
+  const processStyleRef = useRef<(job: QueueJob, signal: AbortSignal) => Promise<ImageGenerationResult>>();
+  // Prompt each running job was sent, picked up again when its attempt is written to the history
+  const jobPromptsRef = useRef(new Map<string, string>());
+  const [scheduler] = useState(() => createScheduler<QueueJob, ImageGenerationResult>({
+    config: queueSettings.config,
+    run: (job, signal) => processStyleRef.current!(job, signal),
+    // Rate limits and server/network hiccups are retryable; the provider decides which is which
+    isRetryable: error => error instanceof ProviderError && error.retryable,
+    shouldHalt: error => error instanceof ProviderError && error.haltsQueue,
+    retryAfter: error => error instanceof ProviderError ? error.retryAfterMs : undefined
+  }));
+  const [queueState, setQueueState] = useState<SchedulerSnapshot<QueueJob>>(() => scheduler.getSnapshot());
+  const isPaused = queueState.paused || queueState.breaker === 'open';
+  // Most recent error that made the queue wait or stop; cleared once something succeeds
+  const [queueError, setQueueError] = useState<ProviderError | null>(null);
+
+  const allStyles = useMemo(() => [...PHOTO_STYLES, ...customStyles], [customStyles]);
+  const categories = useMemo(() => Array.from(new Set(allStyles.map(s => s.category))).sort(), [allStyles]);
+
+  // Default page text for album exports opened from the grid
+  const albumLabel = (style: PhotoStyle) => {
+    const category = categoryLabel(style.category);
+    return { name: styleName(style), category, caption: t('album.description', { category: category.toLowerCase() }) };
+  };
+
+  const refreshSessions = async () => {
+    try {
+      const list = await listSessions();
+      setSessions(list);
+      return list;
+    } catch (error) {
+      console.error('Failed to list sessions', error);
+      return [];
+    }
+  };
+
+  // Offer to resume the most recent session on startup
+  useEffect(() => {
+    refreshSessions().then(list => {
+      if (list.length > 0) setResumeCandidate(list[0]);
+    });
+  }, []);
 
   // Phase 1: Upload and Initialization
-  const handleStart = (image: string, gender: Gender) => {
-    const initialResults: Record<number, GeneratedImage> = {};
-    
-    PHOTO_STYLES.forEach(style => {
-      initialResults[style.id] = {
-        styleId: style.id,
-        imageUrl: null,
-        status: 'idle'
-      };
+  const handleStart = (images: string[], crops: (PhotoCrop | null)[]) => {
+    const now = Date.now();
+    setActiveSession({
+      id: createSessionId(),
+      name: t('session.defaultName', { date: formatDate(now) }),
+      createdAt: now
     });
+    setResumeCandidate(null);
 
-    setResults(initialResults);
+    setResults(createInitialResults(allStyles));
     setSelectedStyles(new Set()); 
     setState(prev => ({
       ...prev,
-      uploadedImage: image,
-      gender,
-      queue: [],
-      activeRequests: 0
+      uploadedImage: images[0] || null,
+      referenceImages: images.slice(1),
+      photoCrops: crops,
+      styleAspectOverrides: {},
+      album: DEFAULT_ALBUM_LAYOUT
+    }));
+    scheduler.reset();
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) return;
+
+      const resolveOutput = (styleId: number): OutputSettings => ({
+        ...session.output,
+        aspectRatio: session.styleAspectOverrides[styleId] || session.output.aspectRatio
+      });
+
+      // Anything that was mid-flight when the tab closed goes back to the front of the queue
+      const results = { ...createInitialResults(allStyles), ...session.results };
+      const interrupted: QueueJob[] = [];
+      (Object.values(session.results) as GeneratedImage[]).forEach(result => {
+        const variants: ImageVariant[] = result.variants || [];
+        variants.forEach((variant, index) => {
+          if (variant.status !== 'generating') return;
+          results[result.styleId] = updateVariant(results[result.styleId], index, { status: 'pending' });
+          // The saved job keeps its prompt and edit; one started after the last autosave is rebuilt
+          const saved = session.running.find(job => job.styleId === result.styleId && job.variant === index);
+          interrupted.push(saved || {
+            id: createJobId(),
+            styleId: result.styleId,
+            variant: index,
+            variantCount: variants.length,
+            output: resolveOutput(result.styleId),
+            subject: session.subject
+          });
+        });
+      });
+      const queue: QueueJob[] = [
+        ...interrupted,
+        ...session.queue.filter(job => !interrupted.some(i => i.styleId === job.styleId && i.variant === job.variant))
+      ];
+
+      setActiveSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+      setResults(results);
+      setSelectedStyles(new Set(session.selectedStyles));
+      setState(prev => ({
+        ...prev,
+        uploadedImage: session.uploadedImage,
+        referenceImages: session.referenceImages,
+        photoCrops: session.photoCrops,
+        subject: session.subject,
+        output: session.output,
+        styleAspectOverrides: session.styleAspectOverrides,
+        variantCount: session.variantCount,
+        album: session.album
+      }));
+      // Restored queues start paused so nothing is sent until the user resumes explicitly
+      scheduler.reset(queue, { paused: session.isPaused || queue.length > 0 });
+      setIsAlbumOpen(false);
+      setResumeCandidate(null);
+      setIsSessionsOpen(false);
+    } catch (error) {
+      console.error(`Failed to load session ${id}`, error);
+      alert(t('session.restoreFailed'));
+    }
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    try {
+      await renameSession(id, name);
+    } catch (error) {
+      console.error(`Failed to rename session ${id}`, error);
+      alert(t('sessions.renameFailed'));
+      return;
+    }
+    if (activeSession?.id === id) setActiveSession({ ...activeSession, name });
+    refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (error) {
+      console.error(`Failed to delete session ${id}`, error);
+      alert(t('sessions.deleteFailed'));
+      return;
+    }
+    if (activeSession?.id === id) {
+      setActiveSession(null);
+      setResults({});
+      setSelectedStyles(new Set());
+      setState(prev => ({ ...prev, uploadedImage: null, referenceImages: [], photoCrops: [], album: DEFAULT_ALBUM_LAYOUT }));
+      scheduler.reset();
+    }
+    if (resumeCandidate?.id === id) setResumeCandidate(null);
+    refreshSessions();
+  };
+
+  // An exported album ZIP becomes a new session with its results completed and selected
+  const handleImportArchive = async (file: File) => {
+    try {
+      const album = await readAlbumArchive(file, allStyles, state.subject);
+      const now = Date.now();
+      const id = createSessionId();
+      await saveSession({
+        id,
+        name: file.name.replace(/\.zip$/i, ''),
+        createdAt: now,
+        updatedAt: now,
+        subject: album.subject,
+        uploadedImage: album.sourceImage,
+        referenceImages: [],
+        photoCrops: [],
+        results: album.results,
+        queue: [],
+        running: [],
+        output: album.output,
+        styleAspectOverrides: {},
+        variantCount: 1,
+        selectedStyles: album.layout.order,
+        isPaused: false,
+        album: album.layout
+      });
+      await handleOpenSession(id);
+      refreshSessions();
+      if (album.skipped > 0) alert(t('sessions.importSkipped', { count: album.skipped }));
+    } catch (error) {
+      console.error('Failed to import album archive', error);
+      alert(error instanceof AlbumArchiveError
+        ? t(`sessions.importError.${error.code}` as MessageKey)
+        : t('sessions.importFailed'));
+    }
+  };
+
+  const handleOpenSessions = () => {
+    refreshSessions();
+    setIsSessionsOpen(true);
+  };
+
+  // Autosave the active session
+  useEffect(() => {
+    if (!activeSession) return;
+
+    const timeout = setTimeout(() => {
+      saveSession({
+        ...activeSession,
+        updatedAt: Date.now(),
+        subject: state.subject,
+        uploadedImage: state.uploadedImage,
+        referenceImages: state.referenceImages,
+        photoCrops: state.photoCrops,
+        results,
+        queue: queueState.queue,
+        running: queueState.running,
+        output: state.output,
+        styleAspectOverrides: state.styleAspectOverrides,
+        variantCount: state.variantCount,
+        selectedStyles: Array.from(selectedStyles),
+        isPaused,
+        album: state.album
+      }).catch(error => console.error('Failed to save session', error));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [activeSession, state.subject, state.uploadedImage, state.referenceImages, state.photoCrops, queueState.queue, queueState.running, state.output, state.styleAspectOverrides, state.variantCount, state.album, results, selectedStyles, isPaused]);
+
+  useEffect(() => {
+    saveCustomStyles(customStyles);
+  }, [customStyles]);
+
+  useEffect(() => {
+    savePromptLibrary(promptLibrary);
+  }, [promptLibrary]);
+
+  useEffect(() => {
+    saveBrandingSettings(branding);
+  }, [branding]);
+
+  useEffect(() => {
+    saveQueueSettings(queueSettings);
+    scheduler.configure(queueSettings.config);
+  }, [queueSettings, scheduler]);
+
+  // Keep the results record in step with the catalog as custom styles come and go
+  useEffect(() => {
+    setResults(prev => {
+      if (Object.keys(prev).length === 0) return prev;
+      let changed = false;
+      const next = { ...prev };
+      allStyles.forEach(style => {
+        if (!next[style.id]) {
+          next[style.id] = { styleId: style.id, imageUrl: null, status: 'idle' };
+          changed = true;
+        }
+      });
+      return changed ? next : prev;
+    });
+  }, [allStyles]);
+
+  // New IDs are allocated here rather than in a state updater: allocating persists the counter,
+  // and StrictMode runs updaters twice
+  const handleSaveCustomStyle = (style: Omit<PhotoStyle, 'id'> & { id?: number }) => {
+    if (style.id === undefined) {
+      const created: PhotoStyle = { ...style, id: nextCustomStyleId(customStyles), stableId: createStableStyleId() };
+      setCustomStyles(prev => [...prev, created]);
+      return;
+    }
+    setCustomStyles(prev => prev.map(s => s.id === style.id
+      // A renamed style drops its localized names so the new name is what everyone sees
+      ? { ...s, ...style, id: s.id, names: s.name === style.name ? s.names : undefined }
+      : s));
+  };
+
+  const handleImportStylePack = (pack: StylePack, resolutions: Record<string, ConflictResolution>) => {
+    setCustomStyles(applyStylePackImport(
+      pack,
+      customStyles,
+      findStylePackConflicts(pack, customStyles, PHOTO_STYLES),
+      resolutions
+    ));
+  };
+
+  // Queued jobs are dropped and running ones aborted; their late events find no result left to update
+  const handleDeleteCustomStyle = (id: number) => {
+    scheduler.cancel(job => job.styleId === id);
+    setCustomStyles(prev => prev.filter(s => s.id !== id));
+    setResults(prev => {
+      if (!prev[id]) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setSelectedStyles(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    setPromptLibrary(prev => {
+      if (!prev.styleConfigs[id]) return prev;
+      const styleConfigs = { ...prev.styleConfigs };
+      delete styleConfigs[id];
+      return { ...prev, styleConfigs };
+    });
+  };
+
+  // Output settings and the subject profile are resolved when a job is enqueued, so later changes only affect new jobs.
+  // Every variant is a job of its own, so each one waits for the rate limiter and counts against quota.
+  const createJobs = (styleId: number): QueueJob[] => {
+    const output = {
+      ...state.output,
+      aspectRatio: state.styleAspectOverrides[styleId] || state.output.aspectRatio
+    };
+    return Array.from({ length: state.variantCount }, (_, variant) => ({
+      id: createJobId(),
+      styleId,
+      variant,
+      variantCount: state.variantCount,
+      output,
+      subject: state.subject
     }));
-    setCooldownUntil(0);
-    setConsecutiveErrors(0);
-    setIsPaused(false);
+  };
+
+  const handleSubjectChange = (subject: SubjectProfile) => {
+    setState(prev => ({ ...prev, subject }));
+  };
+
+  const handleOutputChange = (output: OutputSettings) => {
+    setState(prev => ({ ...prev, output }));
+  };
+
+  const handleVariantCountChange = (variantCount: number) => {
+    setState(prev => ({ ...prev, variantCount }));
+  };
+
+  const handleSelectHero = (styleId: number, index: number) => {
+    setResults(prev => prev[styleId] ? { ...prev, [styleId]: selectHero(prev[styleId], index) } : prev);
+  };
+
+  const handleRestoreHistory = (styleId: number, entryId: string) => {
+    setResults(prev => prev[styleId] ? { ...prev, [styleId]: restoreHistoryEntry(prev[styleId], entryId) } : prev);
+  };
+
+  // Replays an attempt with its exact prompt, subject and output settings
+  const handleRerunHistory = (styleId: number, entry: HistoryEntry) => {
+    const baseImageUrl = entry.edit && findEditBase(results[styleId], entry);
+    if (entry.edit && !baseImageUrl) return;
+
+    setResults(prev => ({ ...prev, [styleId]: startVariants(prev[styleId], 1) }));
+    scheduler.enqueue([{
+      id: createJobId(),
+      styleId,
+      variant: 0,
+      variantCount: 1,
+      output: entry.output,
+      subject: entry.subject,
+      prompt: entry.prompt,
+      edit: entry.edit && baseImageUrl ? { ...entry.edit, baseImageUrl } : undefined
+    }]);
+    if (isPaused) scheduler.resume();
+  };
+
+  // Sends a follow-up instruction on the current image; it is queued like any other request, so rate limits apply
+  const handleEditImage = (styleId: number, instruction: string) => {
+    const result = results[styleId];
+    if (!result?.imageUrl) return;
+    const base = findCurrentEntry(result);
+
+    setResults(prev => ({ ...prev, [styleId]: startVariants(prev[styleId], 1) }));
+    scheduler.enqueue([{
+      id: createJobId(),
+      styleId,
+      variant: 0,
+      variantCount: 1,
+      output: base?.output || {
+        aspectRatio: result.aspectRatio || state.output.aspectRatio,
+        imageSize: result.imageSize || state.output.imageSize
+      },
+      subject: base?.subject || state.subject,
+      prompt: base?.prompt,
+      edit: {
+        baseImageUrl: result.imageUrl,
+        parentId: base?.id,
+        instructions: [...(base?.edit?.instructions || []), instruction]
+      }
+    }]);
+    if (isPaused) scheduler.resume();
+  };
+
+  const handleStyleAspectChange = (styleId: number, aspectRatio: AspectRatio | null) => {
+    setState(prev => {
+      const styleAspectOverrides = { ...prev.styleAspectOverrides };
+      if (aspectRatio) styleAspectOverrides[styleId] = aspectRatio;
+      else delete styleAspectOverrides[styleId];
+      return { ...prev, styleAspectOverrides };
+    });
   };
 
   const handleRetry = (styleId: number) => {
     setResults(prev => ({
       ...prev,
-      [styleId]: { ...prev[styleId], status: 'pending', error: undefined, imageUrl: null }
+      [styleId]: startVariants(prev[styleId], state.variantCount)
     }));
     
     setSelectedStyles(prev => {
@@ -71,12 +519,9 @@ const App: React.FC = () => {
         return next;
     });
 
-    setState(prev => ({
-      ...prev,
-      queue: [...prev.queue, styleId]
-    }));
+    scheduler.enqueue(createJobs(styleId));
     // Auto-resume if retrying manually
-    if (isPaused) setIsPaused(false);
+    if (isPaused) scheduler.resume();
   };
 
   const handleGenerateSelected = () => {
@@ -87,18 +532,15 @@ const App: React.FC = () => {
       setResults(prev => {
           const next = { ...prev };
           stylesToGenerate.forEach(id => {
-              if (next[id]) next[id] = { ...next[id], status: 'pending' };
+              if (next[id]) next[id] = startVariants(next[id], state.variantCount);
           });
           return next;
       });
 
-      setState(prev => ({
-          ...prev,
-          queue: [...prev.queue, ...stylesToGenerate]
-      }));
+      scheduler.enqueue(stylesToGenerate.flatMap(createJobs));
 
       setSelectedStyles(new Set());
-      if (isPaused) setIsPaused(false);
+      if (isPaused) scheduler.resume();
   };
 
   const toggleSelection = (id: number) => {
@@ -140,185 +582,197 @@ const App: React.FC = () => {
     }
   };
 
-  // Timer Effect
+  // Countdown until the scheduler may start the next job
   useEffect(() => {
-    if (cooldownUntil === 0 || isPaused) {
+    if (queueState.waitingUntil === 0) {
         setTimeRemaining(0);
         return;
     }
 
-    const interval = setInterval(() => {
-        const left = Math.max(0, Math.ceil((cooldownUntil - Date.now()) / 1000));
-        setTimeRemaining(left);
-        if (left <= 0) {
-            setCooldownUntil(0);
-        }
-    }, 1000);
-
+    const tick = () => setTimeRemaining(Math.max(0, Math.ceil((queueState.waitingUntil - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [cooldownUntil, isPaused]);
+  }, [queueState.waitingUntil]);
 
-  // Queue Processor
+  // Mirror scheduler progress into the results grid, one variant at a time
   useEffect(() => {
-    if (isPaused || cooldownUntil > Date.now()) {
-        return;
-    }
-
-    const processQueue = async () => {
-      if (state.queue.length === 0 || state.activeRequests >= MAX_CONCURRENCY || !state.uploadedImage) {
-        return;
-      }
-
-      const styleId = state.queue[0];
-      const remainingQueue = state.queue.slice(1);
-
-      setState(prev => ({
-        ...prev,
-        queue: remainingQueue,
-        activeRequests: prev.activeRequests + 1
-      }));
+    const updateJobVariant = (job: QueueJob, patch: Partial<ImageVariant>, attempt?: HistoryEntry) => setResults(prev => {
+      if (!prev[job.styleId]) return prev;
+      const next = updateVariant(prev[job.styleId], job.variant, patch);
+      return { ...prev, [job.styleId]: attempt ? appendHistory(next, attempt) : next };
+    });
 
-      processStyle(styleId);
+    // Only finished attempts are recorded; retries and cancellations are not
+    const createAttempt = (job: QueueJob, fields: Partial<HistoryEntry>): HistoryEntry => {
+      const prompt = jobPromptsRef.current.get(job.id) || '';
+      jobPromptsRef.current.delete(job.id);
+      const edit = job.edit && { parentId: job.edit.parentId, instructions: job.edit.instructions };
+      return { id: job.id, createdAt: Date.now(), imageUrl: null, prompt, output: job.output, subject: job.subject, edit, ...fields };
     };
 
-    processQueue();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [state.queue, state.activeRequests, state.uploadedImage, cooldownUntil, isPaused]);
-
-
-  const processStyle = async (styleId: number) => {
-    setResults(prev => ({
-      ...prev,
-      [styleId]: { ...prev[styleId], status: 'generating' }
-    }));
+    return scheduler.subscribe(event => {
+      switch (event.type) {
+        case 'change':
+          setQueueState(event.snapshot);
+          break;
+        case 'start':
+          updateJobVariant(event.job, { status: 'generating' });
+          break;
+        case 'success':
+          setQueueError(null);
+          updateJobVariant(event.job, {
+            status: 'completed',
+            error: undefined,
+            errorKind: undefined,
+            imageUrl: event.result.imageUrl,
+            model: event.result.model,
+            aspectRatio: event.job.output.aspectRatio,
+            imageSize: event.job.output.imageSize
+          }, createAttempt(event.job, { imageUrl: event.result.imageUrl, model: event.result.model }));
+          break;
+        case 'retry':
+        case 'breakerOpen':
+        case 'halt':
+          console.error(`Failed to generate style ${event.job.styleId}`, event.error);
+          if (event.error instanceof ProviderError) setQueueError(event.error);
+          updateJobVariant(event.job, {
+            status: 'pending',
+            error: event.type === 'breakerOpen' ? t('queue.tooManyErrors') : undefined
+          });
+          break;
+        case 'cancel':
+          // Cancelled by the user: back to idle, not an error
+          jobPromptsRef.current.delete(event.job.id);
+          updateJobVariant(event.job, { status: 'idle', error: undefined, errorKind: undefined });
+          break;
+        case 'failure': {
+          console.error(`Failed to generate style ${event.job.styleId}`, event.error);
+          const failure = {
+            error: (event.error as Error)?.message || 'Unknown error',
+            errorKind: event.error instanceof ProviderError ? event.error.kind : 'unknown' as const
+          };
+          updateJobVariant(event.job, { status: 'failed', ...failure }, createAttempt(event.job, failure));
+          break;
+        }
+      }
+    });
+  }, [scheduler, t]);
 
-    const style = PHOTO_STYLES.find(s => s.id === styleId);
+  const processStyle = async (job: QueueJob, signal: AbortSignal): Promise<ImageGenerationResult> => {
+    const style = allStyles.find(s => s.id === job.styleId);
     if (!style || !state.uploadedImage) {
-        setState(prev => ({ ...prev, activeRequests: prev.activeRequests - 1 }));
-        return;
+      throw new Error('This style or the reference photo is no longer available.');
     }
 
-    try {
-      const imageUrl = await generateStyledImage(
-        state.uploadedImage, 
-        state.gender, 
-        style.promptSuffix
-      );
-
-      setResults(prev => ({
-        ...prev,
-        [styleId]: { ...prev[styleId], status: 'completed', imageUrl }
-      }));
-      
-      setConsecutiveErrors(0);
-      setCooldownUntil(Date.now() + REQUEST_DELAY_MS);
-
-    } catch (error: any) {
-      console.error(`Failed to generate style ${styleId}`, error);
-      
-      const errorMessage = error?.message || '';
-      // Check for Rate Limits (429)
-      const isRateLimit = errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('RESOURCE_EXHAUSTED');
-      // Check for Server/Network Errors (500, RPC, XHR)
-      const isServerError = errorMessage.includes('500') || errorMessage.includes('503') || errorMessage.includes('Rpc failed') || errorMessage.includes('xhr error') || errorMessage.includes('UNKNOWN');
-
-      if (isRateLimit || isServerError) {
-        const newConsecutiveErrors = consecutiveErrors + 1;
-        setConsecutiveErrors(newConsecutiveErrors);
-        
-        // CIRCUIT BREAKER
-        if (newConsecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-            console.warn("Max consecutive errors reached. Pausing queue.");
-            setIsPaused(true);
-            setCooldownUntil(0); // Stop timer, wait for manual resume
-            
-            // Put back in queue
-            setState(prev => ({
-                ...prev,
-                queue: [styleId, ...prev.queue]
-            }));
-
-            setResults(prev => ({
-                ...prev,
-                [styleId]: { ...prev[styleId], status: 'pending', error: "Too many errors. Paused." }
-            }));
-        } else {
-            // Standard Backoff
-            const backoffTime = BASE_COOLDOWN_MS * Math.pow(2, newConsecutiveErrors - 1);
-            setCooldownUntil(Date.now() + backoffTime);
-
-            setState(prev => ({
-                ...prev,
-                queue: [styleId, ...prev.queue]
-            }));
-
-            setResults(prev => ({
-                ...prev,
-                [styleId]: { ...prev[styleId], status: 'pending', error: undefined }
-            }));
-        }
-      } else {
-        // Permanent failure
-        setResults(prev => ({
-            ...prev,
-            [styleId]: { 
-            ...prev[styleId], 
-            status: 'failed', 
-            error: errorMessage || 'Unknown error' 
-            }
-        }));
-        setConsecutiveErrors(0);
+    const referenceImages = [state.uploadedImage, ...state.referenceImages];
+    const prompt = job.prompt || buildPrompt(job.subject, style, job.output.aspectRatio, referenceImages.length, promptLibrary);
+    jobPromptsRef.current.set(job.id, prompt);
+    return generateStyledImage(
+      referenceImages,
+      prompt,
+      job.output,
+      {
+        signal,
+        variant: job.variant,
+        edit: job.edit && { imageUrl: job.edit.baseImageUrl, instructions: job.edit.instructions }
       }
-    } finally {
-      setState(prev => ({
-        ...prev,
-        activeRequests: prev.activeRequests - 1
-      }));
-    }
+    );
   };
+  processStyleRef.current = processStyle;
 
   const handlePauseToggle = () => {
     if (isPaused) {
-        setConsecutiveErrors(0); // Reset error count on manual resume
-        setCooldownUntil(0);
+      setQueueError(null);
+      scheduler.resume();
+    } else {
+      scheduler.pause();
     }
-    setIsPaused(!isPaused);
+  };
+
+  const handleCancelJob = (jobId: string) => {
+    scheduler.cancel(job => job.id === jobId);
+  };
+
+  const handleMoveJobToTop = (jobId: string) => {
+    const job = queueState.queue.find(j => j.id === jobId);
+    if (job) scheduler.reorder([job]);
+  };
+
+  const handleReorderJobs = (jobIds: string[]) => {
+    const byId = new Map(queueState.queue.map(job => [job.id, job]));
+    scheduler.reorder(jobIds.map(id => byId.get(id)).filter((job): job is QueueJob => !!job));
   };
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200">
-      <Header />
+      <Header
+        onOpenSessions={handleOpenSessions}
+        onOpenQueueSettings={() => setIsQueueSettingsOpen(true)}
+        onOpenVerifier={() => setIsVerifierOpen(true)}
+        onOpenBranding={() => setIsBrandingOpen(true)}
+        isBrandingOn={isBrandingActive(branding)}
+      />
       
       <main className="container mx-auto px-4 py-8">
         <UploadSection 
+          key={activeSession?.id || 'new'}
           onStart={handleStart} 
-          isProcessing={state.queue.length > 0 || state.activeRequests > 0 || isPaused} 
+          isProcessing={queueState.queue.length > 0 || queueState.running.length > 0 || isPaused}
+          maxReferences={provider.capabilities.maxReferenceImages}
+          providerLabel={provider.label}
+          initialImages={state.uploadedImage ? [state.uploadedImage, ...state.referenceImages] : []}
+          initialCrops={state.photoCrops}
+          subject={state.subject}
+          onSubjectChange={handleSubjectChange}
         />
         
         {/* Status Banners */}
         <div className="max-w-7xl mx-auto mb-6 px-4 space-y-4">
-            
-            {/* 1. Queue Status & Manual Pause Control */}
-            {state.queue.length > 0 && (
-                 <div className="flex items-center justify-between bg-slate-900 border border-slate-800 p-4 rounded-xl">
+
+            {/* 0. Resume Previous Session */}
+            {resumeCandidate && !activeSession && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-indigo-500/10 border border-indigo-500/30 p-4 rounded-xl">
                     <div className="flex items-center gap-3">
-                        <div className={`w-3 h-3 rounded-full ${isPaused ? 'bg-amber-500 animate-pulse' : 'bg-green-500 animate-pulse'}`}></div>
-                        <span className="text-slate-300 font-medium">
-                            {isPaused ? 'Generation Paused' : `Processing Queue (${state.queue.length} remaining)`}
-                        </span>
+                        <History className="w-5 h-5 text-indigo-400" />
+                        <div>
+                            <p className="font-medium text-slate-200">{t('session.resumeTitle', { name: resumeCandidate.name })}</p>
+                            <p className="text-sm text-slate-400">
+                                {t('session.resumeSummary', { completed: resumeCandidate.completedCount, date: formatDate(resumeCandidate.updatedAt) })}
+                                {resumeCandidate.queuedCount > 0 && ` · ${t('session.resumeQueued', { count: resumeCandidate.queuedCount })}`}
+                            </p>
+                        </div>
                     </div>
-                    <button 
-                        onClick={handlePauseToggle}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all ${
-                            isPaused 
-                            ? 'bg-green-600 hover:bg-green-500 text-white' 
-                            : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
-                        }`}
-                    >
-                        {isPaused ? <PlayCircle className="w-4 h-4" /> : <PauseCircle className="w-4 h-4" />}
-                        {isPaused ? 'Resume Generation' : 'Pause'}
-                    </button>
-                 </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setResumeCandidate(null)}
+                            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800"
+                        >
+                            {t('session.startFresh')}
+                        </button>
+                        <button
+                            onClick={() => handleOpenSession(resumeCandidate.id)}
+                            className="px-4 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white"
+                        >
+                            {t('session.resume')}
+                        </button>
+                    </div>
+                </div>
+            )}
+            
+            {/* 1. Queue Status & Manual Pause Control */}
+            {(queueState.queue.length > 0 || queueState.running.length > 0) && (
+                <QueuePanel
+                    queue={queueState.queue}
+                    running={queueState.running}
+                    styles={allStyles}
+                    isPaused={isPaused}
+                    onPauseToggle={handlePauseToggle}
+                    onCancel={handleCancelJob}
+                    onCancelAll={() => scheduler.cancel(() => true)}
+                    onMoveToTop={handleMoveJobToTop}
+                    onReorder={handleReorderJobs}
+                />
             )}
 
             {/* 2. Cooldown Countdown */}
@@ -326,7 +780,12 @@ const App: React.FC = () => {
                 <div className="bg-blue-500/10 border border-blue-500/30 text-blue-300 px-6 py-4 rounded-xl flex items-center justify-between gap-4 animate-pulse">
                     <div className="flex items-center gap-3">
                         <Clock className="w-5 h-5" />
-                        <span className="font-medium">Pacing requests to respect API limits...</span>
+                        <div>
+                            <p className="font-medium">{queueState.waitReason === 'backoff' ? t('queue.backingOff') : t('queue.pacing')}</p>
+                            {queueState.waitReason === 'backoff' && queueError && (
+                                <p className="text-sm text-blue-300/80">{t(`errors.${queueError.kind}.hint` as MessageKey)}</p>
+                            )}
+                        </div>
                     </div>
                     <div className="font-mono font-bold">
                         {timeRemaining}s
@@ -335,42 +794,186 @@ const App: React.FC = () => {
             )}
 
             {/* 3. Circuit Breaker Warning */}
-            {isPaused && consecutiveErrors >= MAX_CONSECUTIVE_ERRORS && (
+            {queueState.breaker === 'open' && (
                 <div className="bg-red-500/10 border border-red-500/30 text-red-200 px-6 py-4 rounded-xl flex items-center gap-3">
                     <AlertTriangle className="w-6 h-6 text-red-400" />
                     <div>
-                        <p className="font-bold">Generation Paused: High Error Rate</p>
+                        <p className="font-bold">{t('queue.breakerTitle')}</p>
                         <p className="text-sm text-red-300/80">
-                            We encountered multiple errors (Rate Limit or Server Error). The queue has been paused to prevent further issues. 
-                            Please wait a minute before clicking "Resume".
+                            {t('queue.breakerBody')}
                         </p>
+                        {queueError && (
+                            <p className="text-sm text-red-300/80 mt-1">{t(`errors.${queueError.kind}.hint` as MessageKey)}</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* 4. Queue Stopped by a Non-Retryable Error (bad key, daily quota) */}
+            {queueState.paused && queueError?.haltsQueue && (
+                <div className="bg-red-500/10 border border-red-500/30 text-red-200 px-6 py-4 rounded-xl flex items-center gap-3">
+                    <AlertTriangle className="w-6 h-6 text-red-400" />
+                    <div>
+                        <p className="font-bold">{t('queue.haltedTitle', { reason: t(`errors.${queueError.kind}` as MessageKey) })}</p>
+                        <p className="text-sm text-red-300/80">{t(`errors.${queueError.kind}.hint` as MessageKey)}</p>
                     </div>
                 </div>
             )}
         </div>
         
         <StyleGrid 
+          styles={allStyles}
           results={results} 
           onRetry={handleRetry}
           selectedIds={selectedStyles}
           onToggleSelection={toggleSelection}
           onSelectAll={handleSelectAll}
           onOpenAlbum={() => setIsAlbumOpen(true)}
+          onOpenCollage={() => setIsCollageOpen(true)}
           onGenerateSelected={handleGenerateSelected}
+          onOpenStyleEditor={() => setIsStyleEditorOpen(true)}
+          onOpenPromptEditor={(styleId) => setPromptEditorStyleId(styleId ?? allStyles[0].id)}
+          output={state.output}
+          onOutputChange={handleOutputChange}
+          supportedAspectRatios={provider.capabilities.supportedAspectRatios}
+          supportedImageSizes={provider.capabilities.supportedImageSizes}
+          styleAspectOverrides={state.styleAspectOverrides}
+          onStyleAspectChange={handleStyleAspectChange}
+          variantCount={state.variantCount}
+          maxVariants={MAX_VARIANTS}
+          onVariantCountChange={handleVariantCountChange}
+          onSelectHero={handleSelectHero}
+          onOpenLightbox={setLightboxStyleId}
+          onOpenHistory={setHistoryStyleId}
+          onOpenEditor={setEditStyleId}
         />
       </main>
 
       {/* Album Modal */}
       {isAlbumOpen && (
         <AlbumView 
+          styles={allStyles}
           selectedIds={selectedStyles}
           results={results}
+          originalImage={state.uploadedImage}
+          subject={state.subject}
+          output={state.output}
+          branding={branding}
+          layout={state.album}
+          onLayoutChange={(album) => setState(prev => ({ ...prev, album }))}
           onClose={() => setIsAlbumOpen(false)}
         />
       )}
 
+      {/* Collage Export */}
+      {isCollageOpen && (
+        <CollageDialog
+          items={collectAlbumItems(allStyles, selectedStyles, results, albumLabel, state.album)}
+          theme={state.album.theme}
+          branding={branding}
+          onClose={() => setIsCollageOpen(false)}
+        />
+      )}
+
+      {/* Variant Lightbox */}
+      {lightboxStyleId !== null && results[lightboxStyleId] && allStyles.some(s => s.id === lightboxStyleId) && (
+        <Lightbox
+          style={allStyles.find(s => s.id === lightboxStyleId)!}
+          result={results[lightboxStyleId]}
+          originalImage={state.uploadedImage}
+          branding={branding}
+          onSelectHero={(index) => handleSelectHero(lightboxStyleId, index)}
+          onClose={() => setLightboxStyleId(null)}
+        />
+      )}
+
+      {/* Generation History */}
+      {historyStyleId !== null && results[historyStyleId] && allStyles.some(s => s.id === historyStyleId) && (
+        <HistoryDrawer
+          style={allStyles.find(s => s.id === historyStyleId)!}
+          result={results[historyStyleId]}
+          onRestore={(entryId) => handleRestoreHistory(historyStyleId, entryId)}
+          onRerun={(entry) => handleRerunHistory(historyStyleId, entry)}
+          onClose={() => setHistoryStyleId(null)}
+        />
+      )}
+
+      {/* Conversational Edit */}
+      {editStyleId !== null && results[editStyleId] && allStyles.some(s => s.id === editStyleId) && (
+        <EditPanel
+          style={allStyles.find(s => s.id === editStyleId)!}
+          result={results[editStyleId]}
+          onSubmit={(instruction) => handleEditImage(editStyleId, instruction)}
+          onRestore={(entryId) => handleRestoreHistory(editStyleId, entryId)}
+          onClose={() => setEditStyleId(null)}
+        />
+      )}
+
+      {/* Custom Style Editor */}
+      {isStyleEditorOpen && (
+        <StyleEditor
+          customStyles={customStyles}
+          builtInStyles={PHOTO_STYLES}
+          categories={categories}
+          onSave={handleSaveCustomStyle}
+          onDelete={handleDeleteCustomStyle}
+          onImportPack={handleImportStylePack}
+          onClose={() => setIsStyleEditorOpen(false)}
+        />
+      )}
+
+      {/* Prompt Template Editor */}
+      {promptEditorStyleId !== null && (
+        <PromptEditor
+          library={promptLibrary}
+          onChange={setPromptLibrary}
+          styles={allStyles}
+          subject={state.subject}
+          output={state.output}
+          styleAspectOverrides={state.styleAspectOverrides}
+          referenceCount={(state.uploadedImage ? 1 : 0) + state.referenceImages.length}
+          initialStyleId={promptEditorStyleId}
+          onClose={() => setPromptEditorStyleId(null)}
+        />
+      )}
+
+      {/* Queue Settings */}
+      {isQueueSettingsOpen && (
+        <QueueSettingsPanel
+          settings={queueSettings}
+          onChange={setQueueSettings}
+          onClose={() => setIsQueueSettingsOpen(false)}
+        />
+      )}
+
+      {/* Export Branding */}
+      {isBrandingOpen && (
+        <BrandingPanel
+          settings={branding}
+          previewImage={(Object.values(results) as GeneratedImage[]).find(r => r.status === 'completed' && r.imageUrl)?.imageUrl || state.uploadedImage}
+          onChange={setBranding}
+          onClose={() => setIsBrandingOpen(false)}
+        />
+      )}
+
+      {/* Session Manager Modal */}
+      {isSessionsOpen && (
+        <SessionManager
+          sessions={sessions}
+          activeSessionId={activeSession?.id || null}
+          onOpen={handleOpenSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onImportArchive={handleImportArchive}
+          onClose={() => setIsSessionsOpen(false)}
+        />
+      )}
+
+      {/* Provenance Verifier */}
+      {isVerifierOpen && <ProvenanceVerifier onClose={() => setIsVerifierOpen(false)} />}
+
       <footer className="py-8 text-center text-slate-600 text-sm">
-        <p>© 2025 AI Photo Studio Pro. Powered by Gemini Nano Banana.</p>
+        <p>{t('footer.copyright')}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlbumItem, AlbumTheme } from '../types';
+import { aspectRatioCss } from '../services/imageUtils';
+import { useI18n } from '../i18n';
+import { EditableText } from './EditableText';
+import { THEME_TEXT } from './AlbumPage';
+
+interface AlbumCoverProps {
+  theme: AlbumTheme;
+  title: string; // Already resolved to the default when none was set
+  hero: AlbumItem | undefined; // The first page's photo
+  count: number;
+  onTitleChange: (title: string) => void;
+}
+
+export const AlbumCover: React.FC<AlbumCoverProps> = ({ theme, title, hero, count, onTitleChange }) => {
+  const { t } = useI18n();
+  const text = THEME_TEXT[theme];
+  const framed = theme === 'polaroid';
+
+  return (
+    <div className="w-full h-full flex flex-col md:flex-row items-center justify-center p-4 md:p-12 gap-8 md:gap-12">
+      {hero && (
+        <div className={framed ? 'bg-white p-3 pb-10 shadow-2xl shadow-black/50 -rotate-2' : 'shadow-2xl shadow-black/30'}>
+          <img
+            src={hero.url}
+            alt=""
+            className="h-[40vh] md:h-[62vh] w-auto object-cover rounded-sm"
+            style={{ aspectRatio: aspectRatioCss(hero.aspectRatio) }}
+          />
+        </div>
+      )}
+      <div className={`w-full md:w-96 space-y-4 ${theme === 'minimal' ? 'text-center' : ''}`}>
+        <p className={`${text.eyebrow} text-sm tracking-widest uppercase font-medium`}>{t('album.cover')}</p>
+        <EditableText
+          value={title}
+          label={t('album.editCoverTitle')}
+          onCommit={onTitleChange}
+          multiline
+          className={`${framed ? 'font-serif italic text-stone-100' : text.title} text-4xl md:text-6xl leading-tight ${theme === 'minimal' ? 'text-center' : ''}`}
+        />
+        <p className={`${text.caption} text-sm`}>{t('album.coverSubtitle', { count })}</p>
+      </div>
+    </div>
+  );
+};
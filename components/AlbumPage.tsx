@@ -0,0 +1,160 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { AlbumItem, AlbumPageText, AlbumTheme } from '../types';
+import { aspectRatioCss, isLandscape, sideBySideRatio } from '../services/imageUtils';
+import { imageCode } from '../services/photobook';
+import { useI18n } from '../i18n';
+import { BeforeAfter, ComparisonMode } from './BeforeAfter';
+import { EditableText } from './EditableText';
+
+interface AlbumPageProps {
+  theme: AlbumTheme;
+  items: AlbumItem[]; // One item, or a whole spread for the grid theme
+  pageIndex: number;
+  originalImage: string | null;
+  comparisonMode: ComparisonMode;
+  onEdit: (id: number, patch: AlbumPageText) => void;
+  onDownload: (item: AlbumItem) => void;
+}
+
+// Tailwind classes per theme; the background colors come from ALBUM_THEME_PALETTES
+export const THEME_TEXT: Record<AlbumTheme, { eyebrow: string; title: string; caption: string }> = {
+  magazine: { eyebrow: 'text-indigo-400', title: 'font-serif text-white', caption: 'text-slate-400' },
+  polaroid: { eyebrow: 'text-amber-300', title: 'font-serif italic text-stone-800', caption: 'text-stone-300' },
+  minimal: { eyebrow: 'text-zinc-400', title: 'font-sans font-medium text-zinc-900', caption: 'text-zinc-500' },
+  grid: { eyebrow: 'text-sky-400', title: 'font-serif text-white', caption: 'text-gray-400' },
+};
+
+// Photo box sizes for the single-image themes, by orientation
+const PHOTO_SIZES: Record<Exclude<AlbumTheme, 'grid'>, { landscape: string; portrait: string }> = {
+  magazine: { landscape: 'w-full md:w-[60vw] max-h-[80vh]', portrait: 'h-[60vh] md:h-[80vh]' },
+  polaroid: { landscape: 'w-[80vw] md:w-[55vw] max-h-[60vh]', portrait: 'h-[50vh] md:h-[62vh]' },
+  minimal: { landscape: 'w-full md:w-[55vw] max-h-[62vh]', portrait: 'h-[52vh] md:h-[64vh]' },
+};
+
+export const AlbumPage: React.FC<AlbumPageProps> = ({
+  theme,
+  items,
+  pageIndex,
+  originalImage,
+  comparisonMode,
+  onEdit,
+  onDownload
+}) => {
+  const { t } = useI18n();
+  const text = THEME_TEXT[theme];
+
+  const downloadButton = (item: AlbumItem) => (
+    <div className="absolute bottom-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+      <button
+        onClick={() => onDownload(item)}
+        className="p-2 bg-white/10 hover:bg-white/30 backdrop-blur-md rounded-full text-white"
+        title={t('album.downloadSingle')}
+      >
+        <Download className="w-5 h-5" />
+      </button>
+    </div>
+  );
+
+  const titleField = (item: AlbumItem, className: string) => (
+    <EditableText
+      value={item.name}
+      label={t('album.editTitle')}
+      onCommit={(title) => onEdit(item.id, { title })}
+      className={`${text.title} ${className}`}
+    />
+  );
+
+  const captionField = (item: AlbumItem, className: string) => (
+    <EditableText
+      value={item.caption}
+      label={t('album.editCaption')}
+      onCommit={(caption) => onEdit(item.id, { caption })}
+      multiline
+      className={`${text.caption} ${className}`}
+    />
+  );
+
+  if (theme === 'grid') {
+    return (
+      <div className="w-full h-full overflow-y-auto p-4 md:p-10">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 max-w-5xl mx-auto">
+          {items.map(item => (
+            <figure key={item.id} className="min-w-0">
+              <div className="relative group h-[32vh] rounded-sm overflow-hidden bg-black/20">
+                <img src={item.url} alt={item.name} className="w-full h-full object-cover" />
+                {downloadButton(item)}
+              </div>
+              <figcaption className="pt-2 space-y-0.5">
+                {titleField(item, 'text-lg')}
+                {captionField(item, 'text-xs leading-relaxed')}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const [item] = items;
+  const frameRatio = originalImage && comparisonMode === 'sideBySide' ? sideBySideRatio(item.aspectRatio) : item.aspectRatio;
+  const isComparing = !!originalImage && comparisonMode !== 'off';
+  const size = PHOTO_SIZES[theme][isLandscape(frameRatio) ? 'landscape' : 'portrait'];
+
+  const photo = (extraClass: string) => (
+    <div className={`relative group ${size} ${extraClass}`} style={{ aspectRatio: aspectRatioCss(frameRatio) }}>
+      {originalImage ? (
+        <BeforeAfter before={originalImage} after={item.url} alt={item.name} mode={comparisonMode} />
+      ) : (
+        <img src={item.url} alt={item.name} className="w-full h-full object-cover rounded-sm" />
+      )}
+      {theme === 'magazine' && !isComparing && <div className="absolute inset-0 border-[16px] border-white/5 pointer-events-none"></div>}
+      {downloadButton(item)}
+    </div>
+  );
+
+  if (theme === 'polaroid') {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center p-4 md:p-10 gap-6">
+        <div className={`bg-white p-3 pb-2 shadow-2xl shadow-black/50 transition-transform ${pageIndex % 2 === 0 ? '-rotate-1' : 'rotate-1'}`}>
+          {photo('')}
+          {titleField(item, 'mt-2 text-2xl text-center')}
+        </div>
+        {captionField(item, 'max-w-md text-sm text-center leading-relaxed')}
+      </div>
+    );
+  }
+
+  if (theme === 'minimal') {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center p-4 md:p-12 gap-6">
+        {photo('')}
+        <div className="w-full max-w-md text-center space-y-1">
+          {titleField(item, 'text-lg tracking-wide text-center')}
+          {captionField(item, 'text-sm text-center leading-relaxed')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col md:flex-row items-center justify-center p-4 md:p-12 gap-8">
+      {photo('shadow-2xl shadow-indigo-900/20')}
+
+      {/* Text/Info Panel */}
+      <div className="w-full md:w-80 flex flex-col items-start justify-center text-left space-y-6">
+        <div className="w-12 h-1 bg-indigo-500"></div>
+        <div className="w-full">
+          <p className={`${text.eyebrow} text-sm tracking-widest uppercase mb-2 font-medium`}>
+            {t('album.collection', { category: item.category })}
+          </p>
+          {titleField(item, 'text-4xl md:text-5xl leading-tight')}
+        </div>
+        {captionField(item, 'text-sm leading-relaxed')}
+        <div className="pt-4 text-xs text-slate-600 font-mono">
+          {imageCode(item.id)}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,89 +1,200 @@
-import React, { useState } from 'react';
-import { X, ChevronLeft, ChevronRight, Share2, Download, Loader } from 'lucide-react';
-import { GeneratedImage } from '../types';
-import { PHOTO_STYLES } from '../constants';
-import JSZip from 'jszip';
+import React, { useEffect, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Share2, Download, FileDown, Images, Palette, BookOpen, Globe } from 'lucide-react';
+import { AlbumItem, AlbumLayout, AlbumPageText, AlbumTheme, GeneratedImage, OutputSettings, PhotoStyle, SubjectProfile } from '../types';
+import { aspectRatioCss, safeFileName } from '../services/imageUtils';
+import { ALBUM_THEMES, ALBUM_THEME_PALETTES, GRID_SPREAD_SIZE, collectAlbumItems, editPage, movePage, paginate } from '../services/album';
+import { downloadWithProvenance, provenanceFor } from '../services/provenance';
+import { BrandingSettings, applyBranding } from '../services/branding';
+import { MessageKey, useI18n } from '../i18n';
+import { COMPARISON_MODES, ComparisonMode } from './BeforeAfter';
+import { ComparisonToggle } from './ComparisonToggle';
+import { AlbumCover } from './AlbumCover';
+import { AlbumPage } from './AlbumPage';
+import { PhotobookDialog } from './PhotobookDialog';
+import { CollageDialog } from './CollageDialog';
+import { ZipExportDialog } from './ZipExportDialog';
+import { WebAlbumDialog } from './WebAlbumDialog';
+import { ShareDialog } from './ShareDialog';
+import { CleanExportToggle } from './CleanExportToggle';
 
 interface AlbumViewProps {
+  styles: PhotoStyle[];
   selectedIds: Set<number>;
   results: Record<number, GeneratedImage>;
+  originalImage: string | null; // The uploaded photo, for before/after comparison
+  subject: SubjectProfile; // Session settings, recorded in the ZIP manifest
+  output: OutputSettings;
+  branding: BrandingSettings; // Applied to every export unless it is made clean, never to the images themselves
+  layout: AlbumLayout; // Theme, page order and edited text; every export follows it
+  onLayoutChange: (layout: AlbumLayout) => void;
   onClose: () => void;
 }
 
-export const AlbumView: React.FC<AlbumViewProps> = ({ selectedIds, results, onClose }) => {
+export const AlbumView: React.FC<AlbumViewProps> = ({
+  styles,
+  selectedIds,
+  results,
+  originalImage,
+  subject,
+  output,
+  branding,
+  layout,
+  onLayoutChange,
+  onClose
+}) => {
+  const { t, styleName, categoryLabel } = useI18n();
   const [activeIndex, setActiveIndex] = useState(0);
-  const [isZipping, setIsZipping] = useState(false);
-  
-  // Convert Set to Array and get valid images
-  const images = (Array.from(selectedIds) as number[])
-    .map(id => {
-      const result = results[id];
-      const style = PHOTO_STYLES.find(s => s.id === id);
-      return result?.status === 'completed' && result.imageUrl && style
-        ? { id, url: result.imageUrl, name: style.name, category: style.category }
-        : null;
-    })
-    .filter((item): item is NonNullable<typeof item> => item !== null);
+  const [isZipOpen, setIsZipOpen] = useState(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
+  const [isPhotobookOpen, setIsPhotobookOpen] = useState(false);
+  const [isCollageOpen, setIsCollageOpen] = useState(false);
+  const [isWebAlbumOpen, setIsWebAlbumOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  // For single-image downloads from the pages; the export dialogs each have their own toggle
+  const [cleanDownloads, setCleanDownloads] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const label = (style: PhotoStyle) => {
+    const category = categoryLabel(style.category);
+    return { name: styleName(style), category, caption: t('album.description', { category: category.toLowerCase() }) };
+  };
+  const images = collectAlbumItems(styles, selectedIds, results, label, layout);
+  const ids = images.map(image => image.id);
+
+  // Page 0 is the cover; the rest hold one image each, or a spread in the grid theme
+  const spreads = paginate(layout.theme, images);
+  const pageCount = spreads.length + 1;
+  // Clamped here because reordering or switching themes changes the page count
+  const pageIndex = Math.min(activeIndex, pageCount - 1);
+  const isCover = pageIndex === 0;
+  const perPage = layout.theme === 'grid' ? GRID_SPREAD_SIZE : 1;
+
+  const handleNext = () => setActiveIndex((pageIndex + 1) % pageCount);
+  const handlePrev = () => setActiveIndex((pageIndex - 1 + pageCount) % pageCount);
+
+  // Arrow keys page through the album (unless the comparison slider took them), C cycles the comparison mode
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isZipOpen || isPhotobookOpen || isCollageOpen || isWebAlbumOpen || isShareOpen || e.defaultPrevented || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowRight') handleNext();
+      else if (e.key === 'ArrowLeft') handlePrev();
+      else if (e.key.toLowerCase() === 'c' && originalImage) {
+        setComparisonMode(prev => COMPARISON_MODES[(COMPARISON_MODES.indexOf(prev) + 1) % COMPARISON_MODES.length]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   if (images.length === 0) return null;
 
-  const currentImage = images[activeIndex];
-
-  const handleNext = () => setActiveIndex((prev) => (prev + 1) % images.length);
-  const handlePrev = () => setActiveIndex((prev) => (prev - 1 + images.length) % images.length);
-
-  const downloadAlbum = async () => {
-    setIsZipping(true);
-    try {
-        const zip = new JSZip();
-        
-        images.forEach((img) => {
-            // Remove data:image/png;base64, prefix
-            const base64Data = img.url.split(',')[1];
-            // Sanitize filename
-            const fileName = `${img.id}_${img.name.replace(/\s+/g, '_')}.png`;
-            zip.file(fileName, base64Data, { base64: true });
-        });
-
-        const content = await zip.generateAsync({ type: 'blob' });
-        
-        // Create download link
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(content);
-        link.download = 'AI_Photo_Studio_Album.zip';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-    } catch (error) {
-        console.error("Failed to zip images", error);
-        alert("Failed to generate zip file.");
-    } finally {
-        setIsZipping(false);
-    }
+  const defaultTitle = t('album.title');
+  const canCompare = !!originalImage && !isCover && layout.theme !== 'grid';
+
+  const downloadItem = (item: AlbumItem) => {
+    const style = styles.find(s => s.id === item.id);
+    if (!style) return;
+    applyBranding(item.url, cleanDownloads ? null : branding)
+      .then(url => downloadWithProvenance(url, provenanceFor(results[item.id], style), `album-${safeFileName(item.name)}`))
+      .catch(error => console.error('Failed to download image', error));
+  };
+
+  // collectAlbumItems skips ids without a style, so the lookup always succeeds
+  const provenanceOf = (item: AlbumItem) => provenanceFor(results[item.id], styles.find(s => s.id === item.id)!);
+
+  // Text matching the default is stored as no override, so it keeps following the language
+  const handleEditPage = (id: number, patch: AlbumPageText) => {
+    const style = styles.find(s => s.id === id);
+    const defaults = style ? label(style) : null;
+    const cleaned: AlbumPageText = {};
+    if (patch.title !== undefined) cleaned.title = patch.title === defaults?.name ? '' : patch.title;
+    if (patch.caption !== undefined) cleaned.caption = patch.caption === defaults?.caption ? '' : patch.caption;
+    onLayoutChange(editPage(layout, id, cleaned));
   };
 
+  const reorder = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= ids.length) return;
+    onLayoutChange(movePage(layout, ids, from, to));
+  };
+
+  const pageOf = (imageIndex: number) => 1 + Math.floor(imageIndex / perPage);
+
   return (
     <div className="fixed inset-0 z-[60] bg-slate-950 flex flex-col">
       {/* Album Header */}
       <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur-md">
-        <h2 className="text-xl font-serif text-white flex items-center gap-2">
-          <span className="text-indigo-400">✦</span> My Portfolio
+        <h2 className="text-xl font-serif text-white flex items-center gap-2 min-w-0">
+          <span className="text-indigo-400">✦</span>
+          <span className="truncate">{layout.title || defaultTitle}</span>
         </h2>
         <div className="flex items-center gap-3">
-          <button 
-             onClick={downloadAlbum}
-             disabled={isZipping}
-             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          <label className="flex items-center gap-2 px-3 py-2 text-sm text-slate-300 bg-slate-800 rounded-full border border-slate-700" title={t('album.theme')}>
+            <Palette className="w-4 h-4" />
+            <select
+              value={layout.theme}
+              onChange={(e) => onLayoutChange({ ...layout, theme: e.target.value as AlbumTheme })}
+              className="bg-transparent outline-none cursor-pointer"
+              aria-label={t('album.theme')}
+            >
+              {ALBUM_THEMES.map(theme => (
+                <option key={theme} value={theme} className="bg-slate-800">{t(`album.theme.${theme}` as MessageKey)}</option>
+              ))}
+            </select>
+          </label>
+
+          {canCompare && <ComparisonToggle mode={comparisonMode} onChange={setComparisonMode} />}
+
+          {!isCover && <CleanExportToggle branding={branding} clean={cleanDownloads} onChange={setCleanDownloads} compact />}
+
+          <button
+             onClick={() => setIsShareOpen(true)}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-full text-slate-200 text-sm font-medium transition-colors"
+             title={t('share.open')}
+          >
+             <Share2 className="w-4 h-4" />
+             <span className="hidden sm:inline">{t('share.title')}</span>
+          </button>
+
+          <button
+             onClick={() => setIsWebAlbumOpen(true)}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-full text-slate-200 text-sm font-medium transition-colors"
+             title={t('webAlbum.open')}
+          >
+             <Globe className="w-4 h-4" />
+             <span className="hidden sm:inline">HTML</span>
+          </button>
+
+          <button
+             onClick={() => setIsCollageOpen(true)}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-full text-slate-200 text-sm font-medium transition-colors"
+             title={t('collage.openHint')}
+          >
+             <Images className="w-4 h-4" />
+             <span className="hidden sm:inline">{t('collage.open')}</span>
+          </button>
+
+          <button
+             onClick={() => setIsPhotobookOpen(true)}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-full text-slate-200 text-sm font-medium transition-colors"
+             title={t('photobook.open')}
+          >
+             <FileDown className="w-4 h-4" />
+             <span className="hidden sm:inline">PDF</span>
+          </button>
+
+          <button
+             onClick={() => setIsZipOpen(true)}
+             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors"
           >
-             {isZipping ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
-             {isZipping ? 'Zipping...' : 'Download Album'}
+             <Download className="w-4 h-4" />
+             {t('album.download')}
           </button>
 
           <div className="h-6 w-px bg-slate-700 mx-2 hidden md:block"></div>
 
           <span className="text-sm text-slate-500 mr-2 hidden md:inline">
-            {activeIndex + 1} / {images.length}
+            {pageIndex + 1} / {pageCount}
           </span>
           <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
             <X className="w-6 h-6" />
@@ -94,7 +205,7 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ selectedIds, results, onCl
       {/* Main Content Area */}
       <div className="flex-1 overflow-hidden relative flex">
         {/* Left Control */}
-        <button 
+        <button
           onClick={handlePrev}
           className="absolute left-4 top-1/2 -translate-y-1/2 z-10 p-3 bg-black/20 hover:bg-black/50 backdrop-blur-sm rounded-full text-white/70 hover:text-white transition-all"
         >
@@ -102,75 +213,141 @@ export const AlbumView: React.FC<AlbumViewProps> = ({ selectedIds, results, onCl
         </button>
 
         {/* Right Control */}
-        <button 
+        <button
           onClick={handleNext}
           className="absolute right-4 top-1/2 -translate-y-1/2 z-10 p-3 bg-black/20 hover:bg-black/50 backdrop-blur-sm rounded-full text-white/70 hover:text-white transition-all"
         >
           <ChevronRight className="w-8 h-8" />
         </button>
 
-        {/* Magazine Layout */}
-        <div className="w-full h-full flex flex-col md:flex-row items-center justify-center p-4 md:p-12 gap-8 bg-[#0a0f1c]">
-          
-          {/* Image Container */}
-          <div className="relative h-[60vh] md:h-[80vh] aspect-[3/4] shadow-2xl shadow-indigo-900/20 group">
-             <img 
-               src={currentImage.url} 
-               alt={currentImage.name} 
-               className="w-full h-full object-cover rounded-sm"
-             />
-             <div className="absolute inset-0 border-[16px] border-white/5 pointer-events-none"></div>
-             
-             {/* Action Overlay */}
-             <div className="absolute bottom-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-               <a 
-                 href={currentImage.url} 
-                 download={`album-${currentImage.name}.png`}
-                 className="p-2 bg-white/10 hover:bg-white/30 backdrop-blur-md rounded-full text-white"
-                 title="Download single image"
-               >
-                 <Download className="w-5 h-5" />
-               </a>
-             </div>
-          </div>
-
-          {/* Text/Info Panel */}
-          <div className="md:w-80 flex flex-col items-start justify-center text-left space-y-6">
-            <div className="w-12 h-1 bg-indigo-500"></div>
-            <div>
-              <p className="text-indigo-400 text-sm tracking-widest uppercase mb-2 font-medium">
-                {currentImage.category} Collection
-              </p>
-              <h1 className="text-4xl md:text-5xl font-serif text-white leading-tight">
-                {currentImage.name}
-              </h1>
-            </div>
-            <p className="text-slate-400 text-sm leading-relaxed">
-              An artistic generated portrait capturing the essence of the {currentImage.category.toLowerCase()} aesthetic.
-              Created with Gemini Nano Banana.
-            </p>
-            <div className="pt-4 text-xs text-slate-600 font-mono">
-              IMG_GEN_{currentImage.id.toString().padStart(3, '0')}
-            </div>
-          </div>
-
+        <div className="w-full h-full" style={{ backgroundColor: ALBUM_THEME_PALETTES[layout.theme].background }}>
+          {isCover ? (
+            <AlbumCover
+              theme={layout.theme}
+              title={layout.title || defaultTitle}
+              hero={images[0]}
+              count={images.length}
+              onTitleChange={(title) => onLayoutChange({ ...layout, title: title === defaultTitle ? '' : title })}
+            />
+          ) : (
+            <AlbumPage
+              theme={layout.theme}
+              items={spreads[pageIndex - 1]}
+              pageIndex={pageIndex}
+              originalImage={canCompare ? originalImage : null}
+              comparisonMode={comparisonMode}
+              onEdit={handleEditPage}
+              onDownload={downloadItem}
+            />
+          )}
         </div>
       </div>
 
-      {/* Thumbnails Footer */}
-      <div className="h-24 bg-slate-900 border-t border-slate-800 flex items-center gap-2 overflow-x-auto px-4 py-2">
+      {/* Thumbnails Footer: drag to reorder, or Alt+arrow keys on a focused thumbnail */}
+      <div className="h-24 bg-slate-900 border-t border-slate-800 flex items-center gap-2 overflow-x-auto px-4 py-2" title={t('album.reorderHint')}>
+        <button
+          onClick={() => setActiveIndex(0)}
+          className={`flex-shrink-0 h-full aspect-[3/4] rounded border-2 flex flex-col items-center justify-center gap-1 text-[10px] uppercase tracking-wider transition-all ${
+            isCover ? 'border-indigo-500 text-white' : 'border-slate-700 text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          <BookOpen className="w-4 h-4" />
+          {t('album.cover')}
+        </button>
         {images.map((img, idx) => (
           <button
             key={img.id}
-            onClick={() => setActiveIndex(idx)}
-            className={`flex-shrink-0 h-full aspect-[3/4] rounded overflow-hidden border-2 transition-all ${
-              idx === activeIndex ? 'border-indigo-500 opacity-100' : 'border-transparent opacity-40 hover:opacity-70'
-            }`}
+            draggable
+            onClick={() => setActiveIndex(pageOf(idx))}
+            onDragStart={(e) => {
+              setDragIndex(idx);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(idx);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null) reorder(dragIndex, idx);
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onKeyDown={(e) => {
+              if (!e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+              e.preventDefault();
+              reorder(idx, e.key === 'ArrowLeft' ? idx - 1 : idx + 1);
+            }}
+            style={{ aspectRatio: aspectRatioCss(img.aspectRatio) }}
+            aria-label={t('album.pageThumbnail', { index: idx + 1, name: img.name })}
+            className={`flex-shrink-0 h-full rounded overflow-hidden border-2 transition-all cursor-grab active:cursor-grabbing ${
+              dropIndex === idx && dragIndex !== idx
+                ? 'border-amber-400 opacity-100'
+                : pageOf(idx) === pageIndex ? 'border-indigo-500 opacity-100' : 'border-transparent opacity-40 hover:opacity-70'
+            } ${dragIndex === idx ? 'opacity-20' : ''}`}
           >
-            <img src={img.url} alt="" className="w-full h-full object-cover" />
+            <img src={img.url} alt="" className="w-full h-full object-cover pointer-events-none" />
           </button>
         ))}
       </div>
+
+      {isZipOpen && (
+        <ZipExportDialog
+          styles={styles}
+          selectedIds={selectedIds}
+          results={results}
+          sourceImage={originalImage}
+          subject={subject}
+          output={output}
+          album={layout}
+          branding={branding}
+          onClose={() => setIsZipOpen(false)}
+        />
+      )}
+      {isPhotobookOpen && (
+        <PhotobookDialog
+          items={images}
+          theme={layout.theme}
+          albumTitle={layout.title}
+          branding={branding}
+          onClose={() => setIsPhotobookOpen(false)}
+        />
+      )}
+      {isCollageOpen && (
+        <CollageDialog items={images} theme={layout.theme} branding={branding} onClose={() => setIsCollageOpen(false)} />
+      )}
+      {isWebAlbumOpen && (
+        <WebAlbumDialog
+          items={images}
+          theme={layout.theme}
+          albumTitle={layout.title}
+          branding={branding}
+          provenanceOf={provenanceOf}
+          onClose={() => setIsWebAlbumOpen(false)}
+        />
+      )}
+      {isShareOpen && (
+        <ShareDialog
+          items={images}
+          albumTitle={layout.title}
+          branding={branding}
+          provenanceOf={provenanceOf}
+          onOpenWebAlbum={() => {
+            setIsShareOpen(false);
+            setIsWebAlbumOpen(true);
+          }}
+          onOpenZip={() => {
+            setIsShareOpen(false);
+            setIsZipOpen(true);
+          }}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
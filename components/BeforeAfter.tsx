@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { MoveHorizontal } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+// 'off' shows the result alone; pressing and holding it (or Space) peeks at the original
+export type ComparisonMode = 'off' | 'slider' | 'sideBySide';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['off', 'slider', 'sideBySide'];
+
+interface BeforeAfterProps {
+  before: string;
+  after: string;
+  alt: string;
+  mode: ComparisonMode;
+  fit?: 'cover' | 'contain';
+}
+
+const KEYBOARD_STEP = 5;
+
+// Fills its parent; the parent sets the frame size (twice as wide for side by side)
+export const BeforeAfter: React.FC<BeforeAfterProps> = ({ before, after, alt, mode, fit = 'cover' }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState(50);
+  const [isPeeking, setIsPeeking] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const imageClass = `absolute inset-0 w-full h-full ${fit === 'cover' ? 'object-cover' : 'object-contain'}`;
+
+  const moveTo = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const badge = (label: string, side: 'left' | 'right') => (
+    <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-0.5 rounded bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider pointer-events-none`}>
+      {label}
+    </span>
+  );
+
+  if (mode === 'sideBySide') {
+    return (
+      <div className="w-full h-full grid grid-cols-2 gap-1">
+        <div className="relative overflow-hidden">
+          <img src={before} alt={t('compare.original')} className={imageClass} />
+          {badge(t('compare.original'), 'left')}
+        </div>
+        <div className="relative overflow-hidden">
+          <img src={after} alt={alt} className={imageClass} />
+          {badge(t('compare.result'), 'right')}
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'slider') {
+    return (
+      <div
+        ref={frameRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={t('compare.sliderLabel')}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position)}
+        className="relative w-full h-full overflow-hidden cursor-ew-resize select-none touch-none outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveTo(e.clientX);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e.clientX);
+        }}
+        onKeyDown={(e) => {
+          const step = e.shiftKey ? 1 : KEYBOARD_STEP;
+          const next = e.key === 'ArrowLeft' ? position - step
+            : e.key === 'ArrowRight' ? position + step
+            : e.key === 'Home' ? 0
+            : e.key === 'End' ? 100
+            : null;
+          if (next === null) return;
+          // Handled here, so the album does not also treat the arrow as "next image"
+          e.preventDefault();
+          setPosition(Math.min(100, Math.max(0, next)));
+        }}
+      >
+        <img src={after} alt={alt} className={imageClass} draggable={false} />
+        <img
+          src={before}
+          alt={t('compare.original')}
+          className={imageClass}
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          draggable={false}
+        />
+        {badge(t('compare.original'), 'left')}
+        {badge(t('compare.result'), 'right')}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_8px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position}%` }}>
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white text-slate-900 flex items-center justify-center shadow-lg">
+            <MoveHorizontal className="w-5 h-5" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      tabIndex={0}
+      className="relative w-full h-full overflow-hidden select-none outline-none"
+      title={t('compare.peekHint')}
+      onPointerDown={() => setIsPeeking(true)}
+      onPointerUp={() => setIsPeeking(false)}
+      onPointerLeave={() => setIsPeeking(false)}
+      onPointerCancel={() => setIsPeeking(false)}
+      onKeyDown={(e) => {
+        if (e.key !== ' ') return;
+        e.preventDefault();
+        setIsPeeking(true);
+      }}
+      onKeyUp={(e) => {
+        if (e.key === ' ') setIsPeeking(false);
+      }}
+      onBlur={() => setIsPeeking(false)}
+    >
+      <img src={isPeeking ? before : after} alt={isPeeking ? t('compare.original') : alt} className={imageClass} draggable={false} />
+      {isPeeking && badge(t('compare.original'), 'left')}
+    </div>
+  );
+};
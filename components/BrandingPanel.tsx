@@ -0,0 +1,225 @@
+import React, { useEffect, useRef } from 'react';
+import { X, Stamp, Upload, Trash2 } from 'lucide-react';
+import {
+  BRANDING_LIMITS, BRANDING_POSITIONS, BrandingMode, BrandingSettings,
+  drawBranding, loadBrandingLogo, prepareLogo
+} from '../services/branding';
+import { drawImageCover, loadImage } from '../services/imageUtils';
+import { MessageKey, useI18n } from '../i18n';
+
+interface BrandingPanelProps {
+  settings: BrandingSettings;
+  previewImage: string | null; // A result or the uploaded photo to preview the mark on
+  onChange: (settings: BrandingSettings) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 360;
+
+export const BrandingPanel: React.FC<BrandingPanelProps> = ({ settings, previewImage, onChange, onClose }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<BrandingSettings>) => onChange({ ...settings, ...patch });
+
+  // Same drawing code as the exports, at preview size
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([previewImage ? loadImage(previewImage) : Promise.resolve(null), loadBrandingLogo(settings)])
+      .then(([img, logo]) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas is not available');
+        if (img) {
+          drawImageCover(ctx, img, 0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+        } else {
+          const gradient = ctx.createLinearGradient(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+          gradient.addColorStop(0, '#334155');
+          gradient.addColorStop(1, '#0f172a');
+          ctx.fillStyle = gradient;
+          ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+        }
+        drawBranding(ctx, PREVIEW_WIDTH, PREVIEW_HEIGHT, settings, logo);
+      })
+      .catch(error => console.error('Failed to draw branding preview', error));
+    return () => { cancelled = true; };
+  }, [settings, previewImage]);
+
+  const handleLogo = async (file: File) => {
+    try {
+      update({ mode: 'logo', logo: await prepareLogo(file) });
+    } catch (error) {
+      console.error('Failed to read logo', error);
+      alert(t('branding.logoFailed'));
+    }
+  };
+
+  const controlsDisabled = !settings.enabled;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Stamp className="w-5 h-5 text-indigo-400" /> {t('branding.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-5">
+          <label className="flex items-start gap-2 text-sm text-slate-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="mt-0.5 accent-indigo-500"
+            />
+            <span>
+              {t('branding.enabled')}
+              <span className="block text-xs text-slate-500">{t('branding.hint')}</span>
+            </span>
+          </label>
+
+          <canvas
+            ref={canvasRef}
+            width={PREVIEW_WIDTH}
+            height={PREVIEW_HEIGHT}
+            className="w-full rounded-lg bg-slate-950"
+            style={{ aspectRatio: `${PREVIEW_WIDTH} / ${PREVIEW_HEIGHT}` }}
+            aria-label={t('branding.preview')}
+          />
+
+          <fieldset disabled={controlsDisabled} className={`space-y-5 ${controlsDisabled ? 'opacity-50' : ''}`}>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('branding.mode')}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {(['text', 'logo'] as BrandingMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => update({ mode })}
+                    aria-pressed={settings.mode === mode}
+                    className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                      settings.mode === mode
+                        ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                        : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-600'
+                    }`}
+                  >
+                    {t(`branding.mode.${mode}` as MessageKey)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {settings.mode === 'text' ? (
+              <input
+                value={settings.text}
+                onChange={(e) => update({ text: e.target.value })}
+                placeholder={t('branding.textPlaceholder')}
+                maxLength={80}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                {settings.logo && (
+                  <img src={settings.logo} alt="" className="h-12 max-w-[8rem] object-contain rounded bg-slate-800 p-1" />
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-200 transition-colors"
+                >
+                  <Upload className="w-4 h-4" />
+                  {settings.logo ? t('branding.replaceLogo') : t('branding.uploadLogo')}
+                </button>
+                {settings.logo && (
+                  <button
+                    onClick={() => update({ logo: null })}
+                    className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-red-400"
+                    title={t('branding.removeLogo')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp,image/svg+xml"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleLogo(file);
+                  }}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('branding.position')}</span>
+              <div className="grid grid-cols-5 gap-2">
+                {BRANDING_POSITIONS.map(position => (
+                  <button
+                    key={position}
+                    onClick={() => update({ position })}
+                    disabled={settings.tiled}
+                    aria-pressed={settings.position === position}
+                    className={`px-2 py-2 rounded-lg border text-xs transition-colors disabled:opacity-40 ${
+                      settings.position === position
+                        ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                        : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-600'
+                    }`}
+                  >
+                    {t(`branding.position.${position}` as MessageKey)}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 pt-1 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.tiled}
+                  onChange={(e) => update({ tiled: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                {t('branding.tiled')}
+              </label>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <label className="block space-y-1.5">
+                <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+                  {t('branding.opacity', { percent: Math.round(settings.opacity * 100) })}
+                </span>
+                <input
+                  type="range"
+                  {...BRANDING_LIMITS.opacity}
+                  value={settings.opacity}
+                  onChange={(e) => update({ opacity: Number(e.target.value) })}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+              <label className="block space-y-1.5">
+                <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+                  {t('branding.scale', { percent: Math.round(settings.scale * 100) })}
+                </span>
+                <input
+                  type="range"
+                  {...BRANDING_LIMITS.scale}
+                  value={settings.scale}
+                  onChange={(e) => update({ scale: Number(e.target.value) })}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+            </div>
+          </fieldset>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { BrandingSettings, isBrandingActive } from '../services/branding';
+import { useI18n } from '../i18n';
+
+interface CleanExportToggleProps {
+  branding: BrandingSettings;
+  clean: boolean;
+  onChange: (clean: boolean) => void;
+  compact?: boolean; // Pill for toolbars, e.g. next to single-image downloads; the hint moves to the tooltip
+}
+
+// Lets one export skip the watermark; only shown while branding is on, and switching it on needs a confirmation
+export const CleanExportToggle: React.FC<CleanExportToggleProps> = ({ branding, clean, onChange, compact = false }) => {
+  const { t } = useI18n();
+  if (!isBrandingActive(branding)) return null;
+
+  const checkbox = (
+    <input
+      type="checkbox"
+      checked={clean}
+      onChange={(e) => {
+        if (e.target.checked && !confirm(t('branding.confirmClean'))) return;
+        onChange(e.target.checked);
+      }}
+      className={`${compact ? '' : 'mt-0.5 '}accent-indigo-500`}
+    />
+  );
+
+  if (compact) {
+    return (
+      <label
+        className="flex items-center gap-2 px-3 py-2 text-sm text-slate-300 bg-slate-800 rounded-full border border-slate-700 cursor-pointer"
+        title={clean ? t('branding.cleanExportOn') : t('branding.cleanExportOff')}
+      >
+        {checkbox}
+        <span className="hidden sm:inline">{t('branding.cleanExport')}</span>
+      </label>
+    );
+  }
+
+  return (
+    <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+      {checkbox}
+      <span>
+        {t('branding.cleanExport')}
+        <span className="block text-xs text-slate-500">
+          {clean ? t('branding.cleanExportOn') : t('branding.cleanExportOff')}
+        </span>
+      </span>
+    </label>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Loader, Images, LayoutGrid, Grid3x3, Film } from 'lucide-react';
+import { AlbumItem, AlbumTheme } from '../types';
+import {
+  COLLAGE_LAYOUTS, COLLAGE_SIZES, CollageLayout, CollageOptions, CollageSize,
+  DEFAULT_COLLAGE_OPTIONS, SOCIAL_GRID_CELLS, drawCollage
+} from '../services/collage';
+import { loadImage } from '../services/imageUtils';
+import { ALBUM_THEME_PALETTES } from '../services/album';
+import { downloadBlob } from '../services/download';
+import { embedProvenance } from '../services/provenance';
+import { BrandingSettings, drawBranding, loadBrandingLogo } from '../services/branding';
+import { MessageKey, useI18n } from '../i18n';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface CollageDialogProps {
+  items: AlbumItem[]; // In album order
+  theme: AlbumTheme; // Picks the starting background
+  branding: BrandingSettings;
+  onClose: () => void;
+}
+
+const LAYOUT_ICONS: Record<CollageLayout, React.ElementType> = {
+  grid: LayoutGrid,
+  social: Grid3x3,
+  filmstrip: Film,
+};
+
+const BACKGROUND_PRESETS = ['#0f172a', '#000000', '#ffffff', '#f5f0e8'];
+
+export const CollageDialog: React.FC<CollageDialogProps> = ({ items: initialItems, theme, branding, onClose }) => {
+  const { t } = useI18n();
+  // Snapshot at open: parents rebuild the list on every render, which would re-decode every image
+  const [items] = useState(initialItems);
+  const [options, setOptions] = useState<CollageOptions>(() => ({
+    ...DEFAULT_COLLAGE_OPTIONS,
+    background: ALBUM_THEME_PALETTES[theme].background
+  }));
+  const [images, setImages] = useState<HTMLImageElement[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [clean, setClean] = useState(false);
+  const [logo, setLogo] = useState<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Decode every image once; option changes only redraw
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(items.map(item => loadImage(item.url)))
+      .then(loaded => { if (!cancelled) setImages(loaded); })
+      .catch(error => {
+        console.error('Failed to load collage images', error);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [items]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBrandingLogo(branding)
+      .then(loaded => { if (!cancelled) setLogo(loaded); })
+      .catch(error => console.error('Failed to load branding logo', error));
+    return () => { cancelled = true; };
+  }, [branding]);
+
+  const usedItems = options.layout === 'social' ? items.slice(0, SOCIAL_GRID_CELLS) : items;
+
+  // The watermark goes over the finished collage, so the preview shows exactly what gets saved
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !images) return;
+    drawCollage(canvas, usedItems, images, options);
+    if (clean) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    drawBranding(ctx, canvas.width, canvas.height, branding, logo);
+  }, [images, options, usedItems.length, branding, logo, clean]);
+
+  const update = (patch: Partial<CollageOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleDownload = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setIsSaving(true);
+    canvas.toBlob(async blob => {
+      try {
+        if (!blob) throw new Error('Canvas could not be encoded');
+        // The collage is made of generated portraits, so it carries the same disclosure
+        const bytes = embedProvenance(new Uint8Array(await blob.arrayBuffer()), {
+          model: null,
+          style: usedItems.map(item => item.name).join(', '),
+          prompt: null,
+          createdAt: new Date().toISOString()
+        });
+        downloadBlob(new Blob([bytes as BlobPart], { type: 'image/png' }), `AI_Photo_Studio_${options.layout}.png`);
+      } catch (error) {
+        console.error('Failed to save collage', error);
+        alert(t('collage.failed'));
+      } finally {
+        setIsSaving(false);
+      }
+    }, 'image/png');
+  };
+
+  const { width, height } = COLLAGE_SIZES[options.size];
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-full flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Images className="w-5 h-5 text-indigo-400" /> {t('collage.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto grid md:grid-cols-[1fr_18rem]">
+          <div className="flex items-center justify-center p-4 bg-slate-950 min-h-[16rem]">
+            {loadFailed ? (
+              <p className="text-sm text-red-400">{t('collage.failed')}</p>
+            ) : !images ? (
+              <Loader className="w-6 h-6 text-slate-500 animate-spin" />
+            ) : (
+              <canvas
+                ref={canvasRef}
+                className="max-w-full max-h-[65vh] w-auto h-auto shadow-lg"
+                style={{ aspectRatio: `${width} / ${height}` }}
+              />
+            )}
+          </div>
+
+          <div className="p-4 space-y-5 border-t md:border-t-0 md:border-l border-slate-800">
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('collage.layout')}</span>
+              <div className="grid grid-cols-3 gap-2">
+                {COLLAGE_LAYOUTS.map(layout => {
+                  const Icon = LAYOUT_ICONS[layout];
+                  return (
+                    <button
+                      key={layout}
+                      onClick={() => update({ layout })}
+                      aria-pressed={options.layout === layout}
+                      className={`flex flex-col items-center gap-1 px-2 py-2 rounded-lg border text-xs transition-colors ${
+                        options.layout === layout
+                          ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                          : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-600'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {t(`collage.layout.${layout}` as MessageKey)}
+                    </button>
+                  );
+                })}
+              </div>
+              {options.layout === 'social' && items.length > SOCIAL_GRID_CELLS && (
+                <p className="text-xs text-amber-300/90">{t('collage.socialLimit', { max: SOCIAL_GRID_CELLS, count: items.length })}</p>
+              )}
+            </div>
+
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('collage.size')}</span>
+              <select
+                value={options.size}
+                onChange={(e) => update({ size: e.target.value as CollageSize })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none"
+              >
+                {(Object.keys(COLLAGE_SIZES) as CollageSize[]).map(size => (
+                  <option key={size} value={size}>
+                    {t(`collage.size.${size}` as MessageKey)} · {COLLAGE_SIZES[size].width}×{COLLAGE_SIZES[size].height}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+                {t('collage.spacing', { px: options.spacing })}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={64}
+                step={2}
+                value={options.spacing}
+                onChange={(e) => update({ spacing: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('collage.background')}</span>
+              <div className="flex items-center gap-2">
+                {BACKGROUND_PRESETS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => update({ background: color })}
+                    aria-pressed={options.background === color}
+                    style={{ backgroundColor: color }}
+                    className={`w-7 h-7 rounded-full border-2 ${
+                      options.background === color ? 'border-indigo-400' : 'border-slate-600'
+                    }`}
+                    title={color}
+                  />
+                ))}
+                <input
+                  type="color"
+                  value={options.background}
+                  onChange={(e) => update({ background: e.target.value })}
+                  className="w-9 h-7 bg-transparent cursor-pointer"
+                  aria-label={t('collage.customBackground')}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.captions}
+                onChange={(e) => update({ captions: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              {t('collage.captions')}
+            </label>
+
+            <CleanExportToggle branding={branding} clean={clean} onChange={setClean} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-800">
+          <span className="text-xs text-slate-500">{t('collage.imageCount', { count: usedItems.length })}</span>
+          <button
+            onClick={handleDownload}
+            disabled={!images || isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            {isSaving ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {t('collage.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Image, SplitSquareHorizontal, Columns2 } from 'lucide-react';
+import { COMPARISON_MODES, ComparisonMode } from './BeforeAfter';
+import { MessageKey, useI18n } from '../i18n';
+
+interface ComparisonToggleProps {
+  mode: ComparisonMode;
+  onChange: (mode: ComparisonMode) => void;
+}
+
+const MODE_ICONS: Record<ComparisonMode, React.ElementType> = {
+  off: Image,
+  slider: SplitSquareHorizontal,
+  sideBySide: Columns2,
+};
+
+export const ComparisonToggle: React.FC<ComparisonToggleProps> = ({ mode, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center bg-slate-800 border border-slate-700 rounded-full p-0.5" title={t('compare.shortcutHint')}>
+      {COMPARISON_MODES.map(option => {
+        const Icon = MODE_ICONS[option];
+        return (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            aria-pressed={mode === option}
+            className={`p-1.5 rounded-full transition-colors ${
+              mode === option ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+            title={t(`compare.mode.${option}` as MessageKey)}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
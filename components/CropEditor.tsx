@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import { X, RotateCcw, RotateCw, ZoomIn, Check, Undo2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+import {
+  CROP_ASPECT_PRESETS,
+  CropSettings,
+  DEFAULT_CROP,
+  clampOffsets,
+  frameAspect,
+  imageScale
+} from '../services/imageCrop';
+
+interface CropEditorProps {
+  src: string; // Always the uncropped original
+  initialCrop?: CropSettings;
+  onApply: (crop: CropSettings) => void;
+  onCancel: () => void;
+}
+
+// Longest side of the on-screen crop frame
+const VIEWPORT_SIZE = 400;
+const MAX_ZOOM = 5;
+
+export const CropEditor: React.FC<CropEditorProps> = ({ src, initialCrop = DEFAULT_CROP, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const [crop, setCrop] = useState<CropSettings>(initialCrop);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  // Split rotation into quarter turns and a fine-tune angle for the two controls
+  const quarterTurns = Math.round(crop.rotation / 90) * 90;
+  const fineRotation = crop.rotation - quarterTurns;
+
+  const update = (patch: Partial<CropSettings>) => {
+    setCrop(prev => {
+      const next = { ...prev, ...patch };
+      return natural ? clampOffsets(next, natural.width, natural.height) : next;
+    });
+  };
+
+  const aspect = natural ? frameAspect(crop, natural.width, natural.height) : (crop.aspect || 3 / 4);
+  const frameWidth = aspect >= 1 ? VIEWPORT_SIZE : VIEWPORT_SIZE * aspect;
+  const frameHeight = aspect >= 1 ? VIEWPORT_SIZE / aspect : VIEWPORT_SIZE;
+  const scale = natural ? imageScale(crop, natural.width, natural.height, frameWidth, frameHeight) : 1;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY, offsetX: crop.offsetX, offsetY: crop.offsetY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    update({
+      offsetX: dragStart.current.offsetX + (e.clientX - dragStart.current.x) / frameWidth,
+      offsetY: dragStart.current.offsetY + (e.clientY - dragStart.current.y) / frameHeight,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    update({ zoom: Math.min(MAX_ZOOM, Math.max(1, crop.zoom * (1 - e.deltaY * 0.001))) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col md:flex-row overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Crop Viewport */}
+        <div className="flex-1 flex items-center justify-center p-6 bg-slate-950 min-h-[460px]">
+          <div
+            className="relative overflow-hidden bg-slate-800 cursor-move touch-none select-none shadow-2xl"
+            style={{ width: frameWidth, height: frameHeight }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onWheel={handleWheel}
+          >
+            <img
+              src={src}
+              alt=""
+              draggable={false}
+              onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="absolute left-1/2 top-1/2 pointer-events-none"
+              style={{
+                maxWidth: 'none',
+                width: natural?.width,
+                height: natural?.height,
+                transform: `translate(-50%, -50%) translate(${crop.offsetX * frameWidth}px, ${crop.offsetY * frameHeight}px) rotate(${crop.rotation}deg) scale(${scale})`,
+                visibility: natural ? 'visible' : 'hidden',
+              }}
+            />
+
+            {/* Face Guide: thirds grid plus an oval where the face should sit */}
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+              <g stroke="rgba(255,255,255,0.25)" strokeWidth="0.3" vectorEffect="non-scaling-stroke">
+                <line x1="33.33" y1="0" x2="33.33" y2="100" />
+                <line x1="66.67" y1="0" x2="66.67" y2="100" />
+                <line x1="0" y1="33.33" x2="100" y2="33.33" />
+                <line x1="0" y1="66.67" x2="100" y2="66.67" />
+              </g>
+            </svg>
+            <div
+              className="absolute left-1/2 -translate-x-1/2 -translate-y-1/2 border-2 border-dashed border-indigo-300/80 rounded-[50%] pointer-events-none"
+              style={{ top: '40%', width: Math.min(frameWidth, frameHeight) * 0.42, height: Math.min(frameWidth, frameHeight) * 0.55 }}
+            />
+            <span className="absolute left-1/2 -translate-x-1/2 text-[10px] text-indigo-200 bg-black/40 px-2 py-0.5 rounded pointer-events-none" style={{ top: '8%' }}>
+              {t('crop.faceGuide')}
+            </span>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="md:w-64 p-5 space-y-5 border-t md:border-t-0 md:border-l border-slate-800">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-white">{t('crop.title')}</h3>
+            <button onClick={onCancel} className="p-1.5 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-400 mb-2">{t('crop.aspect')}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {CROP_ASPECT_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => update({ aspect: preset.value })}
+                  className={`px-2 py-1 rounded text-xs border transition-colors ${
+                    crop.aspect === preset.value
+                      ? 'bg-indigo-500/20 border-indigo-500 text-indigo-300'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+                  }`}
+                >
+                  {preset.value === null ? t('crop.original') : preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-xs text-slate-400 flex items-center gap-1 mb-2"><ZoomIn className="w-3 h-3" /> {t('crop.zoom')}</span>
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={crop.zoom}
+              onChange={(e) => update({ zoom: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+
+          <div>
+            <p className="text-xs text-slate-400 mb-2">{t('crop.rotation', { degrees: Math.round(crop.rotation) })}</p>
+            <div className="flex items-center gap-2">
+              <button onClick={() => update({ rotation: crop.rotation - 90 })} className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300" title={t('crop.rotateLeft')}>
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <input
+                type="range"
+                min={-45}
+                max={45}
+                step={0.5}
+                value={fineRotation}
+                onChange={(e) => update({ rotation: quarterTurns + Number(e.target.value) })}
+                className="flex-1 accent-indigo-500"
+              />
+              <button onClick={() => update({ rotation: crop.rotation + 90 })} className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300" title={t('crop.rotateRight')}>
+                <RotateCw className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <p className="text-[11px] text-slate-500">{t('crop.hint')}</p>
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={() => setCrop(DEFAULT_CROP)}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800"
+            >
+              <Undo2 className="w-4 h-4" /> {t('crop.reset')}
+            </button>
+            <button
+              onClick={() => onApply(crop)}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white"
+            >
+              <Check className="w-4 h-4" /> {t('crop.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
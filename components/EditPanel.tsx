@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { X, PenLine, Send, Loader2, AlertCircle, RotateCcw } from 'lucide-react';
+import { GeneratedImage, PhotoStyle } from '../types';
+import { aspectRatioCss, isLandscape } from '../services/imageUtils';
+import { MessageKey, useI18n } from '../i18n';
+
+interface EditPanelProps {
+  style: PhotoStyle;
+  result: GeneratedImage;
+  onSubmit: (instruction: string) => void;
+  onRestore: (entryId: string) => void;
+  onClose: () => void;
+}
+
+// Conversational editing: each instruction is applied to the current image and produces a new version
+export const EditPanel: React.FC<EditPanelProps> = ({ style, result, onSubmit, onRestore, onClose }) => {
+  const { t, styleName } = useI18n();
+  const [draft, setDraft] = useState('');
+  // The tile clears its image while a new version is on the way; keep showing the one being edited
+  const [shownImage, setShownImage] = useState(result.imageUrl);
+  const [pendingInstruction, setPendingInstruction] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (result.imageUrl) setShownImage(result.imageUrl);
+  }, [result.imageUrl]);
+
+  const isBusy = result.status === 'pending' || result.status === 'generating';
+  const isFailed = result.status === 'failed';
+  const shownEntry = shownImage ? result.history?.find(entry => entry.imageUrl === shownImage) : undefined;
+  const instructions = shownEntry?.edit?.instructions || [];
+  // A failed edit is the newest history entry and remembers which version it started from
+  const latest = result.history?.[result.history.length - 1];
+  const failedParentId = isFailed ? latest?.edit?.parentId : undefined;
+  const aspect = result.aspectRatio || shownEntry?.output.aspectRatio || '3:4';
+
+  const submit = () => {
+    const instruction = draft.trim();
+    if (!instruction || isBusy || !result.imageUrl) return;
+    onSubmit(instruction);
+    setPendingInstruction(instruction);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <PenLine className="w-5 h-5 text-amber-400" />
+            {t('edit.title', { name: styleName(style) })}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4 p-4 overflow-y-auto">
+          <div className="flex-1 min-h-0 flex items-center justify-center">
+            <div
+              className={`relative bg-slate-950 rounded-lg overflow-hidden max-h-[60vh] ${isLandscape(aspect) ? 'w-full' : 'h-[60vh]'}`}
+              style={{ aspectRatio: aspectRatioCss(aspect) }}
+            >
+              {shownImage && <img src={shownImage} alt={styleName(style)} className="w-full h-full object-cover" />}
+              {isBusy && (
+                <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center text-indigo-300">
+                  <Loader2 className="w-8 h-8 animate-spin mb-2" />
+                  <span className="text-sm">{result.status === 'pending' ? t('grid.queued') : t('edit.applying')}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="md:w-80 flex flex-col gap-3">
+            <div className="flex-1 space-y-2">
+              <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('edit.chain')}</p>
+              {instructions.length === 0 && !isBusy ? (
+                <p className="text-sm text-slate-500">{t('edit.chainEmpty')}</p>
+              ) : (
+                <ol className="space-y-1.5">
+                  {instructions.map((instruction, index) => (
+                    <li key={index} className="text-sm text-slate-300 bg-slate-800 rounded-lg px-3 py-2">
+                      <span className="text-slate-500 mr-2">{index + 1}.</span>{instruction}
+                    </li>
+                  ))}
+                  {isBusy && pendingInstruction && (
+                    <li className="text-sm text-slate-400 bg-slate-800/50 border border-dashed border-slate-700 rounded-lg px-3 py-2 flex items-center gap-2">
+                      <Loader2 className="w-3.5 h-3.5 animate-spin flex-shrink-0" />
+                      {pendingInstruction}
+                    </li>
+                  )}
+                </ol>
+              )}
+            </div>
+
+            {isFailed && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-300 space-y-2">
+                <p className="flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  {t(`errors.${result.errorKind || 'unknown'}` as MessageKey)}
+                </p>
+                {failedParentId && (
+                  <button
+                    onClick={() => onRestore(failedParentId)}
+                    className="flex items-center gap-1.5 text-xs text-slate-200 hover:text-white"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> {t('edit.restorePrevious')}
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submit();
+                  }
+                }}
+                rows={3}
+                disabled={isBusy || !result.imageUrl}
+                placeholder={t('edit.placeholder')}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-amber-500 outline-none resize-none disabled:opacity-50 placeholder:text-slate-500"
+              />
+              <button
+                onClick={submit}
+                disabled={!draft.trim() || isBusy || !result.imageUrl}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-amber-500 hover:bg-amber-400 text-black font-bold text-sm transition-colors disabled:opacity-40 disabled:hover:bg-amber-500"
+              >
+                <Send className="w-4 h-4" /> {t('edit.send')}
+              </button>
+              <p className="text-[11px] text-slate-600">{t('edit.hint')}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  label: string;
+  onCommit: (value: string) => void; // Called on blur or Enter; an empty string resets to the default
+  multiline?: boolean;
+  className?: string;
+}
+
+// Text that reads like a heading or caption but can be edited in place
+export const EditableText: React.FC<EditableTextProps> = ({ value, label, onCommit, multiline, className = '' }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft.trim() !== value) onCommit(draft.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') setDraft(value);
+    else if (e.key === 'Enter' && (!multiline || !e.shiftKey)) {
+      e.preventDefault();
+      e.currentTarget.blur();
+    }
+  };
+
+  const shared = {
+    value: draft,
+    title: label,
+    'aria-label': label,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value),
+    onBlur: commit,
+    onKeyDown: handleKeyDown,
+    className: `w-full bg-transparent border border-transparent hover:border-slate-400/30 focus:border-indigo-500/60 rounded px-1 -mx-1 outline-none resize-none transition-colors ${className}`
+  };
+
+  return multiline ? <textarea rows={3} {...shared} /> : <input {...shared} />;
+};
@@ -1,7 +1,18 @@
 import React from 'react';
-import { Camera, Sparkles } from 'lucide-react';
+import { Camera, Sparkles, FolderOpen, Languages, Gauge, ShieldCheck, Stamp } from 'lucide-react';
+import { LOCALES, Locale, useI18n } from '../i18n';
+
+interface HeaderProps {
+  onOpenSessions: () => void;
+  onOpenQueueSettings: () => void;
+  onOpenVerifier: () => void;
+  onOpenBranding: () => void;
+  isBrandingOn: boolean;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onOpenSessions, onOpenQueueSettings, onOpenVerifier, onOpenBranding, isBrandingOn }) => {
+  const { t, locale, setLocale } = useI18n();
 
-export const Header: React.FC = () => {
   return (
     <header className="w-full py-6 px-4 border-b border-slate-800 bg-slate-950/50 backdrop-blur-md sticky top-0 z-50">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -11,16 +22,64 @@ export const Header: React.FC = () => {
           </div>
           <div>
             <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-slate-400">
-              AI Photo Studio
+              {t('header.title')}
             </h1>
-            <p className="text-xs text-slate-400">Nano Banana Edition</p>
+            <p className="text-xs text-slate-400">{t('header.subtitle')}</p>
           </div>
         </div>
-        <div className="flex items-center gap-2 text-sm text-amber-400 bg-amber-400/10 px-3 py-1 rounded-full border border-amber-400/20">
-          <Sparkles className="w-4 h-4" />
-          <span className="font-medium">100+ Premium Styles</span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 rounded-lg border border-slate-700" title={t('header.language')}>
+            <Languages className="w-4 h-4" />
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="bg-transparent outline-none cursor-pointer"
+              aria-label={t('header.language')}
+            >
+              {LOCALES.map(l => (
+                <option key={l.id} value={l.id} className="bg-slate-800">{l.label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onOpenQueueSettings}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 transition-colors"
+            title={t('header.queueSettings')}
+          >
+            <Gauge className="w-4 h-4" />
+            <span className="hidden sm:inline">{t('header.queueSettings')}</span>
+          </button>
+          <button
+            onClick={onOpenBranding}
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 rounded-lg border transition-colors ${
+              isBrandingOn ? 'text-indigo-300 border-indigo-500/50' : 'text-slate-300 border-slate-700'
+            }`}
+            title={isBrandingOn ? t('header.brandingOn') : t('branding.title')}
+          >
+            <Stamp className="w-4 h-4" />
+            <span className="hidden sm:inline">{t('header.branding')}</span>
+          </button>
+          <button
+            onClick={onOpenVerifier}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 transition-colors"
+            title={t('verifier.title')}
+          >
+            <ShieldCheck className="w-4 h-4" />
+            <span className="hidden sm:inline">{t('header.verify')}</span>
+          </button>
+          <button
+            onClick={onOpenSessions}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 transition-colors"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span className="hidden sm:inline">{t('header.sessions')}</span>
+          </button>
+          <div className="hidden sm:flex items-center gap-2 text-sm text-amber-400 bg-amber-400/10 px-3 py-1 rounded-full border border-amber-400/20">
+            <Sparkles className="w-4 h-4" />
+            <span className="font-medium">{t('header.badge')}</span>
+          </div>
         </div>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, RotateCcw, AlertCircle } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { aspectRatioCss } from '../services/imageUtils';
+import { useI18n } from '../i18n';
+
+interface HistoryCompareProps {
+  styleLabel: string;
+  entries: [HistoryEntry, HistoryEntry];
+  isBusy: boolean;
+  onRestore: (entryId: string) => void;
+  onClose: () => void;
+}
+
+// Two attempts at the same style side by side
+export const HistoryCompare: React.FC<HistoryCompareProps> = ({ styleLabel, entries, isBusy, onRestore, onClose }) => {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-950 flex flex-col" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h2 className="text-lg font-bold text-white">{t('history.compareTitle', { name: styleLabel })}</h2>
+        <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-2 gap-4 p-4">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex flex-col min-h-0 gap-3">
+            <div className="flex-1 min-h-0 flex items-center justify-center">
+              <div
+                className="max-w-full max-h-full h-full bg-slate-900 rounded overflow-hidden flex items-center justify-center"
+                style={{ aspectRatio: aspectRatioCss(entry.output.aspectRatio) }}
+              >
+                {entry.imageUrl ? (
+                  <img src={entry.imageUrl} alt={styleLabel} className="w-full h-full object-contain" />
+                ) : (
+                  <div className="text-center p-4">
+                    <AlertCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
+                    <p className="text-sm text-red-300">{entry.error}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-slate-200">{formatDate(entry.createdAt)}</p>
+                <p className="text-xs text-slate-500 font-mono truncate">
+                  {[entry.model, entry.output.aspectRatio, entry.output.imageSize].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              {entry.imageUrl && (
+                <button
+                  onClick={() => {
+                    onRestore(entry.id);
+                    onClose();
+                  }}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium disabled:opacity-40 flex-shrink-0"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> {t('history.useThis')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, History, RotateCcw, RefreshCw, Columns2, AlertCircle, Check } from 'lucide-react';
+import { GeneratedImage, HistoryEntry, PhotoStyle } from '../types';
+import { aspectRatioCss } from '../services/imageUtils';
+import { findEditBase, isCurrentEntry } from '../services/history';
+import { MessageKey, useI18n } from '../i18n';
+import { HistoryCompare } from './HistoryCompare';
+
+interface HistoryDrawerProps {
+  style: PhotoStyle;
+  result: GeneratedImage;
+  onRestore: (entryId: string) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ style, result, onRestore, onRerun, onClose }) => {
+  const { t, styleName, formatDate } = useI18n();
+  // Up to two entries picked for the side-by-side view; picking a third drops the oldest pick
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const history = [...(result.history || [])].reverse();
+  const isBusy = result.status === 'pending' || result.status === 'generating';
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const compareEntries = compareIds
+    .map(id => history.find(entry => entry.id === id))
+    .filter((entry): entry is HistoryEntry => !!entry);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full flex flex-col bg-slate-900 border-l border-slate-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2 min-w-0">
+            <History className="w-5 h-5 text-indigo-400 flex-shrink-0" />
+            <span className="truncate">{t('history.title', { name: styleName(style) })}</span>
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-slate-800">
+          <p className="text-xs text-slate-500">{t('history.compareHint')}</p>
+          <button
+            onClick={() => setIsComparing(true)}
+            disabled={compareEntries.length !== 2}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium disabled:opacity-40 disabled:hover:bg-indigo-600 flex-shrink-0"
+          >
+            <Columns2 className="w-3.5 h-3.5" /> {t('history.compare')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {history.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">{t('history.empty')}</p>
+          ) : history.map(entry => {
+            const isCurrent = isCurrentEntry(result, entry);
+            const isPicked = compareIds.includes(entry.id);
+            // Replaying an edit needs the image it was applied to
+            const canRerun = !!entry.prompt && (!entry.edit || !!findEditBase(result, entry));
+            return (
+              <div
+                key={entry.id}
+                className={`flex gap-3 p-3 rounded-xl border ${
+                  isCurrent ? 'border-indigo-500/50 bg-indigo-500/10' : 'border-slate-800 bg-slate-800/40'
+                }`}
+              >
+                <button
+                  onClick={() => toggleCompare(entry.id)}
+                  style={{ aspectRatio: aspectRatioCss(entry.output.aspectRatio) }}
+                  className={`relative w-20 flex-shrink-0 rounded overflow-hidden bg-slate-950 border-2 ${
+                    isPicked ? 'border-indigo-400' : 'border-transparent'
+                  }`}
+                  title={t('history.pickToCompare')}
+                >
+                  {entry.imageUrl ? (
+                    <img src={entry.imageUrl} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <AlertCircle className="w-5 h-5 text-red-400 mx-auto" />
+                  )}
+                  {isPicked && (
+                    <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-indigo-500 text-white flex items-center justify-center">
+                      <Check className="w-3 h-3" />
+                    </span>
+                  )}
+                </button>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-slate-200">{formatDate(entry.createdAt)}</span>
+                    {isCurrent && (
+                      <span className="text-[10px] uppercase tracking-wider text-indigo-300">{t('history.current')}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 font-mono truncate">
+                    {[entry.model, entry.output.aspectRatio, entry.output.imageSize].filter(Boolean).join(' · ')}
+                  </p>
+                  {entry.edit && (
+                    <p className="text-xs text-amber-300/90 line-clamp-2" title={entry.edit.instructions.join(' → ')}>
+                      {t('history.edited', { instructions: entry.edit.instructions.join(' → ') })}
+                    </p>
+                  )}
+                  {entry.error && (
+                    <p className="text-xs text-red-400 line-clamp-2" title={entry.error}>
+                      {t(`errors.${entry.errorKind || 'unknown'}` as MessageKey)}: {entry.error}
+                    </p>
+                  )}
+                  {entry.prompt && (
+                    <details className="text-xs text-slate-500">
+                      <summary className="cursor-pointer hover:text-slate-300">{t('history.prompt')}</summary>
+                      <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap font-mono text-[10px] text-slate-400 bg-slate-950 rounded p-2">{entry.prompt}</pre>
+                    </details>
+                  )}
+                  <div className="flex items-center gap-2 pt-1">
+                    {entry.imageUrl && !isCurrent && (
+                      <button
+                        onClick={() => onRestore(entry.id)}
+                        disabled={isBusy}
+                        className="flex items-center gap-1 text-xs text-slate-300 hover:text-white disabled:opacity-40"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" /> {t('history.restore')}
+                      </button>
+                    )}
+                    {canRerun && (
+                      <button
+                        onClick={() => onRerun(entry)}
+                        disabled={isBusy}
+                        className="flex items-center gap-1 text-xs text-slate-300 hover:text-white disabled:opacity-40"
+                        title={t('history.rerunHint')}
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" /> {t('history.rerun')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {isComparing && compareEntries.length === 2 && (
+        <HistoryCompare
+          styleLabel={styleName(style)}
+          entries={[compareEntries[0], compareEntries[1]]}
+          isBusy={isBusy}
+          onRestore={onRestore}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
+    </div>
+  );
+};
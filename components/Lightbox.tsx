@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { X, Star, AlertCircle, Loader2, Download } from 'lucide-react';
+import { GeneratedImage, PhotoStyle } from '../types';
+import { aspectRatioCss, isLandscape, safeFileName, sideBySideRatio } from '../services/imageUtils';
+import { downloadWithProvenance, provenanceFor } from '../services/provenance';
+import { BrandingSettings, applyBranding } from '../services/branding';
+import { useI18n } from '../i18n';
+import { BeforeAfter, ComparisonMode } from './BeforeAfter';
+import { ComparisonToggle } from './ComparisonToggle';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface LightboxProps {
+  style: PhotoStyle;
+  result: GeneratedImage;
+  originalImage: string | null; // The uploaded photo, for before/after comparison
+  branding: BrandingSettings;
+  onSelectHero: (index: number) => void;
+  onClose: () => void;
+}
+
+// Full-size view of one style's candidates, where the hero image is picked
+export const Lightbox: React.FC<LightboxProps> = ({ style, result, originalImage, branding, onSelectHero, onClose }) => {
+  const { t, styleName } = useI18n();
+  const variants = result.variants || [{ imageUrl: result.imageUrl, status: result.status, aspectRatio: result.aspectRatio }];
+  const [viewIndex, setViewIndex] = useState(result.heroIndex ?? 0);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
+  const [cleanDownload, setCleanDownload] = useState(false);
+
+  const current = variants[viewIndex] || variants[0];
+  const isHero = viewIndex === (result.heroIndex ?? 0);
+  const aspect = current.aspectRatio || result.aspectRatio || '3:4';
+  const canCompare = !!originalImage && current.status === 'completed' && !!current.imageUrl;
+  const frameRatio = canCompare && comparisonMode === 'sideBySide' ? sideBySideRatio(aspect) : aspect;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex flex-col" onClick={onClose}>
+      <div className="flex items-center justify-between p-4" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-white">
+          {styleName(style)}
+          {variants.length > 1 && (
+            <span className="ml-3 text-sm font-normal text-slate-400">
+              {t('lightbox.variantOf', { index: viewIndex + 1, count: variants.length })}
+            </span>
+          )}
+        </h2>
+        <div className="flex items-center gap-3">
+          {canCompare && <ComparisonToggle mode={comparisonMode} onChange={setComparisonMode} />}
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        <div
+          className={`relative max-w-full max-h-full ${isLandscape(frameRatio) ? 'w-[80vw]' : 'h-full'}`}
+          style={{ aspectRatio: aspectRatioCss(frameRatio) }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {canCompare ? (
+            <BeforeAfter before={originalImage!} after={current.imageUrl!} alt={styleName(style)} mode={comparisonMode} fit="contain" />
+          ) : current.status === 'completed' && current.imageUrl ? (
+            <img src={current.imageUrl} alt={styleName(style)} className="w-full h-full object-contain rounded" />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center bg-slate-900 rounded text-slate-500 p-6 text-center">
+              {current.status === 'failed' ? (
+                <>
+                  <AlertCircle className="w-8 h-8 text-red-400 mb-2" />
+                  <p className="text-sm text-red-300">{current.error}</p>
+                </>
+              ) : current.status === 'idle' ? (
+                <p className="text-sm">{t('lightbox.cancelled')}</p>
+              ) : (
+                <Loader2 className="w-8 h-8 animate-spin" />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center gap-3 p-4" onClick={(e) => e.stopPropagation()}>
+        {current.status === 'completed' && current.imageUrl && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onSelectHero(viewIndex)}
+              disabled={isHero}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                isHero ? 'bg-amber-500/20 text-amber-300 cursor-default' : 'bg-indigo-600 hover:bg-indigo-500 text-white'
+              }`}
+            >
+              <Star className={`w-4 h-4 ${isHero ? 'fill-current' : ''}`} />
+              {isHero ? t('lightbox.isHero') : t('lightbox.makeHero')}
+            </button>
+            <CleanExportToggle branding={branding} clean={cleanDownload} onChange={setCleanDownload} compact />
+            <button
+              onClick={() => applyBranding(current.imageUrl!, cleanDownload ? null : branding)
+                .then(url => downloadWithProvenance(
+                  url,
+                  provenanceFor(result, style, current.imageUrl),
+                  `${style.id}_${safeFileName(style.name)}_${viewIndex + 1}`
+                ))
+                .catch(error => console.error('Failed to download image', error))}
+              className="p-2 bg-slate-800 hover:bg-slate-700 rounded-full text-slate-300 hover:text-white"
+              title={t('album.downloadSingle')}
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {variants.length > 1 && (
+          <div className="flex gap-2 h-20">
+            {variants.map((variant, index) => (
+              <button
+                key={index}
+                onClick={() => setViewIndex(index)}
+                style={{ aspectRatio: aspectRatioCss(variant.aspectRatio || aspect) }}
+                className={`relative h-full rounded overflow-hidden border-2 bg-slate-900 transition-all ${
+                  index === viewIndex ? 'border-indigo-500' : 'border-transparent opacity-60 hover:opacity-100'
+                }`}
+              >
+                {variant.status === 'completed' && variant.imageUrl ? (
+                  <img src={variant.imageUrl} alt="" className="w-full h-full object-cover" />
+                ) : variant.status === 'failed' ? (
+                  <AlertCircle className="w-4 h-4 text-red-400 mx-auto" />
+                ) : variant.status === 'idle' ? (
+                  <X className="w-4 h-4 text-slate-600 mx-auto" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-slate-500 animate-spin mx-auto" />
+                )}
+                {index === result.heroIndex && (
+                  <Star className="absolute top-1 right-1 w-3 h-3 text-amber-400 fill-current" />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { X, FileDown, Loader } from 'lucide-react';
+import { AlbumItem, AlbumTheme } from '../types';
+import { exportPhotobook, PAGE_SIZES, PageSize } from '../services/photobook';
+import { downloadBlob } from '../services/download';
+import { BrandingSettings, applyBranding } from '../services/branding';
+import { MessageKey, useI18n } from '../i18n';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface PhotobookDialogProps {
+  items: AlbumItem[]; // In album order, with edited titles and captions
+  theme: AlbumTheme;
+  albumTitle: string;
+  branding: BrandingSettings;
+  onClose: () => void;
+}
+
+export const PhotobookDialog: React.FC<PhotobookDialogProps> = ({ items, theme, albumTitle, branding, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [pageSize, setPageSize] = useState<PageSize>('a4');
+  const [bleed, setBleed] = useState(false);
+  const [includeIndex, setIncludeIndex] = useState(true);
+  const [title, setTitle] = useState(() => albumTitle || t('album.title'));
+  const [isExporting, setIsExporting] = useState(false);
+  const [clean, setClean] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // One at a time, so a large album doesn't decode every image at once
+      const pages: AlbumItem[] = [];
+      for (const item of items) {
+        pages.push({ ...item, url: await applyBranding(item.url, clean ? null : branding) });
+      }
+      const pdf = await exportPhotobook(
+        pages,
+        { pageSize, bleed, includeIndex, title: title.trim() || t('album.title'), theme },
+        {
+          subtitle: t('photobook.subtitle', {
+            count: items.length,
+            date: formatDate(Date.now())
+          }),
+          indexTitle: t('photobook.indexTitle'),
+          collection: category => t('album.collection', { category })
+        }
+      );
+      downloadBlob(pdf, 'AI_Photo_Studio_Photobook.pdf');
+      onClose();
+    } catch (error) {
+      console.error('Failed to build photobook', error);
+      alert(t('photobook.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FileDown className="w-5 h-5 text-indigo-400" /> {t('photobook.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <label className="block space-y-1.5">
+            <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('photobook.bookTitle')}</span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+            />
+          </label>
+
+          <div className="space-y-1.5">
+            <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('photobook.pageSize')}</span>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+                <button
+                  key={size}
+                  onClick={() => setPageSize(size)}
+                  aria-pressed={pageSize === size}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                    pageSize === size
+                      ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                      : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-600'
+                  }`}
+                >
+                  {t(`photobook.size.${size}` as MessageKey)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={bleed} onChange={(e) => setBleed(e.target.checked)} className="mt-0.5 accent-indigo-500" />
+              <span>
+                {t('photobook.bleed')}
+                <span className="block text-xs text-slate-500">{t('photobook.bleedHint')}</span>
+              </span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={includeIndex} onChange={(e) => setIncludeIndex(e.target.checked)} className="accent-indigo-500" />
+              {t('photobook.includeIndex')}
+            </label>
+            <CleanExportToggle branding={branding} clean={clean} onChange={setClean} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-800">
+          <span className="text-xs text-slate-500">
+            {t('photobook.imageCount', { count: items.length })}
+          </span>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isExporting ? <Loader className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            {isExporting ? t('photobook.exporting') : t('photobook.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Copy, Trash2, RotateCcw, FileText, AlertCircle, Check } from 'lucide-react';
+import { AspectRatio, OutputSettings, PhotoStyle, PromptSection, PromptTemplate, StylePromptConfig, SubjectProfile } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { buildPrompt } from '../services/genai';
+import {
+  BUILT_IN_TEMPLATES,
+  PROMPT_SECTIONS,
+  PROMPT_VARIABLES,
+  PromptLibrary,
+  createTemplateId,
+  findUnknownVariables,
+  isBuiltInTemplateId,
+  isTemplateModified,
+  resolveStylePrompt
+} from '../services/promptTemplates';
+
+interface PromptEditorProps {
+  library: PromptLibrary;
+  onChange: (library: PromptLibrary) => void;
+  styles: PhotoStyle[];
+  subject: SubjectProfile;
+  output: OutputSettings;
+  styleAspectOverrides: Record<number, AspectRatio>;
+  referenceCount: number;
+  initialStyleId?: number;
+  onClose: () => void;
+}
+
+const SECTION_LABELS: Record<PromptSection, MessageKey> = {
+  style: 'promptEditor.section.style',
+  fidelity: 'promptEditor.section.fidelity',
+};
+
+export const PromptEditor: React.FC<PromptEditorProps> = ({
+  library,
+  onChange,
+  styles,
+  subject,
+  output,
+  styleAspectOverrides,
+  referenceCount,
+  initialStyleId,
+  onClose
+}) => {
+  const { t, styleName } = useI18n();
+  const [styleId, setStyleId] = useState<number>(initialStyleId ?? styles[0]?.id);
+  const style = styles.find(s => s.id === styleId) || styles[0];
+  const [templateId, setTemplateId] = useState<string>(() => resolveStylePrompt(style, library).template.id);
+  const [copied, setCopied] = useState(false);
+
+  const template = library.templates.find(tpl => tpl.id === templateId) || library.templates[0];
+  const unknownVariables = findUnknownVariables(template.body);
+  const styleConfig: StylePromptConfig = library.styleConfigs[style.id] || {};
+
+  const preview = useMemo(
+    () => buildPrompt(
+      subject,
+      style,
+      styleAspectOverrides[style.id] || output.aspectRatio,
+      Math.max(1, referenceCount),
+      library
+    ),
+    [subject, style, styleAspectOverrides, output.aspectRatio, referenceCount, library]
+  );
+
+  const updateTemplate = (patch: { name?: string; body?: string }) => {
+    onChange({
+      ...library,
+      templates: library.templates.map(tpl => tpl.id === template.id ? { ...tpl, ...patch } : tpl)
+    });
+  };
+
+  // New templates start from the default wording; duplicates copy the selected one
+  const handleNewTemplate = (source?: PromptTemplate) => {
+    const id = createTemplateId();
+    const name = source ? t('promptEditor.copyName', { name: source.name }) : t('promptEditor.newTemplateName');
+    const body = (source || BUILT_IN_TEMPLATES[0]).body;
+    onChange({ ...library, templates: [...library.templates, { id, name, body }] });
+    setTemplateId(id);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (isBuiltInTemplateId(template.id)) return;
+    if (!window.confirm(t('promptEditor.confirmDelete', { name: template.name }))) return;
+    // Styles that used it fall back to their shipped template
+    const styleConfigs: Record<number, StylePromptConfig> = {};
+    (Object.entries(library.styleConfigs) as [string, StylePromptConfig][]).forEach(([id, config]) => {
+      styleConfigs[Number(id)] = config.templateId === template.id ? { ...config, templateId: undefined } : config;
+    });
+    onChange({ templates: library.templates.filter(tpl => tpl.id !== template.id), styleConfigs });
+    setTemplateId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  const handleResetTemplate = () => {
+    const builtIn = BUILT_IN_TEMPLATES.find(tpl => tpl.id === template.id);
+    if (builtIn) updateTemplate({ body: builtIn.body });
+  };
+
+  const updateStyleConfig = (patch: StylePromptConfig) => {
+    onChange({ ...library, styleConfigs: { ...library.styleConfigs, [style.id]: { ...styleConfig, ...patch } } });
+  };
+
+  const updateOverride = (section: PromptSection, value: string) => {
+    updateStyleConfig({ overrides: { ...styleConfig.overrides, [section]: value } });
+  };
+
+  const handleResetStyle = () => {
+    const { [style.id]: _removed, ...styleConfigs } = library.styleConfigs;
+    onChange({ ...library, styleConfigs });
+  };
+
+  const handleSelectStyle = (id: number) => {
+    setStyleId(id);
+    const next = styles.find(s => s.id === id);
+    if (next) setTemplateId(resolveStylePrompt(next, library).template.id);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preview);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy prompt', error);
+    }
+  };
+
+  const isBuiltIn = isBuiltInTemplateId(template.id);
+  const shippedTemplate = library.templates.find(tpl => tpl.id === style.promptTemplateId) || library.templates[0];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FileText className="w-5 h-5 text-sky-400" />
+            {t('promptEditor.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col lg:flex-row">
+          {/* Template Editor */}
+          <div className="lg:w-1/2 border-b lg:border-b-0 lg:border-r border-slate-800 overflow-y-auto p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <select
+                value={template.id}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none"
+              >
+                {library.templates.map(tpl => (
+                  <option key={tpl.id} value={tpl.id}>
+                    {tpl.name}{isTemplateModified(tpl) ? ` (${t('promptEditor.modified')})` : ''}
+                  </option>
+                ))}
+              </select>
+              <button onClick={() => handleNewTemplate()} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white" title={t('promptEditor.newTemplate')}>
+                <Plus className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleNewTemplate(template)} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white" title={t('promptEditor.duplicate')}>
+                <Copy className="w-4 h-4" />
+              </button>
+              {isBuiltIn ? (
+                <button
+                  onClick={handleResetTemplate}
+                  disabled={!isTemplateModified(template)}
+                  className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white disabled:opacity-30"
+                  title={t('promptEditor.resetTemplate')}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              ) : (
+                <button onClick={handleDeleteTemplate} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-red-400" title={t('promptEditor.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {!isBuiltIn && (
+              <input
+                value={template.name}
+                onChange={(e) => updateTemplate({ name: e.target.value })}
+                placeholder={t('promptEditor.templateName')}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none"
+              />
+            )}
+
+            <textarea
+              value={template.body}
+              onChange={(e) => updateTemplate({ body: e.target.value })}
+              rows={14}
+              spellCheck={false}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none resize-y"
+            />
+
+            <div>
+              <p className="text-xs text-slate-500 mb-2">{t('promptEditor.variables')}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {PROMPT_VARIABLES.map(name => (
+                  <code key={name} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-[11px] text-sky-300">{`{{${name}}}`}</code>
+                ))}
+              </div>
+            </div>
+
+            {unknownVariables.length > 0 && (
+              <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg p-2">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{t('promptEditor.unknownVariables', { names: unknownVariables.join(', ') })}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Style Settings and Preview */}
+          <div className="lg:w-1/2 overflow-y-auto p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="block text-xs text-slate-400">{t('promptEditor.style')}</span>
+                <select
+                  value={style.id}
+                  onChange={(e) => handleSelectStyle(Number(e.target.value))}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none"
+                >
+                  {styles.map(s => <option key={s.id} value={s.id}>{s.id} · {styleName(s)}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs text-slate-400">{t('promptEditor.styleTemplate')}</span>
+                <select
+                  value={styleConfig.templateId || ''}
+                  onChange={(e) => updateStyleConfig({ templateId: e.target.value || undefined })}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none"
+                >
+                  <option value="">{t('promptEditor.styleDefault', { name: shippedTemplate.name })}</option>
+                  {library.templates.map(tpl => <option key={tpl.id} value={tpl.id}>{tpl.name}</option>)}
+                </select>
+              </label>
+            </div>
+
+            {PROMPT_SECTIONS.map(section => (
+              <label key={section} className="block space-y-1">
+                <span className="block text-xs text-slate-400">{t(SECTION_LABELS[section])}</span>
+                <textarea
+                  value={styleConfig.overrides?.[section] ?? style.promptOverrides?.[section] ?? ''}
+                  onChange={(e) => updateOverride(section, e.target.value)}
+                  rows={2}
+                  placeholder={t('promptEditor.overridePlaceholder')}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none resize-y"
+                />
+              </label>
+            ))}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleResetStyle}
+                disabled={!library.styleConfigs[style.id]}
+                className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white disabled:opacity-30"
+              >
+                <RotateCcw className="w-3.5 h-3.5" /> {t('promptEditor.resetStyle')}
+              </button>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs text-slate-400">{t('promptEditor.preview', { count: preview.length })}</span>
+                <button onClick={handleCopy} className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white">
+                  {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+                  {copied ? t('promptEditor.copied') : t('promptEditor.copy')}
+                </button>
+              </div>
+              <pre className="whitespace-pre-wrap text-xs font-mono text-slate-300 bg-slate-950 border border-slate-800 rounded-lg p-3">{preview}</pre>
+              <p className="mt-2 text-[11px] text-slate-600">{t('promptEditor.previewHint')}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ShieldCheck, ShieldAlert, Upload } from 'lucide-react';
+import { ProvenanceReport, readProvenance } from '../services/provenance';
+import { useI18n } from '../i18n';
+
+interface ProvenanceVerifierProps {
+  onClose: () => void;
+}
+
+interface CheckedFile {
+  name: string;
+  previewUrl: string;
+  report: ProvenanceReport;
+}
+
+// Reads the disclosure metadata back out of any dropped image, ours or not
+export const ProvenanceVerifier: React.FC<ProvenanceVerifierProps> = ({ onClose }) => {
+  const { t } = useI18n();
+  const [checked, setChecked] = useState<CheckedFile | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => {
+    if (checked) URL.revokeObjectURL(checked.previewUrl);
+  }, [checked]);
+
+  const inspect = async (file: File) => {
+    const report = readProvenance(new Uint8Array(await file.arrayBuffer()));
+    setChecked({ name: file.name, previewUrl: URL.createObjectURL(file), report });
+  };
+
+  const fields = checked ? Object.entries(checked.report.fields) : [];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-indigo-400" /> {t('verifier.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              const file = e.dataTransfer.files[0];
+              if (file) inspect(file);
+            }}
+            className={`w-full flex flex-col items-center gap-2 p-6 rounded-xl border-2 border-dashed transition-colors ${
+              isDragging ? 'border-indigo-400 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-600'
+            }`}
+          >
+            <Upload className="w-6 h-6 text-slate-400" />
+            <span className="text-sm text-slate-300">{t('verifier.drop')}</span>
+            <span className="text-xs text-slate-500">{t('verifier.formats')}</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) inspect(file);
+            }}
+          />
+
+          {checked && (
+            <div className="flex flex-col sm:flex-row gap-4">
+              <img src={checked.previewUrl} alt={checked.name} className="w-32 h-32 object-cover rounded-lg bg-slate-950 flex-shrink-0" />
+              <div className="flex-1 min-w-0 space-y-3">
+                <p className="text-sm text-slate-300 truncate">{checked.name}</p>
+                {checked.report.aiGenerated ? (
+                  <p className="flex items-center gap-2 text-sm text-emerald-300">
+                    <ShieldCheck className="w-4 h-4 flex-shrink-0" /> {t('verifier.disclosed')}
+                  </p>
+                ) : (
+                  <p className="flex items-center gap-2 text-sm text-amber-300">
+                    <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+                    {checked.report.format === 'other' ? t('verifier.unsupported') : t('verifier.notDisclosed')}
+                  </p>
+                )}
+                {fields.length > 0 && (
+                  <dl className="text-xs divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                    {fields.map(([key, value]) => (
+                      <div key={key} className="grid grid-cols-[8rem_1fr] gap-3 px-3 py-2">
+                        <dt className="text-slate-500 font-mono break-words">{key}</dt>
+                        <dd className="text-slate-300 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { PauseCircle, PlayCircle, ChevronDown, ChevronUp, GripVertical, ArrowUpToLine, X, Loader2 } from 'lucide-react';
+import { PhotoStyle, QueueJob } from '../types';
+import { useI18n } from '../i18n';
+
+interface QueuePanelProps {
+  queue: QueueJob[];
+  running: QueueJob[];
+  styles: PhotoStyle[];
+  isPaused: boolean;
+  onPauseToggle: () => void;
+  onCancel: (jobId: string) => void;
+  onCancelAll: () => void;
+  onMoveToTop: (jobId: string) => void;
+  onReorder: (jobIds: string[]) => void;
+}
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue,
+  running,
+  styles,
+  isPaused,
+  onPauseToggle,
+  onCancel,
+  onCancelAll,
+  onMoveToTop,
+  onReorder
+}) => {
+  const { t, styleName } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const nameOf = (job: QueueJob) => {
+    const style = styles.find(s => s.id === job.styleId);
+    const name = style ? styleName(style) : `#${job.styleId}`;
+    return job.variantCount > 1
+      ? `${name} · ${t('queuePanel.variant', { index: job.variant + 1, count: job.variantCount })}`
+      : name;
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (dragId && dragId !== targetId) {
+      const ids = queue.map(job => job.id).filter(id => id !== dragId);
+      ids.splice(ids.indexOf(targetId), 0, dragId);
+      onReorder(ids);
+    }
+    setDragId(null);
+    setOverId(null);
+  };
+
+  const iconButton = 'p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl">
+      <div className="flex items-center justify-between p-4">
+        <div className="flex items-center gap-3">
+          <div className={`w-3 h-3 rounded-full ${isPaused ? 'bg-amber-500 animate-pulse' : 'bg-green-500 animate-pulse'}`}></div>
+          <span className="text-slate-300 font-medium">
+            {isPaused ? t('queue.paused') : t('queue.processing', { count: queue.length })}
+          </span>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300"
+          >
+            {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            {isExpanded ? t('queuePanel.hide') : t('queuePanel.show', { count: queue.length + running.length })}
+          </button>
+        </div>
+        <button
+          onClick={onPauseToggle}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all ${
+            isPaused
+              ? 'bg-green-600 hover:bg-green-500 text-white'
+              : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+          }`}
+        >
+          {isPaused ? <PlayCircle className="w-4 h-4" /> : <PauseCircle className="w-4 h-4" />}
+          {isPaused ? t('queue.resume') : t('queue.pause')}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-slate-800 p-2 max-h-80 overflow-y-auto space-y-1">
+          {running.map(job => (
+            <div key={job.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-indigo-500/10 border border-indigo-500/30">
+              <Loader2 className="w-4 h-4 text-indigo-400 animate-spin flex-shrink-0" />
+              <span className="flex-1 min-w-0 truncate text-sm text-slate-200">{nameOf(job)}</span>
+              <span className="text-[10px] text-indigo-300 uppercase tracking-wider">{t('grid.generating')}</span>
+              <span className="text-[10px] text-slate-500 font-mono">{job.output.aspectRatio}</span>
+              <button onClick={() => onCancel(job.id)} className={iconButton} title={t('queuePanel.cancel')}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          {queue.map((job, index) => (
+            <div
+              key={job.id}
+              draggable
+              onDragStart={(e) => {
+                setDragId(job.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (overId !== job.id) setOverId(job.id);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(job.id);
+              }}
+              onDragEnd={() => {
+                setDragId(null);
+                setOverId(null);
+              }}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border transition-colors ${
+                dragId === job.id ? 'opacity-40' : ''
+              } ${
+                overId === job.id && dragId !== job.id ? 'border-indigo-500 bg-slate-800' : 'border-transparent hover:bg-slate-800/60'
+              }`}
+            >
+              <GripVertical className="w-4 h-4 text-slate-600 cursor-grab flex-shrink-0" />
+              <span className="w-6 text-right text-xs text-slate-500 font-mono">{index + 1}</span>
+              <span className="flex-1 min-w-0 truncate text-sm text-slate-300">{nameOf(job)}</span>
+              <span className="text-[10px] text-slate-500 font-mono">{job.output.aspectRatio}</span>
+              <button
+                onClick={() => onMoveToTop(job.id)}
+                disabled={index === 0}
+                className={`${iconButton} disabled:opacity-30 disabled:hover:bg-transparent`}
+                title={t('queuePanel.moveToTop')}
+              >
+                <ArrowUpToLine className="w-4 h-4" />
+              </button>
+              <button onClick={() => onCancel(job.id)} className={iconButton} title={t('queuePanel.cancel')}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between px-3 pt-2">
+            <p className="text-[11px] text-slate-600">{t('queuePanel.dragHint')}</p>
+            <button onClick={onCancelAll} className="text-xs text-red-400 hover:text-red-300">
+              {t('queuePanel.cancelAll')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
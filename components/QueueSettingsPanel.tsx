@@ -0,0 +1,117 @@
+import React from 'react';
+import { X, Gauge, RotateCcw } from 'lucide-react';
+import { MessageKey, useI18n } from '../i18n';
+import { SchedulerConfig } from '../services/scheduler';
+import { ApiTier, CONFIG_LIMITS, QueueSettings, TIER_PRESETS } from '../services/queueSettings';
+
+interface QueueSettingsPanelProps {
+  settings: QueueSettings;
+  onChange: (settings: QueueSettings) => void;
+  onClose: () => void;
+}
+
+const TIERS: { value: ApiTier; labelKey: MessageKey }[] = [
+  { value: 'free', labelKey: 'queueSettings.tier.free' },
+  { value: 'tier1', labelKey: 'queueSettings.tier.tier1' },
+  { value: 'tier2', labelKey: 'queueSettings.tier.tier2' },
+  { value: 'custom', labelKey: 'queueSettings.tier.custom' },
+];
+
+// Millisecond settings are edited in seconds
+const FIELDS: { key: keyof SchedulerConfig; labelKey: MessageKey; seconds?: boolean; percent?: boolean }[] = [
+  { key: 'concurrency', labelKey: 'queueSettings.concurrency' },
+  { key: 'requestsPerMinute', labelKey: 'queueSettings.requestsPerMinute' },
+  { key: 'burst', labelKey: 'queueSettings.burst' },
+  { key: 'baseBackoffMs', labelKey: 'queueSettings.baseBackoff', seconds: true },
+  { key: 'maxBackoffMs', labelKey: 'queueSettings.maxBackoff', seconds: true },
+  { key: 'jitter', labelKey: 'queueSettings.jitter', percent: true },
+  { key: 'breakerThreshold', labelKey: 'queueSettings.breakerThreshold' },
+  { key: 'breakerResetMs', labelKey: 'queueSettings.breakerReset', seconds: true },
+];
+
+export const QueueSettingsPanel: React.FC<QueueSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { t } = useI18n();
+
+  const selectTier = (tier: ApiTier) => {
+    onChange({ tier, config: tier === 'custom' ? settings.config : TIER_PRESETS[tier] });
+  };
+
+  const updateField = (key: keyof SchedulerConfig, displayValue: number, scale: number) => {
+    if (!Number.isFinite(displayValue)) return;
+    const { min, max } = CONFIG_LIMITS[key];
+    const value = Math.min(max, Math.max(min, displayValue * scale));
+    onChange({ tier: 'custom', config: { ...settings.config, [key]: value } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-emerald-400" />
+            {t('queueSettings.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-2">{t('queueSettings.tier')}</label>
+            <div className="grid grid-cols-4 gap-2">
+              {TIERS.map(tier => (
+                <button
+                  key={tier.value}
+                  onClick={() => selectTier(tier.value)}
+                  className={`p-2 rounded-lg border text-sm transition-all ${
+                    settings.tier === tier.value
+                      ? 'bg-emerald-500/20 border-emerald-500 text-emerald-200'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'
+                  }`}
+                >
+                  {t(tier.labelKey)}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">{t('queueSettings.tierHint')}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, labelKey, seconds, percent }) => {
+              const scale = seconds ? 1000 : percent ? 0.01 : 1;
+              const { min, max, step } = CONFIG_LIMITS[key];
+              return (
+                <label key={key} className="space-y-1">
+                  <span className="block text-xs text-slate-400">{t(labelKey)}</span>
+                  <input
+                    type="number"
+                    min={min / scale}
+                    max={max / scale}
+                    step={step / scale}
+                    value={Math.round((settings.config[key] / scale) * 100) / 100}
+                    onChange={(e) => updateField(key, Number(e.target.value), scale)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-slate-600">{t('queueSettings.breakerResetHint')}</p>
+            <button
+              onClick={() => selectTier('free')}
+              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white flex-shrink-0"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> {t('queueSettings.reset')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { X, FolderOpen, Pencil, Trash2, Check, Clock, ArchiveRestore, Loader } from 'lucide-react';
+import { SessionSummary } from '../services/sessionStore';
+import { useI18n } from '../i18n';
+
+interface SessionManagerProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImportArchive: (file: File) => Promise<void>; // Restores an album ZIP into a new session
+  onClose: () => void;
+}
+
+export const SessionManager: React.FC<SessionManagerProps> = ({
+  sessions,
+  activeSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+  onImportArchive,
+  onClose
+}) => {
+  const { t, formatDate } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: SessionSummary) => {
+    if (confirm(t('sessions.confirmDelete', { name: session.name }))) {
+      onDelete(session.id);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      await onImportArchive(file);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-indigo-400" />
+            {t('sessions.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 text-sm font-medium disabled:opacity-50"
+              title={t('sessions.importHint')}
+            >
+              {isImporting ? <Loader className="w-4 h-4 animate-spin" /> : <ArchiveRestore className="w-4 h-4" />}
+              {t('sessions.import')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImport(file);
+              }}
+            />
+            <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {sessions.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">{t('sessions.empty')}</p>
+          ) : sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <div
+                key={session.id}
+                className={`flex items-center gap-4 p-4 rounded-xl border transition-colors ${
+                  isActive ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-slate-800/50 border-slate-700'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  {editingId === session.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      onBlur={commitRename}
+                      className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  ) : (
+                    <p className="font-medium text-slate-200 truncate">
+                      {session.name}
+                      {isActive && <span className="ml-2 text-[10px] uppercase tracking-wider text-indigo-400">{t('sessions.current')}</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDate(session.updatedAt)} · {t('sessions.completed', { count: session.completedCount })}
+                    {session.queuedCount > 0 && ` · ${t('sessions.queued', { count: session.queuedCount })}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  {editingId === session.id ? (
+                    <button onClick={commitRename} className="p-2 hover:bg-slate-700 rounded-lg text-green-400" title={t('sessions.saveName')}>
+                      <Check className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => startEditing(session)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white" title={t('sessions.rename')}>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(session)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400" title={t('sessions.delete')}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => onOpen(session.id)}
+                      className="ml-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white text-sm font-medium"
+                    >
+                      {t('sessions.open')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { X, Share2, Globe, Download, Loader } from 'lucide-react';
+import { AlbumItem } from '../types';
+import { canShareFiles, exportAlbumImage, shareFiles } from '../services/share';
+import { ProvenanceInfo } from '../services/provenance';
+import { BrandingSettings } from '../services/branding';
+import { useI18n } from '../i18n';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface ShareDialogProps {
+  items: AlbumItem[]; // In album order
+  albumTitle: string;
+  branding: BrandingSettings;
+  provenanceOf: (item: AlbumItem) => ProvenanceInfo;
+  onOpenWebAlbum: () => void; // Fallbacks when the browser can't share files
+  onOpenZip: () => void;
+  onClose: () => void;
+}
+
+export const ShareDialog: React.FC<ShareDialogProps> = ({ items, albumTitle, branding, provenanceOf, onOpenWebAlbum, onOpenZip, onClose }) => {
+  const { t } = useI18n();
+  const [clean, setClean] = useState(false);
+  const [files, setFiles] = useState<File[] | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  // Files are prepared up front: the share sheet has to open straight from the click, before the user activation expires
+  useEffect(() => {
+    let cancelled = false;
+    setFiles(null);
+    (async () => {
+      const prepared: File[] = [];
+      for (const item of items) {
+        prepared.push(await exportAlbumImage(item, clean ? null : branding, provenanceOf(item)));
+      }
+      if (!cancelled) setFiles(prepared);
+    })().catch(error => {
+      console.error('Failed to prepare images for sharing', error);
+      if (!cancelled) setFailed(true);
+    });
+    return () => { cancelled = true; };
+  }, [clean]);
+
+  const title = albumTitle || t('album.title');
+  const supported = !failed && (files === null || canShareFiles(files));
+
+  const handleShare = async () => {
+    if (!files) return;
+    setIsSharing(true);
+    try {
+      const outcome = await shareFiles(files, title, t('share.text', { count: files.length }));
+      if (outcome === 'shared') onClose();
+      else if (outcome === 'unsupported') setFailed(true);
+    } catch (error) {
+      console.error('Failed to share album', error);
+      setFailed(true);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-indigo-400" /> {t('share.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          {supported ? (
+            <>
+              <p className="text-sm text-slate-300">{t('share.hint')}</p>
+              <CleanExportToggle branding={branding} clean={clean} onChange={setClean} />
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-slate-300">{t(failed ? 'share.failed' : 'share.unsupported')}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={onOpenWebAlbum}
+                  className="flex items-center justify-center gap-2 px-3 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-200 text-sm font-medium transition-colors"
+                >
+                  <Globe className="w-4 h-4" /> {t('share.webAlbum')}
+                </button>
+                <button
+                  onClick={onOpenZip}
+                  className="flex items-center justify-center gap-2 px-3 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-200 text-sm font-medium transition-colors"
+                >
+                  <Download className="w-4 h-4" /> {t('share.zip')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {supported && (
+          <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-800">
+            <button
+              onClick={handleShare}
+              disabled={!files || isSharing}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+            >
+              {!files || isSharing ? <Loader className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+              {files ? t('share.share', { count: files.length }) : t('share.preparing')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
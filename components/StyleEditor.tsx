@@ -0,0 +1,318 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Pencil, Copy, Trash2, Wand2, Save, Upload, Download, CheckSquare, Square } from 'lucide-react';
+import { PhotoStyle } from '../types';
+import { StylePackImportDialog } from './StylePackImportDialog';
+import {
+  ConflictResolution,
+  StylePack,
+  StylePackValidation,
+  exportStylePack,
+  validateStylePack
+} from '../services/stylePacks';
+import { downloadBlob } from '../services/download';
+import { useI18n } from '../i18n';
+
+interface StyleEditorProps {
+  customStyles: PhotoStyle[];
+  builtInStyles: PhotoStyle[];
+  categories: string[];
+  onSave: (style: Omit<PhotoStyle, 'id'> & { id?: number }) => void;
+  onDelete: (id: number) => void;
+  onImportPack: (pack: StylePack, resolutions: Record<string, ConflictResolution>) => void;
+  onClose: () => void;
+}
+
+interface StyleDraft {
+  id?: number;
+  name: string;
+  category: string;
+  promptSuffix: string;
+}
+
+const EMPTY_DRAFT: StyleDraft = { name: '', category: 'Custom', promptSuffix: '' };
+
+export const StyleEditor: React.FC<StyleEditorProps> = ({
+  customStyles,
+  builtInStyles,
+  categories,
+  onSave,
+  onDelete,
+  onImportPack,
+  onClose
+}) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<StyleDraft | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; validation: StylePackValidation } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportIds, setExportIds] = useState<Set<number>>(new Set());
+  const [packName, setPackName] = useState(() => t('styleEditor.defaultPackName'));
+  const [authorName, setAuthorName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSave = !!draft && draft.name.trim() !== '' && draft.promptSuffix.trim() !== '';
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+    onSave({
+      id: draft.id,
+      name: draft.name.trim(),
+      category: draft.category.trim() || 'Custom',
+      promptSuffix: draft.promptSuffix.trim(),
+      isCustom: true
+    });
+    setDraft(null);
+  };
+
+  const handleDuplicate = (style: PhotoStyle) => {
+    setDraft({ name: t('styleEditor.copyName', { name: style.name }), category: style.category, promptSuffix: style.promptSuffix });
+  };
+
+  const handleDelete = (style: PhotoStyle) => {
+    if (confirm(t('styleEditor.confirmDelete', { name: style.name }))) {
+      if (draft?.id === style.id) setDraft(null);
+      onDelete(style.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let validation: StylePackValidation;
+    try {
+      validation = validateStylePack(JSON.parse(await file.text()));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      validation = { ok: false, errors: [{ path: '(file)', message: `is not valid JSON: ${reason}` }] };
+    }
+    setPendingImport({ fileName: file.name, validation });
+  };
+
+  const handleConfirmImport = (resolutions: Record<string, ConflictResolution>) => {
+    if (pendingImport?.validation.ok) onImportPack(pendingImport.validation.pack, resolutions);
+    setPendingImport(null);
+  };
+
+  const startExport = () => {
+    setDraft(null);
+    setExportIds(new Set(customStyles.map(s => s.id)));
+    setIsExporting(true);
+  };
+
+  const toggleExportId = (id: number) => {
+    setExportIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const styles = customStyles.filter(s => exportIds.has(s.id));
+    if (styles.length === 0 || !packName.trim() || !authorName.trim()) return;
+    const pack = exportStylePack(styles, { name: packName.trim(), authorName: authorName.trim() });
+    const fileName = `${packName.trim().replace(/[^\w-]+/g, '_') || 'style_pack'}.stylepack.json`;
+    downloadBlob(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }), fileName);
+    setIsExporting(false);
+  };
+
+  const canExport = exportIds.size > 0 && packName.trim() !== '' && authorName.trim() !== '';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-fuchsia-400" />
+            {t('styleEditor.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700"
+            >
+              <Upload className="w-4 h-4" /> {t('styleEditor.importPack')}
+            </button>
+            <button
+              onClick={startExport}
+              disabled={customStyles.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" /> {t('styleEditor.exportPack')}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+          {/* Style List */}
+          <div className="md:w-1/2 border-b md:border-b-0 md:border-r border-slate-800 overflow-y-auto p-4 space-y-2">
+            <button
+              onClick={() => { setIsExporting(false); setDraft({ ...EMPTY_DRAFT }); }}
+              className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-fuchsia-500/50 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> {t('styleEditor.newStyle')}
+            </button>
+
+            {customStyles.length === 0 && (
+              <p className="text-center text-sm text-slate-500 py-8">{t('styleEditor.empty')}</p>
+            )}
+
+            {customStyles.map(style => (
+              <div
+                key={style.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border ${
+                  draft?.id === style.id ? 'bg-fuchsia-500/10 border-fuchsia-500/40' : 'bg-slate-800/50 border-slate-700'
+                }`}
+              >
+                {isExporting && (
+                  <button onClick={() => toggleExportId(style.id)} className="text-slate-400 hover:text-white">
+                    {exportIds.has(style.id) ? <CheckSquare className="w-4 h-4 text-fuchsia-400" /> : <Square className="w-4 h-4" />}
+                  </button>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-200 truncate">{style.name}</p>
+                  <p className="text-[10px] text-slate-500 uppercase tracking-wider">{style.category}</p>
+                </div>
+                <button onClick={() => { setIsExporting(false); setDraft({ ...style }); }} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white" title={t('styleEditor.edit')}>
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDuplicate(style)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white" title={t('styleEditor.duplicate')}>
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(style)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400" title={t('styleEditor.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Prompt Editor */}
+          <div className="md:w-1/2 overflow-y-auto p-4">
+            {isExporting ? (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-400">
+                  {t('styleEditor.exportHint')}
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">{t('styleEditor.packName')}</label>
+                  <input
+                    value={packName}
+                    onChange={(e) => setPackName(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-fuchsia-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">{t('styleEditor.author')}</label>
+                  <input
+                    value={authorName}
+                    onChange={(e) => setAuthorName(e.target.value)}
+                    placeholder={t('styleEditor.authorPlaceholder')}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-fuchsia-500 outline-none"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setIsExporting(false)}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800"
+                  >
+                    {t('styleEditor.cancel')}
+                  </button>
+                  <button
+                    onClick={handleExport}
+                    disabled={!canExport}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-fuchsia-600 hover:bg-fuchsia-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <Download className="w-4 h-4" />
+                    {t('styleEditor.exportCount', { count: exportIds.size })}
+                  </button>
+                </div>
+              </div>
+            ) : draft ? (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">{t('styleEditor.name')}</label>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder={t('styleEditor.namePlaceholder')}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-fuchsia-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">{t('styleEditor.category')}</label>
+                  <input
+                    value={draft.category}
+                    onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                    list="style-editor-categories"
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-fuchsia-500 outline-none"
+                  />
+                  <datalist id="style-editor-categories">
+                    {categories.map(cat => <option key={cat} value={cat} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">{t('styleEditor.prompt')}</label>
+                  <textarea
+                    value={draft.promptSuffix}
+                    onChange={(e) => setDraft({ ...draft, promptSuffix: e.target.value })}
+                    rows={7}
+                    placeholder={t('styleEditor.promptPlaceholder')}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-fuchsia-500 outline-none resize-y"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">{t('styleEditor.promptHint')}</p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800"
+                  >
+                    {t('styleEditor.cancel')}
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-fuchsia-600 hover:bg-fuchsia-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <Save className="w-4 h-4" />
+                    {draft.id !== undefined ? t('styleEditor.saveChanges') : t('styleEditor.create')}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-center text-slate-500 py-12">
+                <Wand2 className="w-10 h-10 mb-3 text-slate-700" />
+                <p>{t('styleEditor.selectHint')}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {pendingImport && (
+        <StylePackImportDialog
+          fileName={pendingImport.fileName}
+          validation={pendingImport.validation}
+          customStyles={customStyles}
+          builtInStyles={builtInStyles}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,44 +1,91 @@
 import React, { useState, useMemo } from 'react';
-import { Loader2, RefreshCw, AlertCircle, Check, BookOpen, CheckSquare, Square, Play, Search, X } from 'lucide-react';
-import { GeneratedImage, PhotoStyle } from '../types';
-import { PHOTO_STYLES } from '../constants';
+import { Loader2, RefreshCw, AlertCircle, Check, BookOpen, CheckSquare, Square, Play, Search, X, Wand2, Ratio, FileText, Layers, Maximize2, History, PenLine, Images } from 'lucide-react';
+import { AspectRatio, GeneratedImage, ImageSize, OutputSettings, PhotoStyle } from '../types';
+import { aspectRatioCss } from '../services/imageUtils';
+import { MessageKey, useI18n } from '../i18n';
+
+// Pseudo-category that filters to user-created styles
+const CUSTOM_FILTER = 'My Styles';
 
 interface StyleGridProps {
+  styles: PhotoStyle[];
   results: Record<number, GeneratedImage>;
   onRetry: (styleId: number) => void;
   selectedIds: Set<number>;
   onToggleSelection: (id: number) => void;
   onSelectAll: () => void;
   onOpenAlbum: () => void;
+  onOpenCollage: () => void;
   onGenerateSelected: () => void;
+  onOpenStyleEditor: () => void;
+  onOpenPromptEditor: (styleId?: number) => void;
+  output: OutputSettings;
+  onOutputChange: (output: OutputSettings) => void;
+  supportedAspectRatios: AspectRatio[];
+  supportedImageSizes: ImageSize[];
+  styleAspectOverrides: Record<number, AspectRatio>;
+  onStyleAspectChange: (styleId: number, aspectRatio: AspectRatio | null) => void;
+  variantCount: number;
+  maxVariants: number;
+  onVariantCountChange: (count: number) => void;
+  onSelectHero: (styleId: number, index: number) => void;
+  onOpenLightbox: (styleId: number) => void;
+  onOpenHistory: (styleId: number) => void;
+  onOpenEditor: (styleId: number) => void;
 }
 
 export const StyleGrid: React.FC<StyleGridProps> = ({ 
+  styles,
   results, 
   onRetry, 
   selectedIds, 
   onToggleSelection,
   onSelectAll,
   onOpenAlbum,
-  onGenerateSelected
+  onOpenCollage,
+  onGenerateSelected,
+  onOpenStyleEditor,
+  onOpenPromptEditor,
+  output,
+  onOutputChange,
+  supportedAspectRatios,
+  supportedImageSizes,
+  styleAspectOverrides,
+  onStyleAspectChange,
+  variantCount,
+  maxVariants,
+  onVariantCountChange,
+  onSelectHero,
+  onOpenLightbox,
+  onOpenHistory,
+  onOpenEditor
 }) => {
   // 1. All Hooks must be declared unconditionally at the top
+  const { t, styleName, categoryLabel } = useI18n();
   const [searchTerm, setSearchTerm] = useState('');
   const [activeCategory, setActiveCategory] = useState('All');
 
   // Filter Logic (Memoized)
+  const hasCustomStyles = styles.some(s => s.isCustom);
+
   const categories = useMemo(() => {
-    const cats = new Set(PHOTO_STYLES.map(s => s.category));
-    return ['All', ...Array.from(cats).sort()];
-  }, []);
+    const cats = new Set(styles.map(s => s.category));
+    return ['All', ...(hasCustomStyles ? [CUSTOM_FILTER] : []), ...Array.from(cats).sort()];
+  }, [styles, hasCustomStyles]);
+
+  const filterLabel = (cat: string) =>
+    cat === 'All' ? t('grid.allCategories') : cat === CUSTOM_FILTER ? t('grid.myStyles') : categoryLabel(cat);
 
   const filteredStyles = useMemo(() => {
-    return PHOTO_STYLES.filter(style => {
-      const matchesSearch = style.name.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = activeCategory === 'All' || style.category === activeCategory;
+    return styles.filter(style => {
+      // Match the displayed name as well as the original, so either language finds a style
+      const query = searchTerm.toLowerCase();
+      const matchesSearch = styleName(style).toLowerCase().includes(query) || style.name.toLowerCase().includes(query);
+      const matchesCategory = activeCategory === 'All'
+        || (activeCategory === CUSTOM_FILTER ? !!style.isCustom : style.category === activeCategory);
       return matchesSearch && matchesCategory;
     });
-  }, [searchTerm, activeCategory]);
+  }, [styles, searchTerm, activeCategory, styleName]);
 
   const resultsArray = Object.values(results) as GeneratedImage[];
   const completedImages = resultsArray.filter(r => r.status === 'completed');
@@ -58,6 +105,8 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
   // Determine Main Action Button state
   const selectedIdleCount = resultsArray.filter(r => r.status === 'idle' && selectedIds.has(r.styleId)).length;
   const selectedCompletedCount = resultsArray.filter(r => r.status === 'completed' && selectedIds.has(r.styleId)).length;
+  // Every selected style is queued once per candidate
+  const queuedImageCount = selectedIdleCount * variantCount;
 
   // 2. Conditional Return AFTER hooks
   const hasStarted = Object.keys(results).length > 0;
@@ -68,19 +117,35 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
       <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <span className="w-2 h-8 bg-indigo-500 rounded-full"></span>
-          Choose Styles
+          {t('grid.title')}
           <span className="text-sm font-normal text-slate-500 ml-2">
-             ({completedCount} / {PHOTO_STYLES.length} Completed)
+             {t('grid.progress', { completed: completedCount, total: styles.length })}
           </span>
         </h2>
         
         <div className="flex items-center gap-3">
+            <button
+                onClick={onOpenStyleEditor}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 font-medium transition-colors border border-slate-700"
+            >
+                <Wand2 className="w-4 h-4 text-fuchsia-400" />
+                {t('grid.myStyles')}
+            </button>
+
+            <button
+                onClick={() => onOpenPromptEditor()}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 font-medium transition-colors border border-slate-700"
+            >
+                <FileText className="w-4 h-4 text-sky-400" />
+                {t('promptEditor.open')}
+            </button>
+
             <button
                 onClick={onSelectAll}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 font-medium transition-colors border border-slate-700"
             >
                 {allSelected ? <CheckSquare className="w-4 h-4 text-indigo-400" /> : <Square className="w-4 h-4" />}
-                {allSelected ? 'Deselect All' : `Select All ${hasIdle ? 'Available' : 'Completed'}`}
+                {allSelected ? t('grid.deselectAll') : hasIdle ? t('grid.selectAllAvailable') : t('grid.selectAllCompleted')}
             </button>
             
             {/* Desktop Action Buttons */}
@@ -90,17 +155,28 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                  className="hidden sm:flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-full text-white font-bold shadow-lg hover:shadow-indigo-500/20 transition-all transform hover:scale-105"
              >
                  <Play className="w-5 h-5 fill-current" />
-                 Generate ({selectedIdleCount})
+                 {t('grid.generateCount', { count: queuedImageCount })}
              </button>
             )}
 
+            {selectedCompletedCount > 0 && selectedIdleCount === 0 && (
+            <button
+                onClick={onOpenCollage}
+                className="hidden sm:flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 font-medium transition-colors border border-slate-700"
+                title={t('collage.openHint')}
+            >
+                <Images className="w-4 h-4 text-amber-400" />
+                {t('collage.open')}
+            </button>
+            )}
+
             {selectedCompletedCount > 0 && selectedIdleCount === 0 && (
             <button 
                 onClick={onOpenAlbum}
                 className="hidden sm:flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-500 rounded-full text-white font-bold shadow-lg hover:shadow-orange-500/20 transition-all transform hover:scale-105"
             >
                 <BookOpen className="w-5 h-5" />
-                Create Album ({selectedCompletedCount})
+                {t('grid.createAlbum', { count: selectedCompletedCount })}
             </button>
             )}
         </div>
@@ -113,7 +189,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
             <input 
                 type="text" 
-                placeholder="Search styles..." 
+                placeholder={t('grid.searchPlaceholder')} 
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-10 pr-8 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-500"
@@ -128,6 +204,40 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
               )}
         </div>
 
+        {/* Output Settings */}
+        <div className="flex items-center gap-2 flex-shrink-0" title={t('output.sessionHint')}>
+            <Ratio className="w-4 h-4 text-slate-400" />
+            <select
+                value={output.aspectRatio}
+                onChange={(e) => onOutputChange({ ...output, aspectRatio: e.target.value as AspectRatio })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none"
+                aria-label={t('output.aspectRatio')}
+            >
+                {supportedAspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            <select
+                value={output.imageSize}
+                onChange={(e) => onOutputChange({ ...output, imageSize: e.target.value as ImageSize })}
+                disabled={supportedImageSizes.length < 2}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none disabled:opacity-50"
+                aria-label={t('output.imageSize')}
+            >
+                {supportedImageSizes.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+            <Layers className="w-4 h-4 text-slate-400 ml-2" />
+            <select
+                value={variantCount}
+                onChange={(e) => onVariantCountChange(Number(e.target.value))}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none"
+                aria-label={t('output.variants')}
+                title={t('output.variantsHint')}
+            >
+                {Array.from({ length: maxVariants }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>{t('output.variantOption', { count })}</option>
+                ))}
+            </select>
+        </div>
+
         {/* Divider */}
         <div className="hidden md:block w-px h-8 bg-slate-700 mx-2"></div>
 
@@ -144,7 +254,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                             : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:bg-slate-750'
                         }`}
                     >
-                        {cat}
+                        {filterLabel(cat)}
                     </button>
                 ))}
             </div>
@@ -154,12 +264,12 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
       {filteredStyles.length === 0 ? (
         <div className="text-center py-20 bg-slate-900/30 rounded-xl border border-dashed border-slate-800">
             <Search className="w-12 h-12 text-slate-700 mx-auto mb-4" />
-            <p className="text-slate-500 text-lg">No styles found matching your criteria.</p>
+            <p className="text-slate-500 text-lg">{t('grid.noResults')}</p>
             <button 
                 onClick={() => { setSearchTerm(''); setActiveCategory('All'); }}
                 className="mt-4 text-indigo-400 hover:text-indigo-300 text-sm font-medium"
             >
-                Clear Filters
+                {t('grid.clearFilters')}
             </button>
         </div>
       ) : (
@@ -169,6 +279,11 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
             const isSelected = selectedIds.has(style.id);
             const isCompleted = result.status === 'completed';
             const isIdle = result.status === 'idle';
+            const override = styleAspectOverrides[style.id];
+            // Completed tiles show the frame they were generated in; others preview what they will get
+            const tileAspect = (isCompleted && result.aspectRatio) || override || output.aspectRatio;
+            const variants = result.variants || [];
+            const finishedVariants = variants.filter(v => v.status === 'completed' || v.status === 'failed').length;
             
             return (
                 <div 
@@ -189,6 +304,43 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                     </div>
                 )}
 
+                {/* Custom Style Marker */}
+                {style.isCustom && (
+                    <div className="absolute bottom-9 right-2 z-20 flex items-center gap-1 px-1.5 py-0.5 rounded bg-fuchsia-600/80 text-white text-[9px] font-bold uppercase tracking-wider backdrop-blur-sm pointer-events-none">
+                        <Wand2 className="w-2.5 h-2.5" /> {t('grid.customBadge')}
+                    </div>
+                )}
+
+                {/* Per-Style Aspect Override */}
+                {isIdle && (
+                    <select
+                        value={override || ''}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => onStyleAspectChange(style.id, (e.target.value || null) as AspectRatio | null)}
+                        className={`absolute top-3 left-3 z-20 bg-black/50 border border-white/10 rounded text-[10px] text-white px-1 py-0.5 outline-none backdrop-blur-sm transition-opacity ${
+                            override ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                        }`}
+                        title={t('output.styleOverride')}
+                    >
+                        <option value="" className="bg-slate-800">{t('output.useDefault', { ratio: output.aspectRatio })}</option>
+                        {supportedAspectRatios.map(ratio => <option key={ratio} value={ratio} className="bg-slate-800">{ratio}</option>)}
+                    </select>
+                )}
+
+                {/* Prompt Preview (Visible on Hover for Idle) */}
+                {isIdle && (
+                    <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onOpenPromptEditor(style.id);
+                    }}
+                    className="absolute bottom-3 left-3 z-20 p-1.5 rounded-full bg-black/40 hover:bg-black/70 text-white/70 hover:text-white backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-all border border-white/10"
+                    title={t('promptEditor.previewStyle')}
+                    >
+                    <FileText className="w-3.5 h-3.5" />
+                    </button>
+                )}
+
                 {/* Regenerate Button (Visible on Hover for Completed) */}
                 {isCompleted && (
                     <button
@@ -197,12 +349,54 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                         onRetry(style.id);
                     }}
                     className="absolute top-3 left-3 z-20 p-1.5 rounded-full bg-black/40 hover:bg-black/70 text-white/70 hover:text-white backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-all border border-white/10"
-                    title="Regenerate this style"
+                    title={t('grid.regenerate')}
                     >
                     <RefreshCw className="w-3.5 h-3.5" />
                     </button>
                 )}
 
+                {/* Image Actions (Visible on Hover): lightbox and edit for completed, history once there are finished attempts */}
+                {(isCompleted || ((isIdle || result.status === 'failed') && !!result.history?.length)) && (
+                    <div className="absolute bottom-9 left-2 z-20 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {isCompleted && (
+                            <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onOpenLightbox(style.id);
+                            }}
+                            className="p-1.5 rounded-full bg-black/40 hover:bg-black/70 text-white/70 hover:text-white backdrop-blur-sm transition-all border border-white/10"
+                            title={t('lightbox.open')}
+                            >
+                            <Maximize2 className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {isCompleted && (
+                            <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onOpenEditor(style.id);
+                            }}
+                            className="p-1.5 rounded-full bg-black/40 hover:bg-black/70 text-white/70 hover:text-white backdrop-blur-sm transition-all border border-white/10"
+                            title={t('edit.open')}
+                            >
+                            <PenLine className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {!!result.history?.length && (
+                            <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onOpenHistory(style.id);
+                            }}
+                            className="p-1.5 rounded-full bg-black/40 hover:bg-black/70 text-white/70 hover:text-white backdrop-blur-sm transition-all border border-white/10"
+                            title={t('history.open', { count: result.history.length })}
+                            >
+                            <History className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 {/* Card Header (Style Name for Image View) */}
                 {!isIdle && (
                     <div className="absolute top-0 left-0 right-0 z-10 p-3 bg-gradient-to-b from-black/80 to-transparent pointer-events-none">
@@ -215,15 +409,15 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                 )}
 
                 {/* Card Content */}
-                <div className="aspect-[3/4] w-full bg-slate-900 flex items-center justify-center relative">
+                <div className="w-full bg-slate-900 flex items-center justify-center relative" style={{ aspectRatio: aspectRatioCss(tileAspect) }}>
                     {/* IDLE STATE */}
                     {result.status === 'idle' && (
                         <div className="flex flex-col items-center justify-center p-4 text-center h-full w-full bg-gradient-to-br from-slate-800 to-slate-900">
                             <div className={`w-12 h-12 rounded-full mb-3 flex items-center justify-center ${isSelected ? 'bg-indigo-500/20 text-indigo-400' : 'bg-slate-700/50 text-slate-500'}`}>
                                 <span className="font-serif text-lg font-bold">{style.id}</span>
                             </div>
-                            <h3 className={`font-bold mb-1 ${isSelected ? 'text-indigo-300' : 'text-slate-300'}`}>{style.name}</h3>
-                            <p className="text-[10px] text-slate-500 uppercase tracking-wider">{style.category}</p>
+                            <h3 className={`font-bold mb-1 ${isSelected ? 'text-indigo-300' : 'text-slate-300'}`}>{styleName(style)}</h3>
+                            <p className="text-[10px] text-slate-500 uppercase tracking-wider">{categoryLabel(style.category)}</p>
                         </div>
                     )}
 
@@ -231,7 +425,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                     {result.status === 'pending' && (
                     <div className="flex flex-col items-center text-slate-500">
                         <div className="w-8 h-8 rounded-full border-2 border-slate-700 mb-2 border-t-transparent animate-spin"></div>
-                        <span className="text-[10px]">Queued</span>
+                        <span className="text-[10px]">{t('grid.queued')}</span>
                     </div>
                     )}
 
@@ -239,14 +433,19 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                     {result.status === 'generating' && (
                     <div className="flex flex-col items-center text-indigo-400">
                         <Loader2 className="w-8 h-8 animate-spin mb-2" />
-                        <span className="text-[10px] animate-pulse">Generating...</span>
+                        <span className="text-[10px] animate-pulse">{t('grid.generating')}</span>
+                        {variants.length > 1 && (
+                            <span className="text-[10px] text-slate-500 mt-1">{t('grid.variantProgress', { done: finishedVariants, total: variants.length })}</span>
+                        )}
                     </div>
                     )}
 
                     {/* FAILED */}
                     {result.status === 'failed' && (
-                    <div className="flex flex-col items-center text-red-400 p-2 text-center">
+                    <div className="flex flex-col items-center text-red-400 p-2 text-center" title={result.error}>
                         <AlertCircle className="w-6 h-6 mb-2" />
+                        <p className="text-[11px] font-medium mb-1">{t(`errors.${result.errorKind || 'unknown'}` as MessageKey)}</p>
+                        <p className="text-[10px] text-slate-400 mb-2 line-clamp-3">{t(`errors.${result.errorKind || 'unknown'}.hint` as MessageKey)}</p>
                         <button 
                         onClick={(e) => {
                             e.stopPropagation();
@@ -254,7 +453,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                         }}
                         className="text-[10px] bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded-full flex items-center gap-1 transition-colors"
                         >
-                        <RefreshCw className="w-3 h-3" /> Retry
+                        <RefreshCw className="w-3 h-3" /> {t('grid.retry')}
                         </button>
                     </div>
                     )}
@@ -263,7 +462,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                     {result.status === 'completed' && result.imageUrl && (
                     <img 
                         src={result.imageUrl} 
-                        alt={style.name}
+                        alt={styleName(style)}
                         className="w-full h-full object-cover"
                         loading="lazy"
                     />
@@ -272,7 +471,30 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                 
                 {/* Footer (Always visible) */}
                 <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/90 via-black/50 to-transparent">
-                    <p className="text-xs font-medium text-white truncate text-center">{style.name}</p>
+                    {/* Variant Picker: the starred candidate is the one used in the album */}
+                    {isCompleted && variants.length > 1 && (
+                        <div className="flex justify-center gap-1 mb-1">
+                            {variants.map((variant, index) => (
+                                <button
+                                key={index}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onSelectHero(style.id, index);
+                                }}
+                                disabled={variant.status !== 'completed'}
+                                className={`w-5 h-5 rounded-full text-[9px] font-bold border transition-colors disabled:opacity-30 ${
+                                    index === result.heroIndex
+                                    ? 'bg-amber-500 border-amber-400 text-black'
+                                    : 'bg-black/40 border-white/20 text-white/80 hover:bg-black/70'
+                                }`}
+                                title={t('lightbox.makeHero')}
+                                >
+                                {index + 1}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <p className="text-xs font-medium text-white truncate text-center">{styleName(style)}</p>
                 </div>
                 </div>
             );
@@ -292,10 +514,10 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                 <div className="relative">
                 <Play className="w-6 h-6 fill-current" />
                 <span className="absolute -top-2 -right-2 w-5 h-5 bg-white text-indigo-600 rounded-full text-[10px] flex items-center justify-center font-bold">
-                    {selectedIdleCount}
+                    {queuedImageCount}
                 </span>
                 </div>
-                <span className="font-bold text-lg">Generate Selected</span>
+                <span className="font-bold text-lg">{t('grid.generateSelected')}</span>
             </button>
         ) : selectedCompletedCount > 0 ? (
             <button 
@@ -308,7 +530,7 @@ export const StyleGrid: React.FC<StyleGridProps> = ({
                     {selectedCompletedCount}
                 </span>
                 </div>
-                <span className="font-bold text-lg">Open Album</span>
+                <span className="font-bold text-lg">{t('grid.openAlbum')}</span>
             </button>
         ) : null}
       </div>
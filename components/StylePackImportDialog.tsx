@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { X, AlertTriangle, PackageCheck, FileWarning } from 'lucide-react';
+import { PhotoStyle } from '../types';
+import {
+  ConflictResolution,
+  StylePackValidation,
+  findStylePackConflicts
+} from '../services/stylePacks';
+import { MessageKey, useI18n } from '../i18n';
+
+interface StylePackImportDialogProps {
+  fileName: string;
+  validation: StylePackValidation;
+  customStyles: PhotoStyle[];
+  builtInStyles: PhotoStyle[];
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, MessageKey> = {
+  skip: 'stylePack.skip',
+  replace: 'stylePack.replace',
+  keepBoth: 'stylePack.keepBoth',
+};
+
+export const StylePackImportDialog: React.FC<StylePackImportDialogProps> = ({
+  fileName,
+  validation,
+  customStyles,
+  builtInStyles,
+  onConfirm,
+  onCancel
+}) => {
+  const { t } = useI18n();
+  const conflicts = useMemo(
+    () => validation.ok ? findStylePackConflicts(validation.pack, customStyles, builtInStyles) : [],
+    [validation, customStyles, builtInStyles]
+  );
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const resolutionFor = (stableId: string) => resolutions[stableId] || 'skip';
+
+  const applyToAll = (resolution: ConflictResolution) => {
+    const next: Record<string, ConflictResolution> = {};
+    conflicts.forEach(c => {
+      next[c.stableId] = resolution === 'replace' && !c.canReplace ? 'skip' : resolution;
+    });
+    setResolutions(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={(e) => { e.stopPropagation(); onCancel(); }}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            {validation.ok
+              ? <PackageCheck className="w-5 h-5 text-green-400" />
+              : <FileWarning className="w-5 h-5 text-red-400" />}
+            {t('stylePack.title')}
+          </h2>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p className="text-xs text-slate-500 font-mono truncate">{fileName}</p>
+
+          {!validation.ok ? (
+            <div className="space-y-3">
+              <p className="text-sm text-red-300">
+                {t('stylePack.invalid', { count: validation.errors.length })}
+              </p>
+              <ul className="space-y-1 bg-red-500/5 border border-red-500/20 rounded-xl p-3">
+                {validation.errors.map((error, idx) => (
+                  <li key={idx} className="text-sm">
+                    <code className="text-red-300">{error.path}</code>
+                    <span className="text-slate-400"> — {error.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <>
+              <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+                <p className="font-bold text-slate-200">{validation.pack.pack.name}</p>
+                <p className="text-xs text-slate-500 mt-1">
+                  {t('stylePack.summary', {
+                    author: validation.pack.pack.author.name,
+                    count: validation.pack.styles.length,
+                    version: validation.pack.version
+                  })}
+                </p>
+                {validation.pack.pack.description && (
+                  <p className="text-sm text-slate-400 mt-2">{validation.pack.pack.description}</p>
+                )}
+              </div>
+
+              {conflicts.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-amber-300 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {t('stylePack.conflicts', { count: conflicts.length })}
+                    </p>
+                    <div className="flex gap-1">
+                      {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                        <button
+                          key={resolution}
+                          onClick={() => applyToAll(resolution)}
+                          className="px-2 py-1 text-[11px] rounded bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700"
+                        >
+                          {t('stylePack.applyAll', { resolution: t(RESOLUTION_LABELS[resolution]) })}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {conflicts.map(conflict => (
+                    <div key={conflict.stableId} className="flex items-center gap-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-200 truncate">{conflict.incomingName}</p>
+                        <p className="text-[11px] text-slate-500 truncate">
+                          <code>{conflict.stableId}</code> · {t('stylePack.existing', { name: conflict.existing.name })}
+                          {!conflict.canReplace && ` ${t('stylePack.builtIn')}`}
+                        </p>
+                      </div>
+                      <select
+                        value={resolutionFor(conflict.stableId)}
+                        onChange={(e) => setResolutions(prev => ({ ...prev, [conflict.stableId]: e.target.value as ConflictResolution }))}
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none"
+                      >
+                        {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[])
+                          .filter(resolution => resolution !== 'replace' || conflict.canReplace)
+                          .map(resolution => (
+                            <option key={resolution} value={resolution}>{t(RESOLUTION_LABELS[resolution])}</option>
+                          ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-800"
+          >
+            {validation.ok ? t('stylePack.cancel') : t('stylePack.close')}
+          </button>
+          {validation.ok && (
+            <button
+              onClick={() => onConfirm(resolutions)}
+              className="px-4 py-2 rounded-lg text-sm font-bold bg-fuchsia-600 hover:bg-fuchsia-500 text-white"
+            >
+              {t('stylePack.import')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
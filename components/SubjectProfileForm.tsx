@@ -0,0 +1,102 @@
+import React from 'react';
+import { Glasses, Scissors, ScanFace, Palette } from 'lucide-react';
+import { AgeGroup, Gender, SubjectProfile } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface SubjectProfileFormProps {
+  subject: SubjectProfile;
+  onChange: (subject: SubjectProfile) => void;
+}
+
+const GENDER_OPTIONS: { value: Gender; labelKey: MessageKey; activeClass: string }[] = [
+  { value: 'female', labelKey: 'subject.female', activeClass: 'bg-pink-500/20 border-pink-500 text-pink-200' },
+  { value: 'male', labelKey: 'subject.male', activeClass: 'bg-blue-500/20 border-blue-500 text-blue-200' },
+  { value: 'nonbinary', labelKey: 'subject.nonbinary', activeClass: 'bg-amber-500/20 border-amber-500 text-amber-200' },
+  { value: 'unspecified', labelKey: 'subject.unspecified', activeClass: 'bg-indigo-500/20 border-indigo-500 text-indigo-200' },
+];
+
+const AGE_OPTIONS: { value: AgeGroup; labelKey: MessageKey }[] = [
+  { value: 'child', labelKey: 'subject.child' },
+  { value: 'adult', labelKey: 'subject.adult' },
+  { value: 'senior', labelKey: 'subject.senior' },
+];
+
+type KeepOption = 'keepFace' | 'keepGlasses' | 'keepHairstyle' | 'keepSkinTone';
+
+const KEEP_OPTIONS: { key: KeepOption; labelKey: MessageKey; icon: React.ElementType }[] = [
+  { key: 'keepFace', labelKey: 'subject.keepFace', icon: ScanFace },
+  { key: 'keepGlasses', labelKey: 'subject.keepGlasses', icon: Glasses },
+  { key: 'keepHairstyle', labelKey: 'subject.keepHairstyle', icon: Scissors },
+  { key: 'keepSkinTone', labelKey: 'subject.keepSkinTone', icon: Palette },
+];
+
+export const SubjectProfileForm: React.FC<SubjectProfileFormProps> = ({ subject, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<SubjectProfile>) => onChange({ ...subject, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-400 mb-3">{t('subject.genderLabel')}</label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {GENDER_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ gender: option.value })}
+              className={`p-3 rounded-xl border text-sm transition-all ${
+                subject.gender === option.value
+                  ? option.activeClass
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'
+              }`}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-400 mb-3">{t('subject.ageLabel')}</label>
+        <div className="grid grid-cols-3 gap-2">
+          {AGE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ ageGroup: option.value })}
+              className={`p-2 rounded-xl border text-sm transition-all ${
+                subject.ageGroup === option.value
+                  ? 'bg-indigo-500/20 border-indigo-500 text-indigo-200'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'
+              }`}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-400 mb-3">{t('subject.keepLabel')}</label>
+        <div className="grid grid-cols-2 gap-2">
+          {KEEP_OPTIONS.map(({ key, labelKey, icon: Icon }) => (
+            <label
+              key={key}
+              className={`flex items-center gap-2 p-2 rounded-lg border text-sm cursor-pointer transition-colors ${
+                subject[key] ? 'bg-indigo-500/10 border-indigo-500/50 text-slate-200' : 'bg-slate-800 border-slate-700 text-slate-400'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={subject[key]}
+                onChange={(e) => update({ [key]: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <Icon className="w-4 h-4 flex-shrink-0" />
+              <span>{t(labelKey)}</span>
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-slate-600">{t('subject.hint')}</p>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,126 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, User, UserCheck, X } from 'lucide-react';
-import { Gender } from '../types';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, X, Star, ChevronLeft, ChevronRight, Plus, AlertCircle, SlidersHorizontal, Loader2, Crop } from 'lucide-react';
+import { PhotoCrop, SubjectProfile } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import {
+  OutputFormat,
+  PreprocessError,
+  PreprocessOptions,
+  PreprocessResult,
+  loadPreprocessOptions,
+  preprocessImage,
+  savePreprocessOptions
+} from '../services/imagePreprocess';
+import { dataUrlByteSize, formatBytes } from '../services/imageUtils';
+import { CropSettings, renderCrop } from '../services/imageCrop';
+import { CropEditor } from './CropEditor';
+import { SubjectProfileForm } from './SubjectProfileForm';
 
 interface UploadSectionProps {
-  onStart: (image: string, gender: Gender) => void;
+  onStart: (images: string[], crops: (PhotoCrop | null)[]) => void;
   isProcessing: boolean;
+  maxReferences: number;
+  providerLabel: string;
+  initialImages?: string[];
+  initialCrops?: (PhotoCrop | null)[]; // Line up with initialImages
+  subject: SubjectProfile;
+  onSubjectChange: (subject: SubjectProfile) => void;
 }
 
-export const UploadSection: React.FC<UploadSectionProps> = ({ onStart, isProcessing }) => {
-  const [image, setImage] = useState<string | null>(null);
-  const [gender, setGender] = useState<Gender>('female');
+interface UploadedImage {
+  dataUrl: string; // What gets sent: the cropped photo
+  original: string; // Uncropped photo, kept so the user can re-crop without re-uploading
+  crop?: CropSettings;
+  info?: PreprocessResult; // Absent for photos restored from a saved session
+}
+
+interface RejectedFile {
+  fileName: string;
+  message: string;
+}
+
+const MAX_EDGE_OPTIONS = [1024, 1536, 2048];
+const FORMAT_OPTIONS: { value: OutputFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+export const UploadSection: React.FC<UploadSectionProps> = ({
+  onStart,
+  isProcessing,
+  maxReferences,
+  providerLabel,
+  initialImages = [],
+  initialCrops = [],
+  subject,
+  onSubjectChange
+}) => {
+  const { t } = useI18n();
+  // The first image is the primary reference; the rest help the model with other angles
+  const [images, setImages] = useState<UploadedImage[]>(() => initialImages.map((dataUrl, index) => {
+    const crop = initialCrops[index];
+    return crop ? { dataUrl, original: crop.original, crop: crop.settings } : { dataUrl, original: dataUrl };
+  }));
   const [dragActive, setDragActive] = useState(false);
+  const [limitWarning, setLimitWarning] = useState(false);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
+  const [options, setOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+  const [showSettings, setShowSettings] = useState(false);
+  const [croppingIndex, setCroppingIndex] = useState<number | null>(null);
+  // The photos as of the last render; preprocessing is async, so its closure would otherwise see stale ones
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const updateOptions = (patch: Partial<PreprocessOptions>) => {
+    setOptions(prev => {
+      const next = { ...prev, ...patch };
+      savePreprocessOptions(next);
+      return next;
+    });
+  };
+
+  const describeRejection = (error: unknown) => error instanceof PreprocessError
+    ? t(`preprocess.${error.code}` as MessageKey, error.params)
+    : t('preprocess.decode_failed');
+
+  const processFiles = useCallback(async (files: FileList) => {
+    setIsPreprocessing(true);
+    const accepted: UploadedImage[] = [];
+    const failures: RejectedFile[] = [];
+    // Sequential on purpose: decoding several 12 MP photos at once can exhaust memory on phones
+    for (const file of Array.from(files)) {
+      try {
+        const info = await preprocessImage(file, options);
+        accepted.push({ dataUrl: info.dataUrl, original: info.dataUrl, info });
+      } catch (error) {
+        failures.push({ fileName: file.name, message: describeRejection(error) });
+      }
+    }
+    setRejected(failures);
+    setIsPreprocessing(false);
+    const current = imagesRef.current;
+    const next = [...current, ...accepted];
+    setImages(next.slice(0, maxReferences));
+    setLimitWarning(next.length > maxReferences);
+    // Frame the primary photo straight away when it is the first one added
+    if (current.length === 0 && accepted.length > 0) setCroppingIndex(0);
+  }, [maxReferences, options, t]);
+
+  const applyCrop = async (crop: CropSettings) => {
+    const index = croppingIndex;
+    setCroppingIndex(null);
+    if (index === null || !images[index]) return;
+    const image = images[index];
+    try {
+      const { dataUrl, width, height } = await renderCrop(image.original, crop, options);
+      setImages(prev => prev.map((img, i) => i === index
+        ? { ...img, dataUrl, crop, info: img.info && { ...img.info, dataUrl, width, height, bytes: dataUrlByteSize(dataUrl) } }
+        : img));
+    } catch (error) {
+      console.error('Failed to crop image', error);
+    }
+  };
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -26,112 +136,253 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onStart, isProcess
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      processFiles(e.dataTransfer.files);
     }
-  }, []);
+  }, [processFiles]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      processFiles(e.target.files);
     }
+    e.target.value = '';
   };
 
-  const processFile = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        setImage(e.target.result as string);
-      }
-    };
-    reader.readAsDataURL(file);
+  const removeImage = (index: number) => {
+    setImages(prev => prev.filter((_, i) => i !== index));
+    setLimitWarning(false);
   };
 
-  const clearImage = () => setImage(null);
+  const moveImage = (index: number, offset: number) => {
+    setImages(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const makePrimary = (index: number) => {
+    setImages(prev => [prev[index], ...prev.filter((_, i) => i !== index)]);
+  };
+
+  const primaryInfo = images[0]?.info;
+
+  const canAddMore = images.length < maxReferences;
+
+  // Shown with or without accepted photos, so a rejected first upload still explains itself
+  const rejectionList = rejected.length > 0 && (
+    <div className="text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-xl p-3 space-y-1">
+      {rejected.map((r, idx) => (
+        <p key={idx} className="flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span><span className="font-medium">{r.fileName}</span>: {r.message}</span>
+        </p>
+      ))}
+    </div>
+  );
 
   return (
     <div className="w-full max-w-3xl mx-auto my-8 p-6 bg-slate-900/50 border border-slate-800 rounded-2xl shadow-xl backdrop-blur-sm">
-      {!image ? (
-        <div 
-          className={`relative h-64 flex flex-col items-center justify-center border-2 border-dashed rounded-xl transition-all duration-300 ${
-            dragActive ? "border-indigo-500 bg-indigo-500/10" : "border-slate-700 hover:border-slate-500 hover:bg-slate-800/50"
-          }`}
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-        >
-          <input
-            type="file"
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            onChange={handleChange}
-            accept="image/*"
-          />
-          <div className="bg-slate-800 p-4 rounded-full mb-4">
-            <Upload className="w-8 h-8 text-indigo-400" />
+      {images.length === 0 ? (
+        <div className="space-y-4">
+          <div 
+            className={`relative h-64 flex flex-col items-center justify-center border-2 border-dashed rounded-xl transition-all duration-300 ${
+              dragActive ? "border-indigo-500 bg-indigo-500/10" : "border-slate-700 hover:border-slate-500 hover:bg-slate-800/50"
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <input
+              type="file"
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              onChange={handleChange}
+              accept="image/*,.heic,.heif"
+              multiple
+            />
+            <div className="bg-slate-800 p-4 rounded-full mb-4">
+              <Upload className="w-8 h-8 text-indigo-400" />
+            </div>
+            <p className="text-lg font-medium text-slate-200">{t('upload.title')}</p>
+            <p className="text-sm text-slate-500 mt-2">{t('upload.hint')}</p>
+            <p className="text-xs text-slate-600 mt-1">{t('upload.multiHint', { max: maxReferences })}</p>
+            {isPreprocessing && (
+              <p className="absolute bottom-4 flex items-center gap-2 text-xs text-indigo-300">
+                <Loader2 className="w-3 h-3 animate-spin" /> {t('preprocess.working')}
+              </p>
+            )}
           </div>
-          <p className="text-lg font-medium text-slate-200">Upload your portrait</p>
-          <p className="text-sm text-slate-500 mt-2">Drag & drop or click to browse</p>
+          {rejectionList}
         </div>
       ) : (
         <div className="flex flex-col md:flex-row gap-8 items-center">
-          <div className="relative group w-48 h-48 flex-shrink-0">
-            <img 
-              src={image} 
-              alt="Upload" 
-              className="w-full h-full object-cover rounded-xl border-2 border-indigo-500/50 shadow-lg"
-            />
-            <button 
-              onClick={clearImage}
-              className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-            >
-              <X className="w-4 h-4" />
-            </button>
+          <div className="flex-shrink-0 space-y-3">
+            <div className="relative group w-48 h-48">
+              <img 
+                src={images[0].dataUrl} 
+                alt="Upload" 
+                className="w-full h-full object-cover rounded-xl border-2 border-indigo-500/50 shadow-lg"
+              />
+              <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded bg-indigo-600/90 text-white text-[10px] font-bold uppercase tracking-wider">
+                <Star className="w-3 h-3 fill-current" /> {t('upload.primary')}
+              </span>
+              <button
+                onClick={() => setCroppingIndex(0)}
+                className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-white text-[10px] font-medium opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Crop className="w-3 h-3" /> {t('crop.recrop')}
+              </button>
+              <button 
+                onClick={() => removeImage(0)}
+                className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                title={t('upload.remove')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Reference Strip */}
+            <div className="flex gap-2 w-48 flex-wrap">
+              {images.map((img, idx) => idx === 0 ? null : (
+                <div key={idx} className="relative group w-14 h-14">
+                  <img src={img.dataUrl} alt="" className="w-full h-full object-cover rounded-lg border border-slate-700" />
+                  <div className="absolute inset-0 flex items-center justify-center gap-0.5 bg-black/60 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => moveImage(idx, -1)} className="p-0.5 text-white/80 hover:text-white" title={t('upload.moveLeft')}>
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => makePrimary(idx)} className="p-0.5 text-white/80 hover:text-amber-300" title={t('upload.makePrimary')}>
+                      <Star className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => setCroppingIndex(idx)} className="p-0.5 text-white/80 hover:text-white" title={t('crop.recrop')}>
+                      <Crop className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => moveImage(idx, 1)} className="p-0.5 text-white/80 hover:text-white" title={t('upload.moveRight')}>
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => removeImage(idx)}
+                    className="absolute -top-1.5 -right-1.5 bg-red-500 text-white p-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={t('upload.remove')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {canAddMore && (
+                <label
+                  className="w-14 h-14 flex items-center justify-center rounded-lg border border-dashed border-slate-700 text-slate-500 hover:text-indigo-300 hover:border-indigo-500/50 cursor-pointer transition-colors"
+                  title={t('upload.addMore')}
+                >
+                  <Plus className="w-5 h-5" />
+                  <input type="file" className="hidden" onChange={handleChange} accept="image/*,.heic,.heif" multiple />
+                </label>
+              )}
+            </div>
+            <p className="text-[11px] text-slate-500 w-48">
+              {t('upload.referenceCount', { count: images.length, max: maxReferences })}
+            </p>
+            {primaryInfo && (
+              <p className="text-[11px] text-slate-400 w-48 font-mono">
+                {t('preprocess.summary', {
+                  from: formatBytes(primaryInfo.originalBytes),
+                  to: formatBytes(primaryInfo.bytes),
+                  width: primaryInfo.width,
+                  height: primaryInfo.height
+                })}
+                {primaryInfo.orientation > 1 && <span className="block text-slate-500">{t('preprocess.rotated')}</span>}
+              </p>
+            )}
           </div>
 
           <div className="flex-1 w-full space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-slate-400 mb-3">Select Gender for Styling</label>
-              <div className="grid grid-cols-2 gap-4">
-                <button
-                  onClick={() => setGender('female')}
-                  className={`flex items-center justify-center gap-3 p-4 rounded-xl border transition-all ${
-                    gender === 'female' 
-                      ? 'bg-pink-500/20 border-pink-500 text-pink-200' 
-                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'
-                  }`}
-                >
-                  <User className="w-5 h-5" />
-                  <span>Female</span>
-                </button>
-                <button
-                  onClick={() => setGender('male')}
-                  className={`flex items-center justify-center gap-3 p-4 rounded-xl border transition-all ${
-                    gender === 'male' 
-                      ? 'bg-blue-500/20 border-blue-500 text-blue-200' 
-                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'
-                  }`}
-                >
-                  <UserCheck className="w-5 h-5" />
-                  <span>Male</span>
-                </button>
+            {rejectionList}
+
+            {limitWarning && (
+              <div className="flex items-start gap-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-xl p-3">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{t('upload.maxReferences', { provider: providerLabel, max: maxReferences })}</span>
               </div>
+            )}
+
+            <SubjectProfileForm subject={subject} onChange={onSubjectChange} />
+
+            {/* Upload Settings */}
+            <div>
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center gap-2 text-xs text-slate-500 hover:text-slate-300"
+              >
+                <SlidersHorizontal className="w-3.5 h-3.5" /> {t('preprocess.settings')}
+              </button>
+              {showSettings && (
+                <div className="mt-3 grid grid-cols-3 gap-3 text-xs">
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('preprocess.maxEdge')}</span>
+                    <select
+                      value={options.maxEdge}
+                      onChange={(e) => updateOptions({ maxEdge: Number(e.target.value) })}
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200 outline-none"
+                    >
+                      {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('preprocess.format')}</span>
+                    <select
+                      value={options.format}
+                      onChange={(e) => updateOptions({ format: e.target.value as OutputFormat })}
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200 outline-none"
+                    >
+                      {FORMAT_OPTIONS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('preprocess.quality', { quality: Math.round(options.quality * 100) })}</span>
+                    <input
+                      type="range"
+                      min={0.6}
+                      max={1}
+                      step={0.05}
+                      value={options.quality}
+                      onChange={(e) => updateOptions({ quality: Number(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </label>
+                  <p className="col-span-3 text-slate-600">{t('preprocess.settingsHint')}</p>
+                </div>
+              )}
             </div>
 
             <button
-              onClick={() => onStart(image, gender)}
+              onClick={() => onStart(
+                images.map(img => img.dataUrl),
+                images.map(img => img.crop ? { original: img.original, settings: img.crop } : null)
+              )}
               className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all ${
                 isProcessing 
                   ? 'bg-slate-700 text-slate-400 cursor-not-allowed'
                   : 'bg-gradient-to-r from-indigo-600 via-purple-600 to-indigo-600 text-white hover:shadow-indigo-500/25 hover:scale-[1.01] active:scale-[0.99] bg-[length:200%_auto] animate-gradient'
               }`}
             >
-              {isProcessing ? 'Processing...' : 'Continue to Style Selection'}
+              {isProcessing ? t('upload.processing') : t('upload.continue')}
             </button>
           </div>
         </div>
       )}
+
+      {croppingIndex !== null && images[croppingIndex] && (
+        <CropEditor
+          src={images[croppingIndex].original}
+          initialCrop={images[croppingIndex].crop}
+          onApply={applyCrop}
+          onCancel={() => setCroppingIndex(null)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, Globe, Loader } from 'lucide-react';
+import { AlbumItem, AlbumTheme } from '../types';
+import { createWebAlbum } from '../services/webAlbum';
+import { exportAlbumImage } from '../services/share';
+import { ProvenanceInfo } from '../services/provenance';
+import { BrandingSettings } from '../services/branding';
+import { blobToDataUrl, safeFileName } from '../services/imageUtils';
+import { downloadBlob } from '../services/download';
+import { useI18n } from '../i18n';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface WebAlbumDialogProps {
+  items: AlbumItem[]; // In album order, with edited titles and captions
+  theme: AlbumTheme;
+  albumTitle: string;
+  branding: BrandingSettings;
+  provenanceOf: (item: AlbumItem) => ProvenanceInfo;
+  onClose: () => void;
+}
+
+export const WebAlbumDialog: React.FC<WebAlbumDialogProps> = ({ items, theme, albumTitle, branding, provenanceOf, onClose }) => {
+  const { t, locale, formatDate } = useI18n();
+  const [title, setTitle] = useState(() => albumTitle || t('album.title'));
+  const [captions, setCaptions] = useState(true);
+  const [clean, setClean] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // One at a time, so a large album doesn't decode every image at once
+      const images: string[] = [];
+      for (const item of items) {
+        images.push(await blobToDataUrl(await exportAlbumImage(item, clean ? null : branding, provenanceOf(item))));
+      }
+      const bookTitle = title.trim() || t('album.title');
+      const html = createWebAlbum(items, images, { title: bookTitle, theme, captions }, {
+        lang: locale,
+        subtitle: t('webAlbum.subtitle', { count: items.length, date: formatDate(Date.now()) }),
+        cover: t('album.cover'),
+        previous: t('webAlbum.previous'),
+        next: t('webAlbum.next'),
+        hint: t('webAlbum.navigation'),
+        disclosure: t('webAlbum.disclosure'),
+        collection: category => t('album.collection', { category })
+      });
+      downloadBlob(html, `${safeFileName(bookTitle, 'AI_Photo_Studio_Album')}.html`);
+      onClose();
+    } catch (error) {
+      console.error('Failed to build web album', error);
+      alert(t('webAlbum.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Globe className="w-5 h-5 text-indigo-400" /> {t('webAlbum.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <label className="block space-y-1.5">
+            <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('webAlbum.albumTitle')}</span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={captions} onChange={(e) => setCaptions(e.target.checked)} className="accent-indigo-500" />
+              {t('webAlbum.captions')}
+            </label>
+            <CleanExportToggle branding={branding} clean={clean} onChange={setClean} />
+          </div>
+
+          <p className="text-xs text-slate-500">{t('webAlbum.hint')}</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-800">
+          <span className="text-xs text-slate-500">{t('photobook.imageCount', { count: items.length })}</span>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isExporting ? <Loader className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+            {isExporting ? t('webAlbum.exporting') : t('webAlbum.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { X, Download, Loader, FileArchive } from 'lucide-react';
+import { AlbumLayout, GeneratedImage, OutputSettings, PhotoStyle, SubjectProfile } from '../types';
+import { FILE_NAME_PATTERNS, FileNamePattern, createAlbumArchive } from '../services/albumArchive';
+import { downloadBlob } from '../services/download';
+import { BrandingSettings } from '../services/branding';
+import { MessageKey, useI18n } from '../i18n';
+import { CleanExportToggle } from './CleanExportToggle';
+
+interface ZipExportDialogProps {
+  styles: PhotoStyle[];
+  selectedIds: Set<number>;
+  results: Record<number, GeneratedImage>;
+  sourceImage: string | null;
+  subject: SubjectProfile;
+  output: OutputSettings;
+  album: AlbumLayout; // Page order and edited text, recorded in the manifest
+  branding: BrandingSettings;
+  onClose: () => void;
+}
+
+export const ZipExportDialog: React.FC<ZipExportDialogProps> = ({
+  styles,
+  selectedIds,
+  results,
+  sourceImage,
+  subject,
+  output,
+  album,
+  branding,
+  onClose
+}) => {
+  const { t, styleName } = useI18n();
+  const [pattern, setPattern] = useState<FileNamePattern>('id');
+  const [includeSource, setIncludeSource] = useState(false);
+  const [clean, setClean] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+
+  const handleDownload = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await createAlbumArchive(
+        { styles, selectedIds, results, sourceImage, subject, output, album, displayName: styleName },
+        { pattern, includeSource, branding: clean ? null : branding }
+      );
+      downloadBlob(zip, 'AI_Photo_Studio_Album.zip');
+      onClose();
+    } catch (error) {
+      console.error('Failed to zip images', error);
+      alert(t('album.zipFailed'));
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FileArchive className="w-5 h-5 text-indigo-400" /> {t('zipExport.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <div className="space-y-2">
+            <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">{t('zipExport.pattern')}</span>
+            {FILE_NAME_PATTERNS.map(option => (
+              <label
+                key={option}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  pattern === option ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-600'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="zip-pattern"
+                  checked={pattern === option}
+                  onChange={() => setPattern(option)}
+                  className="mt-1 accent-indigo-500"
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm text-slate-200">{t(`zipExport.pattern.${option}` as MessageKey)}</span>
+                  <span className="block text-xs text-slate-500 font-mono truncate">{t(`zipExport.pattern.${option}.example` as MessageKey)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <label className={`flex items-center gap-2 text-sm cursor-pointer ${sourceImage ? 'text-slate-300' : 'text-slate-600 cursor-not-allowed'}`}>
+            <input
+              type="checkbox"
+              checked={includeSource && !!sourceImage}
+              disabled={!sourceImage}
+              onChange={(e) => setIncludeSource(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            {t('zipExport.includeSource')}
+          </label>
+
+          <CleanExportToggle branding={branding} clean={clean} onChange={setClean} />
+
+          <p className="text-xs text-slate-500">{t('zipExport.manifestHint')}</p>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={handleDownload}
+            disabled={isZipping}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isZipping ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isZipping ? t('album.zipping') : t('album.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -29,8 +29,11 @@ export const PHOTO_STYLES: PhotoStyle[] = [
   { id: 22, category: "Minimal", name: "北欧清冷人像", promptSuffix: "Nordic minimal cold tone, white snow or grey concrete, clean lines, desaturated colors, winter vibes" },
   { id: 23, category: "Youth", name: "校园青春系", promptSuffix: "Campus youth, school uniform or casual hoodie, library or playground, fresh face, nostalgic school days" },
   { id: 24, category: "Sport", name: "都市夜跑运动风", promptSuffix: "Urban night runner, activewear, motion blur background, city street lights, sweat, intense focus" },
-  { id: 25, category: "Art", name: "复古油画感人像", promptSuffix: "Oil painting style portrait, textured brushstrokes, classical lighting, museum quality, rich colors" },
-  { id: 26, category: "Creative", name: "Q版动画风", promptSuffix: "Chibi anime style, Q-version character, cute big head small body proportions, large expressive eyes, kawaii aesthetic, soft colorful lighting, 3D render or high quality illustration" },
+  { id: 25, category: "Art", name: "复古油画感人像", promptSuffix: "Oil painting style portrait, textured brushstrokes, classical lighting, museum quality, rich colors",
+    promptOverrides: { fidelity: "Preserve the likeness and identity of the {{subject}}, rendered with visible painterly brushwork rather than photographic detail." } },
+  { id: 26, category: "Creative", name: "Q版动画风", promptSuffix: "Chibi anime style, Q-version character, cute big head small body proportions, large expressive eyes, kawaii aesthetic, soft colorful lighting, 3D render or high quality illustration",
+    promptTemplateId: "illustration",
+    promptOverrides: { fidelity: "Keep the {{subject}} recognizable through hairstyle, hair color, face shape and signature features such as glasses or freckles, while simplifying and exaggerating proportions as the chibi style requires." } },
   { id: 27, category: "Sci-Fi", name: "科幻光束摄影", promptSuffix: "Sci-fi light beam, laser lights, geometric shadows, futuristic studio, glowing lines" },
   { id: 28, category: "Retro", name: "蒸汽波色彩系", promptSuffix: "Vaporwave aesthetic, purple and teal gradient, retro 80s computer graphics, marble statues, glitch art" },
   { id: 29, category: "Art", name: "梦境反射水面", promptSuffix: "Dream reflection, water surface ripples, surreal composition, double exposure, mirrored world" },
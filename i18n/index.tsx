@@ -0,0 +1,121 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { PhotoStyle } from '../types';
+import { PHOTO_STYLES } from '../constants';
+import { en, MessageKey } from './messages/en';
+import { zhCN } from './messages/zh-CN';
+import { BUILT_IN_STYLE_NAMES_EN, CATEGORY_LABELS_ZH } from './styleNames';
+
+export type { MessageKey } from './messages/en';
+
+export type Locale = 'en' | 'zh-CN';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'zh-CN', label: '简体中文' },
+];
+
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+const STORAGE_KEY = 'ai-photo-studio.locale';
+const BUILT_IN_CATEGORIES = new Set(PHOTO_STYLES.map(s => s.category));
+
+export type TranslateParams = Record<string, string | number>;
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  styleName: (style: PhotoStyle) => string;
+  categoryLabel: (category: string) => string;
+  formatDate: (timestamp: number) => string;
+}
+
+// Fallbacks are wrapped so untranslated strings stand out in the UI and are easy to hunt down
+const reportedGaps = new Set<string>();
+const markMissing = (text: string, locale: Locale, id: string) => {
+  const gap = `${locale}:${id}`;
+  if (!reportedGaps.has(gap)) {
+    reportedGaps.add(gap);
+    console.warn(`[i18n] Missing ${locale} translation for "${id}"`);
+  }
+  return `⟦${text}⟧`;
+};
+
+const interpolate = (template: string, params?: TranslateParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+const lookup = (catalog: Partial<Record<MessageKey, string>>, key: MessageKey, params?: TranslateParams) => {
+  if (params?.count === 1) {
+    const singular = catalog[`${key}_one` as MessageKey];
+    if (singular !== undefined) return singular;
+  }
+  return catalog[key];
+};
+
+const detectLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored && stored in CATALOGS) return stored as Locale;
+  return navigator.language?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const t = useCallback((key: MessageKey, params?: TranslateParams) => {
+    const translated = lookup(CATALOGS[locale], key, params);
+    if (translated !== undefined) return interpolate(translated, params);
+    return markMissing(interpolate(lookup(en, key, params) ?? key, params), locale, key);
+  }, [locale]);
+
+  const styleName = useCallback((style: PhotoStyle) => {
+    const localized = style.names?.[locale];
+    if (localized) return localized;
+    if (!style.isCustom) {
+      // Built-in `name` values are the Simplified Chinese originals
+      if (locale === 'zh-CN') return style.name;
+      const english = BUILT_IN_STYLE_NAMES_EN[style.id];
+      return english || markMissing(style.name, locale, `style.${style.id}`);
+    }
+    // Imported styles that carry translations, just not for this locale
+    if (style.names && Object.keys(style.names).length > 0) {
+      return markMissing(style.name, locale, `style.${style.stableId || style.id}`);
+    }
+    // Hand-made styles are shown exactly as their author typed them
+    return style.name;
+  }, [locale]);
+
+  const categoryLabel = useCallback((category: string) => {
+    if (locale === 'en') return category;
+    const label = CATEGORY_LABELS_ZH[category];
+    if (label) return label;
+    return BUILT_IN_CATEGORIES.has(category) ? markMissing(category, locale, `category.${category}`) : category;
+  }, [locale]);
+
+  const formatDate = useCallback(
+    (timestamp: number) => new Date(timestamp).toLocaleString(locale),
+    [locale]
+  );
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t, styleName, categoryLabel, formatDate }),
+    [locale, t, styleName, categoryLabel, formatDate]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used within an I18nProvider');
+  return context;
+};
@@ -0,0 +1,435 @@
+// Source catalog: every key must exist here. `_one` variants are picked when `count` is 1.
+export const en = {
+  'header.title': 'AI Photo Studio',
+  'header.subtitle': 'Nano Banana Edition',
+  'header.sessions': 'Sessions',
+  'header.badge': '100+ Premium Styles',
+  'header.language': 'Language',
+  'header.queueSettings': 'Queue',
+  'header.verify': 'Verify',
+  'header.branding': 'Branding',
+  'header.brandingOn': 'Exports are watermarked',
+
+  'upload.title': 'Upload your portrait',
+  'upload.hint': 'Drag & drop or click to browse',
+  'upload.processing': 'Processing...',
+  'upload.continue': 'Continue to Style Selection',
+  'upload.multiHint': 'Add up to {max} photos of the same person for better likeness',
+  'upload.primary': 'Primary',
+  'upload.makePrimary': 'Use as primary',
+  'upload.moveLeft': 'Move left',
+  'upload.moveRight': 'Move right',
+  'upload.remove': 'Remove',
+  'upload.addMore': 'Add reference photos',
+  'upload.referenceCount': '{count} of {max} reference photos. Side profiles and full-body shots help most.',
+  'upload.referenceCount_one': '1 of {max} reference photos. Add side profiles or full-body shots for better likeness.',
+  'upload.maxReferences': '{provider} accepts at most {max} reference photos per request. Extra photos were not added.',
+
+  'subject.genderLabel': 'Who is in the photo?',
+  'subject.female': 'Woman',
+  'subject.male': 'Man',
+  'subject.nonbinary': 'Non-binary',
+  'subject.unspecified': 'Prefer not to say',
+  'subject.ageLabel': 'Age group',
+  'subject.child': 'Child',
+  'subject.adult': 'Adult',
+  'subject.senior': 'Senior',
+  'subject.keepLabel': 'Keep from the original photo',
+  'subject.keepFace': 'Face exactly, no retouching',
+  'subject.keepGlasses': 'Glasses',
+  'subject.keepHairstyle': 'Hairstyle',
+  'subject.keepSkinTone': 'Skin tone exactly',
+  'subject.hint': 'Changes apply to styles you queue from now on.',
+
+  'preprocess.working': 'Optimizing photos...',
+  'preprocess.summary': '{from} → {to} · {width}×{height}px',
+  'preprocess.rotated': 'Orientation corrected from camera data',
+  'preprocess.settings': 'Upload settings',
+  'preprocess.maxEdge': 'Max edge',
+  'preprocess.format': 'Format',
+  'preprocess.quality': 'Quality {quality}%',
+  'preprocess.settingsHint': 'Photos are resized and re-encoded in your browser before upload to save quota and avoid failed requests. Applies to newly added photos.',
+  'preprocess.not_image': 'This file type ({type}) is not a supported image.',
+  'preprocess.vector': 'SVG files are drawings, not photos. Please upload a JPEG, PNG or WebP photo.',
+  'preprocess.heic_unsupported': 'This browser cannot open HEIC/HEIF photos. Export it as JPEG (or set your camera to "Most Compatible") and try again.',
+  'preprocess.decode_failed': 'The image could not be read. It may be corrupted or in an unsupported format.',
+  'preprocess.too_small': 'The image is only {width}×{height}px. Use a photo at least {min}px on its shortest side so the face is clearly visible.',
+
+  'crop.title': 'Frame your photo',
+  'crop.aspect': 'Aspect',
+  'crop.original': 'Original',
+  'crop.zoom': 'Zoom',
+  'crop.rotation': 'Rotation {degrees}°',
+  'crop.rotateLeft': 'Rotate left',
+  'crop.rotateRight': 'Rotate right',
+  'crop.faceGuide': 'Center the face in the oval',
+  'crop.hint': 'Drag to move, scroll or use the slider to zoom. A larger face gives the model more detail to keep your likeness.',
+  'crop.reset': 'Reset',
+  'crop.apply': 'Apply',
+  'crop.recrop': 'Crop',
+
+  'queue.paused': 'Generation Paused',
+  'queue.processing': 'Processing Queue ({count} remaining)',
+  'queue.resume': 'Resume Generation',
+  'queue.pause': 'Pause',
+  'queue.pacing': 'Pacing requests to respect API limits...',
+  'queue.backingOff': 'Backing off after a temporary error...',
+  'queue.haltedTitle': 'Queue stopped: {reason}',
+  'queue.breakerTitle': 'Generation Paused: High Error Rate',
+  'queue.breakerBody': 'We encountered multiple errors (Rate Limit or Server Error). The queue has been paused to prevent further issues. Please wait a minute before clicking "Resume".',
+  'queue.tooManyErrors': 'Too many errors. Paused.',
+
+  'queuePanel.show': 'Show queue ({count})',
+  'queuePanel.hide': 'Hide queue',
+  'queuePanel.cancel': 'Cancel',
+  'queuePanel.cancelAll': 'Cancel all',
+  'queuePanel.moveToTop': 'Move to top',
+  'queuePanel.dragHint': 'Drag queued styles to change their order.',
+  'queuePanel.variant': 'variant {index}/{count}',
+
+  'lightbox.open': 'View candidates',
+  'lightbox.variantOf': 'Variant {index} of {count}',
+  'lightbox.makeHero': 'Use this one',
+  'lightbox.isHero': 'In the album',
+  'lightbox.cancelled': 'Cancelled',
+
+  'history.open': 'History ({count} attempts)',
+  'history.open_one': 'History (1 attempt)',
+  'history.title': 'History · {name}',
+  'history.empty': 'No finished attempts yet.',
+  'history.current': 'Current',
+  'history.prompt': 'Prompt',
+  'history.restore': 'Restore',
+  'history.rerun': 'Re-run',
+  'history.rerunHint': 'Queue this attempt again with the same prompt, subject and output settings',
+  'history.compare': 'Compare',
+  'history.compareHint': 'Pick two thumbnails to compare them side by side.',
+  'history.pickToCompare': 'Pick for comparison',
+  'history.compareTitle': 'Compare · {name}',
+  'history.useThis': 'Use this version',
+  'history.edited': 'Edited: {instructions}',
+
+  'edit.open': 'Edit with instructions',
+  'edit.title': 'Edit · {name}',
+  'edit.chain': 'Instructions so far',
+  'edit.chainEmpty': 'No edits yet. Describe a change and it is applied to the current image.',
+  'edit.applying': 'Applying edit...',
+  'edit.restorePrevious': 'Go back to the previous version',
+  'edit.placeholder': 'e.g. make the suit navy, remove the umbrella, warmer light',
+  'edit.send': 'Apply Edit',
+  'edit.hint': 'Each edit is queued like any other request and creates a new version in the history.',
+
+  'session.resumeTitle': 'Resume "{name}"?',
+  'session.resumeSummary': '{completed} completed · last saved {date}',
+  'session.resumeQueued': '{count} still queued',
+  'session.startFresh': 'Start Fresh',
+  'session.resume': 'Resume Session',
+  'session.defaultName': 'Session {date}',
+  'session.restoreFailed': 'Failed to restore session.',
+
+  'sessions.title': 'Saved Sessions',
+  'sessions.empty': 'No saved sessions yet. Upload a photo to start one.',
+  'sessions.current': 'Current',
+  'sessions.completed': '{count} completed',
+  'sessions.queued': '{count} queued',
+  'sessions.rename': 'Rename',
+  'sessions.saveName': 'Save name',
+  'sessions.delete': 'Delete',
+  'sessions.open': 'Open',
+  'sessions.confirmDelete': 'Delete session "{name}"? Its generated images will be lost.',
+  'sessions.renameFailed': 'Failed to rename the session.',
+  'sessions.deleteFailed': 'Failed to delete the session.',
+  'sessions.import': 'Import album',
+  'sessions.importHint': 'Restore an album ZIP exported from this app as a new session',
+  'sessions.importSkipped': '{count} images were skipped because their style is not available here.',
+  'sessions.importSkipped_one': '1 image was skipped because its style is not available here.',
+  'sessions.importFailed': 'Failed to import the album.',
+  'sessions.importError.not_zip': 'This file is not a ZIP archive.',
+  'sessions.importError.no_manifest': 'This ZIP has no manifest.json. Only albums exported from this app can be imported.',
+  'sessions.importError.invalid_manifest': 'The manifest.json in this ZIP is damaged or not an album manifest.',
+  'sessions.importError.newer_version': 'This album was exported by a newer version of the app.',
+  'sessions.importError.branded': 'This album was exported with your watermark. Export it again as a clean export to import it.',
+  'sessions.importError.no_matches': 'None of the images in this album match a style available here.',
+
+  'zipExport.title': 'Download Album ZIP',
+  'zipExport.pattern': 'File names',
+  'zipExport.pattern.id': 'By style number',
+  'zipExport.pattern.id.example': '12_Film_Noir.jpg',
+  'zipExport.pattern.category': 'In a folder per category',
+  'zipExport.pattern.category.example': 'Classic/Film_Noir.jpg',
+  'zipExport.pattern.name': 'By English style name',
+  'zipExport.pattern.name.example': 'Film_Noir.jpg',
+  'zipExport.includeSource': 'Include the original photo',
+  'zipExport.manifestHint': 'A manifest.json records the prompt, model and settings of every image. Import the ZIP from Saved Sessions to restore it.',
+
+  'errors.rate_limit': 'Rate limited',
+  'errors.rate_limit.hint': 'Too many requests in a short time. The queue waits as long as the API asks before trying again.',
+  'errors.quota_exhausted': 'Daily quota used up',
+  'errors.quota_exhausted.hint': 'Your API key has used its quota for today. Try again after the quota resets or switch to a key with a higher tier.',
+  'errors.server': 'Temporary server error',
+  'errors.server.hint': 'The service had a hiccup. The request will be retried automatically.',
+  'errors.offline': 'No connection',
+  'errors.offline.hint': 'You appear to be offline. Check your connection; the queue retries once you are back.',
+  'errors.safety': 'Blocked by safety filters',
+  'errors.safety.hint': 'The prompt or the result was blocked. Try a different style or reference photo.',
+  'errors.invalid_input': 'Request rejected',
+  'errors.invalid_input.hint': 'The API did not accept this request. Check the photo format, the custom prompt and the output settings.',
+  'errors.auth': 'API key problem',
+  'errors.auth.hint': 'The API key is missing, invalid or not allowed to use this model. Fix GEMINI_API_KEY in .env.local, restart, then resume.',
+  'errors.unknown': 'Generation failed',
+  'errors.unknown.hint': 'Something unexpected went wrong. Hover for details or retry.',
+
+  'grid.title': 'Choose Styles',
+  'grid.progress': '({completed} / {total} Completed)',
+  'grid.myStyles': 'My Styles',
+  'grid.deselectAll': 'Deselect All',
+  'grid.selectAllAvailable': 'Select All Available',
+  'grid.selectAllCompleted': 'Select All Completed',
+  'grid.generateCount': 'Generate ({count})',
+  'grid.createAlbum': 'Create Album ({count})',
+  'grid.searchPlaceholder': 'Search styles...',
+  'grid.allCategories': 'All',
+  'grid.noResults': 'No styles found matching your criteria.',
+  'grid.clearFilters': 'Clear Filters',
+  'grid.customBadge': 'Custom',
+  'grid.regenerate': 'Regenerate this style',
+  'grid.queued': 'Queued',
+  'grid.generating': 'Generating...',
+  'grid.retry': 'Retry',
+  'grid.generateSelected': 'Generate Selected',
+  'grid.openAlbum': 'Open Album',
+  'grid.variantProgress': '{done} of {total} variants done',
+
+  'output.aspectRatio': 'Aspect ratio',
+  'output.imageSize': 'Resolution',
+  'output.sessionHint': 'Default output for newly queued styles',
+  'output.styleOverride': 'Aspect ratio for this style',
+  'output.useDefault': 'Default ({ratio})',
+  'output.variants': 'Variants per style',
+  'output.variantOption': '×{count}',
+  'output.variantsHint': 'Each variant is a separate request and counts against your quota.',
+
+  'album.title': 'My Portfolio',
+  'album.zipping': 'Zipping...',
+  'album.download': 'Download Album',
+  'album.downloadSingle': 'Download single image',
+  'album.collection': '{category} Collection',
+  'album.description': 'An artistic generated portrait capturing the essence of the {category} aesthetic. Created with Gemini Nano Banana.',
+  'album.zipFailed': 'Failed to generate zip file.',
+  'album.theme': 'Album theme',
+  'album.theme.magazine': 'Magazine',
+  'album.theme.polaroid': 'Polaroid wall',
+  'album.theme.minimal': 'Minimalist gallery',
+  'album.theme.grid': 'Grid spread',
+  'album.cover': 'Cover',
+  'album.coverSubtitle_one': '{count} portrait',
+  'album.coverSubtitle': '{count} portraits',
+  'album.editCoverTitle': 'Album title (click to edit)',
+  'album.editTitle': 'Page title (click to edit; clear it to restore the style name)',
+  'album.editCaption': 'Caption (click to edit; clear it to restore the default)',
+  'album.reorderHint': 'Drag thumbnails to reorder pages, or press Alt+←/→ on a focused thumbnail',
+  'album.pageThumbnail': 'Page {index}: {name}',
+
+  'compare.original': 'Original',
+  'compare.result': 'Result',
+  'compare.sliderLabel': 'Before/after split position',
+  'compare.peekHint': 'Press and hold (or hold Space) to see the original photo',
+  'compare.shortcutHint': 'Press C to switch comparison mode',
+  'compare.mode.off': 'Result only (hold to peek at the original)',
+  'compare.mode.slider': 'Split slider',
+  'compare.mode.sideBySide': 'Side by side',
+
+  'photobook.open': 'Export PDF photobook',
+  'photobook.title': 'PDF Photobook',
+  'photobook.bookTitle': 'Title',
+  'photobook.pageSize': 'Page size',
+  'photobook.size.a4': 'A4',
+  'photobook.size.letter': 'Letter',
+  'photobook.size.square': 'Square 8″',
+  'photobook.bleed': 'Add 3 mm bleed',
+  'photobook.bleedHint': 'For print shops: the cover photo runs past the trim edge.',
+  'photobook.includeIndex': 'Add an index page with every image',
+  'photobook.imageCount': '{count} images plus a cover',
+  'photobook.imageCount_one': '1 image plus a cover',
+  'photobook.subtitle': '{count} portraits · {date}',
+  'photobook.subtitle_one': '1 portrait · {date}',
+  'photobook.indexTitle': 'Index',
+  'photobook.export': 'Export PDF',
+  'photobook.exporting': 'Building PDF...',
+  'photobook.failed': 'Failed to build the photobook.',
+  'webAlbum.open': 'Export as web album',
+  'webAlbum.title': 'Web Album',
+  'webAlbum.albumTitle': 'Title',
+  'webAlbum.captions': 'Show captions',
+  'webAlbum.hint': 'A single HTML file with every image inside. It works offline, so you can email it or host it anywhere.',
+  'webAlbum.subtitle': '{count} portraits · {date}',
+  'webAlbum.subtitle_one': '1 portrait · {date}',
+  'webAlbum.previous': 'Previous page',
+  'webAlbum.next': 'Next page',
+  'webAlbum.navigation': 'Swipe or use the arrow keys to turn pages',
+  'webAlbum.disclosure': 'These portraits were generated with AI.',
+  'webAlbum.export': 'Download HTML',
+  'webAlbum.exporting': 'Building web album...',
+  'webAlbum.failed': 'Failed to build the web album.',
+  'share.open': 'Share the album images',
+  'share.title': 'Share',
+  'share.hint': 'Opens your device\'s share sheet with every album image attached.',
+  'share.text': '{count} portraits from AI Photo Studio',
+  'share.text_one': '1 portrait from AI Photo Studio',
+  'share.preparing': 'Preparing images...',
+  'share.share': 'Share {count} images',
+  'share.share_one': 'Share 1 image',
+  'share.unsupported': 'This browser can\'t share image files. Download the album instead and send it however you like.',
+  'share.failed': 'Sharing didn\'t work. Download the album instead and send it however you like.',
+  'share.webAlbum': 'Web album',
+  'share.zip': 'ZIP',
+
+  'collage.open': 'Collage',
+  'collage.openHint': 'Export the selected results as one collage or contact sheet image',
+  'collage.title': 'Collage & Contact Sheet',
+  'collage.layout': 'Layout',
+  'collage.layout.grid': 'Grid',
+  'collage.layout.social': '3×3 collage',
+  'collage.layout.filmstrip': 'Filmstrip',
+  'collage.socialLimit': 'Uses the first {max} of {count} images.',
+  'collage.size': 'Output size',
+  'collage.size.square': 'Instagram post',
+  'collage.size.portrait': 'Instagram portrait',
+  'collage.size.story': 'Story / Reels / TikTok',
+  'collage.size.landscape': 'X / LinkedIn',
+  'collage.size.link': 'Facebook / link preview',
+  'collage.size.pin': 'Pinterest pin',
+  'collage.spacing': 'Spacing: {px}px',
+  'collage.background': 'Background',
+  'collage.customBackground': 'Custom background color',
+  'collage.captions': 'Show style names',
+  'collage.imageCount': '{count} images',
+  'collage.imageCount_one': '1 image',
+  'collage.download': 'Download PNG',
+  'collage.failed': 'Failed to build the collage.',
+
+  'verifier.title': 'Verify image provenance',
+  'verifier.drop': 'Drop an image here or click to choose one',
+  'verifier.formats': 'Reads PNG text chunks and PNG/JPEG/WebP XMP metadata',
+  'verifier.disclosed': 'AI-generated disclosure found',
+  'verifier.notDisclosed': 'No AI-generated disclosure found in this file',
+  'verifier.unsupported': 'Only PNG, JPEG and WebP files can be checked',
+
+  'branding.title': 'Watermark & branding',
+  'branding.enabled': 'Watermark exported images',
+  'branding.hint': 'Applied to single downloads, ZIP albums, collages and photobooks. The images in your session stay unchanged.',
+  'branding.preview': 'Watermark preview',
+  'branding.mode': 'Mark',
+  'branding.mode.text': 'Text',
+  'branding.mode.logo': 'Logo',
+  'branding.textPlaceholder': 'e.g. © Your Studio',
+  'branding.uploadLogo': 'Upload logo',
+  'branding.replaceLogo': 'Replace logo',
+  'branding.removeLogo': 'Remove logo',
+  'branding.logoFailed': 'That logo could not be read. Try a PNG or JPEG file.',
+  'branding.position': 'Position',
+  'branding.position.topLeft': 'Top left',
+  'branding.position.topRight': 'Top right',
+  'branding.position.center': 'Center',
+  'branding.position.bottomLeft': 'Bottom left',
+  'branding.position.bottomRight': 'Bottom right',
+  'branding.tiled': 'Tile across the whole image',
+  'branding.opacity': 'Opacity · {percent}%',
+  'branding.scale': 'Size · {percent}% of width',
+  'branding.cleanExport': 'Clean export (no watermark)',
+  'branding.cleanExportOff': 'Your watermark will be added to this export',
+  'branding.cleanExportOn': 'This export will not carry your watermark',
+  'branding.confirmClean': 'Export without your watermark? The files can then be shared with no branding on them.',
+
+  'styleEditor.title': 'My Custom Styles',
+  'styleEditor.newStyle': 'New Style',
+  'styleEditor.empty': "You haven't created any custom styles yet.",
+  'styleEditor.edit': 'Edit',
+  'styleEditor.duplicate': 'Duplicate',
+  'styleEditor.delete': 'Delete',
+  'styleEditor.confirmDelete': 'Delete custom style "{name}"?',
+  'styleEditor.copyName': '{name} (copy)',
+  'styleEditor.name': 'Name',
+  'styleEditor.namePlaceholder': 'e.g. Studio Noir',
+  'styleEditor.category': 'Category',
+  'styleEditor.prompt': 'Prompt',
+  'styleEditor.promptPlaceholder': 'Describe the look: wardrobe, setting, lighting, mood...',
+  'styleEditor.promptHint': 'Used as the target style in the generation prompt.',
+  'styleEditor.cancel': 'Cancel',
+  'styleEditor.saveChanges': 'Save Changes',
+  'styleEditor.create': 'Create Style',
+  'styleEditor.selectHint': 'Select a style to edit, or create a new one.',
+  'styleEditor.importPack': 'Import Pack',
+  'styleEditor.exportPack': 'Export Pack',
+  'styleEditor.exportHint': "Tick the styles to include on the left. The pack keeps each style's stable ID so teammates can update it later.",
+  'styleEditor.packName': 'Pack Name',
+  'styleEditor.defaultPackName': 'My Style Pack',
+  'styleEditor.author': 'Author',
+  'styleEditor.authorPlaceholder': 'Your name or studio',
+  'styleEditor.exportCount': 'Export {count} Styles',
+  'styleEditor.exportCount_one': 'Export {count} Style',
+
+  'stylePack.title': 'Import Style Pack',
+  'stylePack.invalid': 'This file is not a valid style pack. Fix the following {count} problems and try again:',
+  'stylePack.invalid_one': 'This file is not a valid style pack. Fix the following problem and try again:',
+  'stylePack.summary': 'by {author} · {count} styles · format v{version}',
+  'stylePack.conflicts': '{count} style IDs already exist',
+  'stylePack.conflicts_one': '{count} style ID already exists',
+  'stylePack.applyAll': 'All: {resolution}',
+  'stylePack.existing': 'existing: {name}',
+  'stylePack.builtIn': '(built-in)',
+  'stylePack.skip': 'Skip',
+  'stylePack.replace': 'Replace existing',
+  'stylePack.keepBoth': 'Keep both',
+  'stylePack.cancel': 'Cancel',
+  'stylePack.close': 'Close',
+  'stylePack.import': 'Import Styles',
+
+  'queueSettings.title': 'Queue & Rate Limits',
+  'queueSettings.tier': 'API tier',
+  'queueSettings.tier.free': 'Free',
+  'queueSettings.tier.tier1': 'Tier 1',
+  'queueSettings.tier.tier2': 'Tier 2',
+  'queueSettings.tier.custom': 'Custom',
+  'queueSettings.tierHint': 'Pick the billing tier of your API key. Editing any value below switches to Custom.',
+  'queueSettings.concurrency': 'Parallel requests',
+  'queueSettings.requestsPerMinute': 'Requests per minute',
+  'queueSettings.burst': 'Burst size',
+  'queueSettings.baseBackoff': 'First backoff (s)',
+  'queueSettings.maxBackoff': 'Longest backoff (s)',
+  'queueSettings.jitter': 'Backoff jitter (%)',
+  'queueSettings.breakerThreshold': 'Errors before stopping',
+  'queueSettings.breakerReset': 'Auto-retry after stop (s)',
+  'queueSettings.breakerResetHint': 'Set auto-retry to 0 to stay stopped until you resume.',
+  'queueSettings.reset': 'Restore defaults',
+
+  'promptEditor.title': 'Prompt Templates',
+  'promptEditor.open': 'Prompts',
+  'promptEditor.previewStyle': 'Preview prompt',
+  'promptEditor.modified': 'edited',
+  'promptEditor.newTemplate': 'New template',
+  'promptEditor.newTemplateName': 'New template',
+  'promptEditor.copyName': '{name} (copy)',
+  'promptEditor.duplicate': 'Duplicate template',
+  'promptEditor.delete': 'Delete template',
+  'promptEditor.confirmDelete': 'Delete the template "{name}"? Styles using it go back to their default template.',
+  'promptEditor.resetTemplate': 'Restore original wording',
+  'promptEditor.templateName': 'Template name',
+  'promptEditor.variables': 'Available variables',
+  'promptEditor.unknownVariables': 'Unknown variables are sent to the model as-is: {names}',
+  'promptEditor.style': 'Style',
+  'promptEditor.styleTemplate': 'Template for this style',
+  'promptEditor.styleDefault': 'Default ({name})',
+  'promptEditor.section.style': 'Style description override ({{style}})',
+  'promptEditor.section.fidelity': 'Face fidelity override ({{fidelity}})',
+  'promptEditor.overridePlaceholder': 'Leave empty to use the generated text. Variables such as {{subject}} work here too.',
+  'promptEditor.resetStyle': 'Reset this style',
+  'promptEditor.preview': 'Final prompt · {count} characters',
+  'promptEditor.copy': 'Copy',
+  'promptEditor.copied': 'Copied',
+  'promptEditor.previewHint': 'Uses the current subject profile, output settings and reference photos. Templates are saved in this browser.',
+
+  'footer.copyright': '© 2025 AI Photo Studio Pro. Powered by Gemini Nano Banana.',
+};
+
+export type MessageKey = keyof typeof en;
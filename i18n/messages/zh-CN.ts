@@ -0,0 +1,422 @@
+import { MessageKey } from './en';
+
+// Keys missing here fall back to English with a visible marker (see i18n/index.tsx)
+export const zhCN: Partial<Record<MessageKey, string>> = {
+  'header.title': 'AI 摄影工作室',
+  'header.subtitle': 'Nano Banana 版',
+  'header.sessions': '会话',
+  'header.badge': '100+ 精选风格',
+  'header.queueSettings': '队列',
+  'header.language': '语言',
+  'header.verify': '验证',
+  'header.branding': '水印',
+  'header.brandingOn': '导出的图片会加水印',
+
+  'upload.title': '上传你的人像照片',
+  'upload.hint': '拖放文件或点击浏览',
+  'upload.processing': '处理中...',
+  'upload.continue': '继续选择风格',
+  'upload.multiHint': '最多可添加 {max} 张同一人的照片以提升相似度',
+  'upload.primary': '主图',
+  'upload.makePrimary': '设为主图',
+  'upload.moveLeft': '左移',
+  'upload.moveRight': '右移',
+  'upload.remove': '移除',
+  'upload.addMore': '添加参考照片',
+  'upload.referenceCount': '参考照片 {count} / {max}。侧脸和全身照最有帮助。',
+  'upload.maxReferences': '{provider} 每次请求最多接受 {max} 张参考照片，多余的照片未被添加。',
+
+  'subject.genderLabel': '照片中的人物',
+  'subject.female': '女性',
+  'subject.male': '男性',
+  'subject.nonbinary': '非二元性别',
+  'subject.unspecified': '不透露',
+  'subject.ageLabel': '年龄段',
+  'subject.child': '儿童',
+  'subject.adult': '成人',
+  'subject.senior': '长者',
+  'subject.keepLabel': '保留原照片中的',
+  'subject.keepFace': '面部原貌，不做美化',
+  'subject.keepGlasses': '眼镜',
+  'subject.keepHairstyle': '发型',
+  'subject.keepSkinTone': '肤色完全一致',
+  'subject.hint': '修改只影响之后加入队列的风格。',
+
+  'preprocess.working': '正在优化照片...',
+  'preprocess.summary': '{from} → {to} · {width}×{height}px',
+  'preprocess.rotated': '已根据相机数据校正方向',
+  'preprocess.settings': '上传设置',
+  'preprocess.maxEdge': '最长边',
+  'preprocess.format': '格式',
+  'preprocess.quality': '质量 {quality}%',
+  'preprocess.settingsHint': '照片会在浏览器中先缩放并重新编码再上传，以节省配额并减少失败请求。仅对新添加的照片生效。',
+  'preprocess.not_image': '该文件类型（{type}）不是受支持的图片。',
+  'preprocess.vector': 'SVG 文件是矢量图，不是照片。请上传 JPEG、PNG 或 WebP 照片。',
+  'preprocess.heic_unsupported': '此浏览器无法打开 HEIC/HEIF 照片。请导出为 JPEG（或将相机设置为“兼容性最佳”）后重试。',
+  'preprocess.decode_failed': '无法读取该图片，文件可能已损坏或格式不受支持。',
+  'preprocess.too_small': '图片仅为 {width}×{height}px。请使用最短边至少 {min}px 的照片，以便清晰看到面部。',
+
+  'crop.title': '调整照片构图',
+  'crop.aspect': '比例',
+  'crop.original': '原始',
+  'crop.zoom': '缩放',
+  'crop.rotation': '旋转 {degrees}°',
+  'crop.rotateLeft': '向左旋转',
+  'crop.rotateRight': '向右旋转',
+  'crop.faceGuide': '将面部置于椭圆中央',
+  'crop.hint': '拖动以移动，滚动或使用滑块缩放。面部越大，模型越能保留你的样貌细节。',
+  'crop.reset': '重置',
+  'crop.apply': '应用',
+  'crop.recrop': '裁剪',
+
+  'queue.paused': '生成已暂停',
+  'queue.processing': '正在处理队列（剩余 {count} 个）',
+  'queue.resume': '继续生成',
+  'queue.pause': '暂停',
+  'queue.pacing': '正在控制请求频率以遵守 API 限制...',
+  'queue.backingOff': '遇到临时错误，正在退避等待...',
+  'queue.haltedTitle': '队列已停止：{reason}',
+  'queue.breakerTitle': '生成已暂停：错误率过高',
+  'queue.breakerBody': '连续遇到多次错误（频率限制或服务器错误），队列已暂停以避免更多问题。请等待一分钟后再点击“继续”。',
+  'queue.tooManyErrors': '错误过多，已暂停。',
+
+  'queuePanel.show': '查看队列（{count}）',
+  'queuePanel.hide': '收起队列',
+  'queuePanel.cancel': '取消',
+  'queuePanel.cancelAll': '全部取消',
+  'queuePanel.moveToTop': '移到最前',
+  'queuePanel.dragHint': '拖动排队中的风格以调整顺序。',
+  'queuePanel.variant': '候选 {index}/{count}',
+
+  'lightbox.open': '查看候选',
+  'lightbox.variantOf': '第 {index} / {count} 个候选',
+  'lightbox.makeHero': '使用这张',
+  'lightbox.isHero': '已用于相册',
+  'lightbox.cancelled': '已取消',
+
+  'history.open': '历史记录（{count} 次）',
+  'history.title': '历史记录 · {name}',
+  'history.empty': '还没有已完成的尝试。',
+  'history.current': '当前',
+  'history.prompt': '提示词',
+  'history.restore': '恢复',
+  'history.rerun': '重新运行',
+  'history.rerunHint': '使用相同的提示词、人物设定和输出设置再次排队',
+  'history.compare': '对比',
+  'history.compareHint': '选择两张缩略图进行并排对比。',
+  'history.pickToCompare': '选择用于对比',
+  'history.compareTitle': '对比 · {name}',
+  'history.useThis': '使用此版本',
+  'history.edited': '已编辑：{instructions}',
+
+  'edit.open': '用指令编辑',
+  'edit.title': '编辑 · {name}',
+  'edit.chain': '已应用的指令',
+  'edit.chainEmpty': '还没有编辑。描述想要的修改，它会应用到当前图片上。',
+  'edit.applying': '正在应用编辑…',
+  'edit.restorePrevious': '回到上一个版本',
+  'edit.placeholder': '例如：把西装换成藏青色、去掉雨伞、光线更暖一些',
+  'edit.send': '应用编辑',
+  'edit.hint': '每次编辑都会像其他请求一样排队，并在历史记录中生成一个新版本。',
+
+  'session.resumeTitle': '继续“{name}”？',
+  'session.resumeSummary': '已完成 {completed} 张 · 最后保存于 {date}',
+  'session.resumeQueued': '仍有 {count} 个在队列中',
+  'session.startFresh': '重新开始',
+  'session.resume': '继续会话',
+  'session.defaultName': '会话 {date}',
+  'session.restoreFailed': '恢复会话失败。',
+
+  'sessions.title': '已保存的会话',
+  'sessions.empty': '还没有保存的会话。上传一张照片即可开始。',
+  'sessions.current': '当前',
+  'sessions.completed': '已完成 {count} 张',
+  'sessions.queued': '排队中 {count} 个',
+  'sessions.rename': '重命名',
+  'sessions.saveName': '保存名称',
+  'sessions.delete': '删除',
+  'sessions.open': '打开',
+  'sessions.confirmDelete': '删除会话“{name}”？其中生成的图片将会丢失。',
+  'sessions.renameFailed': '重命名会话失败。',
+  'sessions.deleteFailed': '删除会话失败。',
+  'sessions.import': '导入相册',
+  'sessions.importHint': '将本应用导出的相册 ZIP 恢复为新会话',
+  'sessions.importSkipped': '有 {count} 张图片因其风格在此不可用而被跳过。',
+  'sessions.importFailed': '导入相册失败。',
+  'sessions.importError.not_zip': '此文件不是 ZIP 压缩包。',
+  'sessions.importError.no_manifest': '此 ZIP 中没有 manifest.json。只能导入本应用导出的相册。',
+  'sessions.importError.invalid_manifest': '此 ZIP 中的 manifest.json 已损坏或不是相册清单。',
+  'sessions.importError.newer_version': '此相册由更新版本的应用导出。',
+  'sessions.importError.branded': '此相册导出时带有水印。请以无水印导出重新导出后再导入。',
+  'sessions.importError.no_matches': '此相册中没有与可用风格匹配的图片。',
+
+  'zipExport.title': '下载相册 ZIP',
+  'zipExport.pattern': '文件命名',
+  'zipExport.pattern.id': '按风格编号',
+  'zipExport.pattern.id.example': '12_Film_Noir.jpg',
+  'zipExport.pattern.category': '按分类建立文件夹',
+  'zipExport.pattern.category.example': 'Classic/Film_Noir.jpg',
+  'zipExport.pattern.name': '按英文风格名称',
+  'zipExport.pattern.name.example': 'Film_Noir.jpg',
+  'zipExport.includeSource': '包含原始照片',
+  'zipExport.manifestHint': 'manifest.json 会记录每张图片的提示词、模型和设置。在“已保存的会话”中导入 ZIP 即可恢复。',
+
+  'errors.rate_limit': '请求过于频繁',
+  'errors.rate_limit.hint': '短时间内请求过多。队列会按照 API 要求的时间等待后再重试。',
+  'errors.quota_exhausted': '今日配额已用完',
+  'errors.quota_exhausted.hint': '你的 API 密钥今天的配额已经用完。请在配额重置后再试，或换用更高等级的密钥。',
+  'errors.server': '服务器临时错误',
+  'errors.server.hint': '服务出现短暂问题，请求会自动重试。',
+  'errors.offline': '网络未连接',
+  'errors.offline.hint': '你似乎已离线。请检查网络连接，恢复后队列会继续重试。',
+  'errors.safety': '被安全过滤器拦截',
+  'errors.safety.hint': '提示词或生成结果被拦截。请换一个风格或参考照片试试。',
+  'errors.invalid_input': '请求被拒绝',
+  'errors.invalid_input.hint': 'API 不接受此请求。请检查照片格式、自定义提示词和输出设置。',
+  'errors.auth': 'API 密钥有问题',
+  'errors.auth.hint': 'API 密钥缺失、无效或无权使用此模型。请修改 .env.local 中的 GEMINI_API_KEY，重启后再继续。',
+  'errors.unknown': '生成失败',
+  'errors.unknown.hint': '发生了意外错误。将鼠标悬停查看详情，或点击重试。',
+
+  'grid.title': '选择风格',
+  'grid.progress': '（已完成 {completed} / {total}）',
+  'grid.myStyles': '我的风格',
+  'grid.deselectAll': '取消全选',
+  'grid.selectAllAvailable': '全选可用风格',
+  'grid.selectAllCompleted': '全选已完成',
+  'grid.generateCount': '生成（{count}）',
+  'grid.createAlbum': '创建相册（{count}）',
+  'grid.searchPlaceholder': '搜索风格...',
+  'grid.allCategories': '全部',
+  'grid.noResults': '没有符合条件的风格。',
+  'grid.clearFilters': '清除筛选',
+  'grid.customBadge': '自定义',
+  'grid.regenerate': '重新生成此风格',
+  'grid.queued': '排队中',
+  'grid.generating': '生成中...',
+  'grid.retry': '重试',
+  'grid.generateSelected': '生成所选',
+  'grid.openAlbum': '打开相册',
+  'grid.variantProgress': '已完成 {done} / {total} 个候选',
+
+  'output.aspectRatio': '画面比例',
+  'output.imageSize': '分辨率',
+  'output.sessionHint': '新加入队列的风格默认使用的输出设置',
+  'output.styleOverride': '此风格的画面比例',
+  'output.useDefault': '默认（{ratio}）',
+  'output.variants': '每个风格的候选数',
+  'output.variantOption': '×{count}',
+  'output.variantsHint': '每个候选都是一次单独的请求，并计入配额。',
+
+  'album.title': '我的作品集',
+  'album.zipping': '打包中...',
+  'album.download': '下载相册',
+  'album.downloadSingle': '下载单张图片',
+  'album.collection': '{category} 系列',
+  'album.description': '一幅捕捉{category}美学精髓的艺术人像，由 Gemini Nano Banana 生成。',
+  'album.zipFailed': '生成压缩包失败。',
+  'album.theme': '相册主题',
+  'album.theme.magazine': '杂志',
+  'album.theme.polaroid': '拍立得墙',
+  'album.theme.minimal': '极简画廊',
+  'album.theme.grid': '网格跨页',
+  'album.cover': '封面',
+  'album.coverSubtitle': '{count} 张人像',
+  'album.editCoverTitle': '相册标题（点击编辑）',
+  'album.editTitle': '页面标题（点击编辑；清空后恢复为风格名称）',
+  'album.editCaption': '说明文字（点击编辑；清空后恢复默认）',
+  'album.reorderHint': '拖动缩略图调整页面顺序，或在选中的缩略图上按 Alt+←/→',
+  'album.pageThumbnail': '第 {index} 页：{name}',
+
+  'compare.original': '原图',
+  'compare.result': '效果',
+  'compare.sliderLabel': '前后对比分割位置',
+  'compare.peekHint': '按住（或按住空格键）查看原图',
+  'compare.shortcutHint': '按 C 切换对比模式',
+  'compare.mode.off': '仅效果图（按住可查看原图）',
+  'compare.mode.slider': '分割滑块',
+  'compare.mode.sideBySide': '并排对比',
+
+  'photobook.open': '导出 PDF 影集',
+  'photobook.title': 'PDF 影集',
+  'photobook.bookTitle': '标题',
+  'photobook.pageSize': '页面尺寸',
+  'photobook.size.a4': 'A4',
+  'photobook.size.letter': 'Letter',
+  'photobook.size.square': '方形 8 英寸',
+  'photobook.bleed': '添加 3 毫米出血',
+  'photobook.bleedHint': '用于印刷：封面照片会延伸到裁切线之外。',
+  'photobook.includeIndex': '添加包含所有图片的索引页',
+  'photobook.imageCount': '{count} 张图片及封面',
+  'photobook.subtitle': '{count} 幅人像 · {date}',
+  'photobook.indexTitle': '索引',
+  'photobook.export': '导出 PDF',
+  'photobook.exporting': '正在生成 PDF...',
+  'photobook.failed': '生成影集失败。',
+  'webAlbum.open': '导出为网页相册',
+  'webAlbum.title': '网页相册',
+  'webAlbum.albumTitle': '标题',
+  'webAlbum.captions': '显示说明文字',
+  'webAlbum.hint': '所有图片都内嵌在一个 HTML 文件中，可离线浏览，方便通过邮件发送或托管到任意位置。',
+  'webAlbum.subtitle': '{count} 张写真 · {date}',
+  'webAlbum.previous': '上一页',
+  'webAlbum.next': '下一页',
+  'webAlbum.navigation': '滑动或使用方向键翻页',
+  'webAlbum.disclosure': '这些写真由 AI 生成。',
+  'webAlbum.export': '下载 HTML',
+  'webAlbum.exporting': '正在生成网页相册...',
+  'webAlbum.failed': '生成网页相册失败。',
+  'share.open': '分享相册图片',
+  'share.title': '分享',
+  'share.hint': '打开设备的分享面板，并附上相册中的所有图片。',
+  'share.text': '来自 AI Photo Studio 的 {count} 张写真',
+  'share.preparing': '正在准备图片...',
+  'share.share': '分享 {count} 张图片',
+  'share.unsupported': '此浏览器无法分享图片文件。请下载相册后自行发送。',
+  'share.failed': '分享失败。请下载相册后自行发送。',
+  'share.webAlbum': '网页相册',
+  'share.zip': 'ZIP',
+
+  'collage.open': '拼图',
+  'collage.openHint': '将选中的结果导出为一张拼图或联系表图片',
+  'collage.title': '拼图与联系表',
+  'collage.layout': '布局',
+  'collage.layout.grid': '网格',
+  'collage.layout.social': '3×3 九宫格',
+  'collage.layout.filmstrip': '胶片条',
+  'collage.socialLimit': '仅使用 {count} 张中的前 {max} 张。',
+  'collage.size': '输出尺寸',
+  'collage.size.square': 'Instagram 帖子',
+  'collage.size.portrait': 'Instagram 竖版',
+  'collage.size.story': '快拍 / Reels / TikTok',
+  'collage.size.landscape': 'X / LinkedIn',
+  'collage.size.link': 'Facebook / 链接预览',
+  'collage.size.pin': 'Pinterest 图钉',
+  'collage.spacing': '间距：{px}px',
+  'collage.background': '背景',
+  'collage.customBackground': '自定义背景颜色',
+  'collage.captions': '显示风格名称',
+  'collage.imageCount': '{count} 张图片',
+  'collage.download': '下载 PNG',
+  'collage.failed': '生成拼图失败。',
+
+  'verifier.title': '验证图片来源',
+  'verifier.drop': '将图片拖到此处，或点击选择',
+  'verifier.formats': '读取 PNG 文本块以及 PNG/JPEG/WebP 的 XMP 元数据',
+  'verifier.disclosed': '已找到 AI 生成声明',
+  'verifier.notDisclosed': '此文件中未找到 AI 生成声明',
+  'verifier.unsupported': '仅支持检查 PNG、JPEG 和 WebP 文件',
+
+  'branding.title': '水印与品牌',
+  'branding.enabled': '为导出的图片添加水印',
+  'branding.hint': '应用于单张下载、ZIP 相册、拼图和相册书。会话中的图片保持不变。',
+  'branding.preview': '水印预览',
+  'branding.mode': '标记',
+  'branding.mode.text': '文字',
+  'branding.mode.logo': '标志',
+  'branding.textPlaceholder': '例如：© 你的工作室',
+  'branding.uploadLogo': '上传标志',
+  'branding.replaceLogo': '更换标志',
+  'branding.removeLogo': '移除标志',
+  'branding.logoFailed': '无法读取该标志，请尝试 PNG 或 JPEG 文件。',
+  'branding.position': '位置',
+  'branding.position.topLeft': '左上',
+  'branding.position.topRight': '右上',
+  'branding.position.center': '居中',
+  'branding.position.bottomLeft': '左下',
+  'branding.position.bottomRight': '右下',
+  'branding.tiled': '平铺整张图片',
+  'branding.opacity': '不透明度 · {percent}%',
+  'branding.scale': '大小 · 宽度的 {percent}%',
+  'branding.cleanExport': '无水印导出',
+  'branding.cleanExportOff': '本次导出会添加你的水印',
+  'branding.cleanExportOn': '本次导出不会带有你的水印',
+  'branding.confirmClean': '确定不加水印导出吗？导出的文件将不带任何品牌标记。',
+
+  'styleEditor.title': '我的自定义风格',
+  'styleEditor.newStyle': '新建风格',
+  'styleEditor.empty': '你还没有创建任何自定义风格。',
+  'styleEditor.edit': '编辑',
+  'styleEditor.duplicate': '复制',
+  'styleEditor.delete': '删除',
+  'styleEditor.confirmDelete': '删除自定义风格“{name}”？',
+  'styleEditor.copyName': '{name}（副本）',
+  'styleEditor.name': '名称',
+  'styleEditor.namePlaceholder': '例如：黑白影棚',
+  'styleEditor.category': '分类',
+  'styleEditor.prompt': '提示词',
+  'styleEditor.promptPlaceholder': '描述造型：服装、场景、光线、氛围...',
+  'styleEditor.promptHint': '将作为生成提示词中的目标风格。',
+  'styleEditor.cancel': '取消',
+  'styleEditor.saveChanges': '保存修改',
+  'styleEditor.create': '创建风格',
+  'styleEditor.selectHint': '选择一个风格进行编辑，或新建一个。',
+  'styleEditor.importPack': '导入风格包',
+  'styleEditor.exportPack': '导出风格包',
+  'styleEditor.exportHint': '在左侧勾选要包含的风格。风格包会保留每个风格的稳定 ID，方便队友之后更新。',
+  'styleEditor.packName': '风格包名称',
+  'styleEditor.defaultPackName': '我的风格包',
+  'styleEditor.author': '作者',
+  'styleEditor.authorPlaceholder': '你的名字或工作室',
+  'styleEditor.exportCount': '导出 {count} 个风格',
+
+  'stylePack.title': '导入风格包',
+  'stylePack.invalid': '该文件不是有效的风格包。请修复以下 {count} 个问题后重试：',
+  'stylePack.summary': '作者 {author} · {count} 个风格 · 格式 v{version}',
+  'stylePack.conflicts': '{count} 个风格 ID 已存在',
+  'stylePack.applyAll': '全部：{resolution}',
+  'stylePack.existing': '现有：{name}',
+  'stylePack.builtIn': '（内置）',
+  'stylePack.skip': '跳过',
+  'stylePack.replace': '替换现有',
+  'stylePack.keepBoth': '保留两者',
+  'stylePack.cancel': '取消',
+  'stylePack.close': '关闭',
+  'stylePack.import': '导入风格',
+
+  'queueSettings.title': '队列与速率限制',
+  'queueSettings.tier': 'API 等级',
+  'queueSettings.tier.free': '免费',
+  'queueSettings.tier.tier1': '等级 1',
+  'queueSettings.tier.tier2': '等级 2',
+  'queueSettings.tier.custom': '自定义',
+  'queueSettings.tierHint': '选择 API 密钥对应的计费等级。修改下方任意数值会切换为自定义。',
+  'queueSettings.concurrency': '并行请求数',
+  'queueSettings.requestsPerMinute': '每分钟请求数',
+  'queueSettings.burst': '突发数量',
+  'queueSettings.baseBackoff': '首次退避（秒）',
+  'queueSettings.maxBackoff': '最长退避（秒）',
+  'queueSettings.jitter': '退避抖动（%）',
+  'queueSettings.breakerThreshold': '停止前允许的错误数',
+  'queueSettings.breakerReset': '停止后自动重试（秒）',
+  'queueSettings.breakerResetHint': '自动重试设为 0 时，会一直停止直到你手动继续。',
+  'queueSettings.reset': '恢复默认',
+
+  'promptEditor.title': '提示词模板',
+  'promptEditor.open': '提示词',
+  'promptEditor.previewStyle': '预览提示词',
+  'promptEditor.modified': '已修改',
+  'promptEditor.newTemplate': '新建模板',
+  'promptEditor.newTemplateName': '新模板',
+  'promptEditor.copyName': '{name}（副本）',
+  'promptEditor.duplicate': '复制模板',
+  'promptEditor.delete': '删除模板',
+  'promptEditor.confirmDelete': '确定删除模板“{name}”吗？使用它的风格将恢复为默认模板。',
+  'promptEditor.resetTemplate': '恢复原始内容',
+  'promptEditor.templateName': '模板名称',
+  'promptEditor.variables': '可用变量',
+  'promptEditor.unknownVariables': '未知变量会原样发送给模型：{names}',
+  'promptEditor.style': '风格',
+  'promptEditor.styleTemplate': '此风格使用的模板',
+  'promptEditor.styleDefault': '默认（{name}）',
+  'promptEditor.section.style': '风格描述覆盖（{{style}}）',
+  'promptEditor.section.fidelity': '面部保真覆盖（{{fidelity}}）',
+  'promptEditor.overridePlaceholder': '留空则使用自动生成的内容。这里同样可以使用 {{subject}} 等变量。',
+  'promptEditor.resetStyle': '重置此风格',
+  'promptEditor.preview': '最终提示词 · {count} 个字符',
+  'promptEditor.copy': '复制',
+  'promptEditor.copied': '已复制',
+  'promptEditor.previewHint': '基于当前的人物设置、输出设置和参考照片生成。模板保存在此浏览器中。',
+
+  'footer.copyright': '© 2025 AI Photo Studio Pro. 由 Gemini Nano Banana 驱动。',
+};
@@ -0,0 +1,158 @@
+import { PhotoStyle } from '../types';
+
+// English names for the built-in catalog; the Chinese originals stay in constants.ts as `name`
+export const BUILT_IN_STYLE_NAMES_EN: Record<number, string> = {
+  1: "French Effortless Chic",
+  2: "Urban Techwear",
+  3: "Dreamy Girlhood",
+  4: "Hong Kong Retro Film",
+  5: "High-End Minimalism",
+  6: "Business Power Portrait",
+  7: "Epic Outdoor Landscape",
+  8: "Rainy Night Mood",
+  9: "Cyberpunk Future",
+  10: "Documentary Lifestyle",
+  11: "Dark Art",
+  12: "Sweet Princess",
+  13: "Energetic Sports",
+  14: "Greenhouse Blooms",
+  15: "Holiday Getaway",
+  16: "Cool-Toned Japanese",
+  17: "Golden Hour Backlight",
+  18: "Classical Chinese Portrait",
+  19: "Metropolitan Cover Star",
+  20: "Indoor Black Light",
+  21: "California Beach Sunshine",
+  22: "Nordic Cool Portrait",
+  23: "Campus Youth",
+  24: "Urban Night Run",
+  25: "Vintage Oil Painting",
+  26: "Chibi Anime",
+  27: "Sci-Fi Light Beams",
+  28: "Vaporwave Colors",
+  29: "Dreamlike Water Reflection",
+  30: "Open Road Wanderer",
+  31: "Vintage Lady & Gentleman",
+  32: "Forest Fairy",
+  33: "Polar Night Blues",
+  34: "Retro Film at Home",
+  35: "Surreal Warped Space",
+  36: "Neon Stage",
+  37: "Indie Café",
+  38: "Summer Poolside Glow",
+  39: "Street Graffiti Pop",
+  40: "Industrial Hardcore",
+  41: "Wild West Cowboy",
+  42: "Club Flash Snapshot",
+  43: "Grunge Chic",
+  44: "Soft Morning at Home",
+  45: "Halloween Cosplay",
+  46: "Island Vacation Candid",
+  47: "Bold Color Blocks",
+  48: "Darkroom Red Light",
+  49: "Tech Glass Reflections",
+  50: "Silhouette Under the Stars",
+  51: "Christmas Holiday",
+  52: "Dreamy Easter",
+  53: "Day of the Dead",
+  54: "Chinese Hanfu",
+  55: "Ming Dynasty Attire",
+  56: "Qing Dynasty Attire",
+  57: "Miao Traditional Dress",
+  58: "Yi Traditional Dress",
+  59: "Haute Couture Gown",
+  60: "Korean Pure & Fresh",
+  61: "Cool Elegant Diva",
+  62: "Chinese Qipao",
+  63: "Classic Hong Kong Goddess",
+  64: "Korean Chaebol Heiress",
+  65: "Modern All-Black",
+  66: "Sweet Girl in White",
+  67: "French Oil Painting",
+  68: "Innocent Allure",
+  69: "Japanese Schoolgirl Fresh",
+  70: "Denim Editorial",
+  71: "Birthday Girl",
+  72: "Girl Crush Cool",
+  73: "Bridal Portrait",
+  74: "Gothic Dark",
+  75: "Y2K Hot Girl",
+  76: "Classic Hepburn",
+  77: "Off-Duty Supermodel",
+  78: "New Year's Day",
+  79: "Chinese Lunar New Year",
+  80: "Tibetan Zhuoma",
+  81: "Miao Silver Regalia",
+  82: "Western Regions Princess",
+  83: "Red Yi Heritage",
+  84: "Blue Yi Heritage",
+  85: "Chinese Ink Wash",
+  86: "Hani Sweetheart",
+  87: "Joseon Princess",
+  88: "Dai Peacock Dance",
+  89: "Zhuang Folk Song Fairy",
+  90: "Manchu Gege",
+  91: "Mongolian Grasslands",
+  92: "Dong Grand Song",
+  93: "French Countryside",
+  94: "British Academia",
+  95: "Teacher Portrait",
+  96: "Tennis Star",
+  97: "Cheerleader",
+  98: "Baseball Star",
+  99: "Bookish with Teddy Bear",
+  100: "Capitol Graduation",
+  101: "Autumn Leaves",
+  102: "Winter Wonderland",
+  103: "Snow on the Forbidden City",
+  104: "Roman Holiday",
+  105: "Eiffel Tower Backdrop",
+  106: "Leaning Tower of Pisa",
+  107: "Iceland Landscapes",
+};
+
+// Language-independent name for file names and exports; hand-made styles keep what their author typed
+export function englishStyleName(style: PhotoStyle): string {
+  return style.names?.en || (style.isCustom ? undefined : BUILT_IN_STYLE_NAMES_EN[style.id]) || style.name;
+}
+
+// Simplified Chinese labels for built-in categories; English labels are the category keys themselves
+export const CATEGORY_LABELS_ZH: Record<string, string> = {
+  Abstract: "抽象",
+  Art: "艺术",
+  Business: "商务",
+  Career: "职业",
+  Classic: "经典",
+  Costume: "装扮",
+  Creative: "创意",
+  Cultural: "民族文化",
+  Dark: "暗黑",
+  Fantasy: "奇幻",
+  Fashion: "时尚",
+  Grunge: "颓废",
+  Holiday: "节日",
+  Industrial: "工业",
+  Japanese: "日系",
+  Korean: "韩系",
+  Life: "生活",
+  Lighting: "光影",
+  Minimal: "极简",
+  Mood: "情绪",
+  Nature: "自然",
+  Outdoor: "户外",
+  Party: "派对",
+  Retro: "复古",
+  "Sci-Fi": "科幻",
+  Silhouette: "剪影",
+  Sport: "运动",
+  Street: "街头",
+  Summer: "夏日",
+  Sweet: "甜美",
+  Travel: "旅行",
+  Urban: "都市",
+  Vintage: "怀旧",
+  Wedding: "婚纱",
+  Western: "西部",
+  Youth: "青春",
+  Custom: "自定义",
+};
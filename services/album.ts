@@ -0,0 +1,92 @@
+import { AlbumItem, AlbumLayout, AlbumPageText, AlbumTheme, GeneratedImage, PhotoStyle } from '../types';
+
+export const ALBUM_THEMES: AlbumTheme[] = ['magazine', 'polaroid', 'minimal', 'grid'];
+
+export const DEFAULT_ALBUM_LAYOUT: AlbumLayout = { theme: 'magazine', title: '', order: [], pages: {} };
+
+// Items per page in the grid spread; the other themes show one image per page
+export const GRID_SPREAD_SIZE = 4;
+
+// Colors shared by the canvas exports so a photobook or collage matches the album on screen
+export interface AlbumThemePalette {
+  background: string; // Behind the pages, and the default collage background
+  paper: string; // Page color in the photobook
+  ink: string;
+  muted: string;
+  accent: string;
+}
+
+export const ALBUM_THEME_PALETTES: Record<AlbumTheme, AlbumThemePalette> = {
+  magazine: { background: '#0f172a', paper: '#ffffff', ink: '#0f172a', muted: '#64748b', accent: '#6366f1' },
+  polaroid: { background: '#3b2f2a', paper: '#f5f0e8', ink: '#292524', muted: '#78716c', accent: '#b45309' },
+  minimal: { background: '#fafafa', paper: '#ffffff', ink: '#18181b', muted: '#a1a1aa', accent: '#18181b' },
+  grid: { background: '#111827', paper: '#f8fafc', ink: '#111827', muted: '#6b7280', accent: '#0ea5e9' },
+};
+
+export const isAlbumTheme = (value: unknown): value is AlbumTheme => ALBUM_THEMES.includes(value as AlbumTheme);
+
+// Selected IDs in album order: the saved order first, then anything selected since, in selection order
+export function orderAlbumIds(selectedIds: Iterable<number>, order: number[]): number[] {
+  const selected = Array.from(selectedIds);
+  const chosen = new Set(selected);
+  const ordered = order.filter(id => chosen.has(id));
+  const placed = new Set(ordered);
+  return [...ordered, ...selected.filter(id => !placed.has(id))];
+}
+
+// Selected results that have an image, in album order and with any edited page text applied
+export function collectAlbumItems(
+  styles: PhotoStyle[],
+  selectedIds: Iterable<number>,
+  results: Record<number, GeneratedImage>,
+  label: (style: PhotoStyle) => { name: string; category: string; caption: string },
+  layout: AlbumLayout = DEFAULT_ALBUM_LAYOUT
+): AlbumItem[] {
+  return orderAlbumIds(selectedIds, layout.order)
+    .map(id => {
+      const result = results[id];
+      const style = styles.find(s => s.id === id);
+      if (result?.status !== 'completed' || !result.imageUrl || !style) return null;
+      const defaults = label(style);
+      const page = layout.pages[id];
+      return {
+        id,
+        url: result.imageUrl,
+        ...defaults,
+        name: page?.title || defaults.name,
+        caption: page?.caption || defaults.caption,
+        aspectRatio: result.aspectRatio || '3:4'
+      };
+    })
+    .filter((item): item is AlbumItem => item !== null);
+}
+
+// Moves the page at `from` to `to` within the given album order
+export function movePage(layout: AlbumLayout, ids: number[], from: number, to: number): AlbumLayout {
+  const order = [...ids];
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return { ...layout, order };
+}
+
+// Blank text clears the override, so the page goes back to its default
+export function editPage(layout: AlbumLayout, id: number, patch: AlbumPageText): AlbumLayout {
+  const page = { ...layout.pages[id], ...patch };
+  (Object.keys(page) as (keyof AlbumPageText)[]).forEach(key => {
+    if (!page[key]?.trim()) delete page[key];
+  });
+  const pages = { ...layout.pages };
+  if (Object.keys(page).length > 0) pages[id] = page;
+  else delete pages[id];
+  return { ...layout, pages };
+}
+
+// Splits items into viewer/photobook pages for the theme
+export function paginate<T>(theme: AlbumTheme, items: T[]): T[][] {
+  const size = theme === 'grid' ? GRID_SPREAD_SIZE : 1;
+  const pages: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    pages.push(items.slice(start, start + size));
+  }
+  return pages;
+}
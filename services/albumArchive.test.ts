@@ -0,0 +1,210 @@
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeneratedImage, PhotoStyle, SubjectProfile } from '../types';
+import {
+  ALBUM_ARCHIVE_FORMAT, AlbumArchiveError, AlbumArchiveInput, createAlbumArchive, readAlbumArchive
+} from './albumArchive';
+import { DEFAULT_ALBUM_LAYOUT } from './album';
+import { readProvenance } from './provenance';
+
+// 1x1 transparent PNG
+const PNG_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const SUBJECT: SubjectProfile = {
+  gender: 'female',
+  ageGroup: 'adult',
+  keepFace: true,
+  keepGlasses: false,
+  keepHairstyle: true,
+  keepSkinTone: true
+};
+
+const FALLBACK_SUBJECT: SubjectProfile = { ...SUBJECT, gender: 'unspecified', ageGroup: 'senior' };
+
+const STYLES: PhotoStyle[] = [
+  { id: 1, name: '法式', category: 'Chic', promptSuffix: 'French chic' },
+  { id: 100000, name: 'Noir', category: 'Film', promptSuffix: 'noir', isCustom: true, stableId: 'noir' }
+];
+
+const COMPLETED: GeneratedImage = {
+  styleId: 1,
+  imageUrl: PNG_URL,
+  status: 'completed',
+  aspectRatio: '4:3',
+  imageSize: '2K',
+  model: 'gemini-test',
+  history: [{
+    id: 'h1',
+    createdAt: Date.UTC(2026, 0, 2),
+    imageUrl: PNG_URL,
+    prompt: 'a portrait',
+    model: 'gemini-test',
+    output: { aspectRatio: '4:3', imageSize: '2K' },
+    subject: { ...SUBJECT, keepGlasses: true }
+  }]
+};
+
+const input = (overrides: Partial<AlbumArchiveInput> = {}): AlbumArchiveInput => ({
+  styles: STYLES,
+  selectedIds: [1, 100000],
+  results: { 1: COMPLETED, 100000: { ...COMPLETED, styleId: 100000 } },
+  sourceImage: PNG_URL,
+  subject: SUBJECT,
+  output: { aspectRatio: '3:4', imageSize: '1K' },
+  album: { ...DEFAULT_ALBUM_LAYOUT, theme: 'polaroid', title: 'Summer', order: [100000, 1], pages: { 1: { title: 'Cover' } } },
+  displayName: style => style.name,
+  ...overrides
+});
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  file: 'noir.png',
+  styleId: 100000,
+  stableId: 'noir',
+  name: 'Noir',
+  aspectRatio: '16:9',
+  imageSize: '4K',
+  ...overrides
+});
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: ALBUM_ARCHIVE_FORMAT,
+  version: 2,
+  subject: SUBJECT,
+  output: { aspectRatio: '1:1', imageSize: '2K' },
+  source: null,
+  branded: false,
+  entries: [entry()],
+  ...overrides
+});
+
+// Hand-written archive, for manifests createAlbumArchive would never produce
+async function archive(content: unknown, files: Record<string, string> = { 'noir.png': PNG_URL }) {
+  const zip = new JSZip();
+  if (content !== undefined) zip.file('manifest.json', typeof content === 'string' ? content : JSON.stringify(content));
+  Object.entries(files).forEach(([path, dataUrl]) => zip.file(path, dataUrl.split(',')[1], { base64: true }));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+const read = async (file: Blob | Promise<Blob>) => readAlbumArchive(await file, STYLES, FALLBACK_SUBJECT);
+
+const errorCode = (file: Promise<Blob>) =>
+  read(file).then(() => null, (error: unknown) => error instanceof AlbumArchiveError ? error.code : error);
+
+const imageBytes = (dataUrl: string) => new Uint8Array(Buffer.from(dataUrl.split(',')[1], 'base64'));
+
+// JSZip and blobToDataUrl read blobs through FileReader, which the node environment lacks
+class FakeFileReader {
+  result: string | ArrayBuffer | null = null;
+  error: Error | null = null;
+  onload: ((event: { target: FakeFileReader }) => void) | null = null;
+  onerror: ((event: { target: FakeFileReader }) => void) | null = null;
+
+  readAsArrayBuffer(blob: Blob) {
+    this.read(blob, buffer => buffer);
+  }
+
+  readAsDataURL(blob: Blob) {
+    this.read(blob, buffer => `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`);
+  }
+
+  private read(blob: Blob, convert: (buffer: ArrayBuffer) => string | ArrayBuffer) {
+    blob.arrayBuffer().then(
+      buffer => {
+        this.result = convert(buffer);
+        this.onload?.({ target: this });
+      },
+      (error: Error) => {
+        this.error = error;
+        this.onerror?.({ target: this });
+      }
+    );
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('FileReader', FakeFileReader);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createAlbumArchive', () => {
+  it('round-trips results, layout and the source photo', async () => {
+    const album = await read(createAlbumArchive(input(), { pattern: 'name', includeSource: true, branding: null }));
+
+    expect(album.subject).toEqual(SUBJECT);
+    expect(album.output).toEqual({ aspectRatio: '3:4', imageSize: '1K' });
+    expect(album.layout).toEqual({ theme: 'polaroid', title: 'Summer', order: [100000, 1], pages: { 1: { title: 'Cover' } } });
+    expect(album.skipped).toBe(0);
+    expect(album.sourceImage).toBe(PNG_URL);
+
+    const result = album.results[1];
+    expect(result).toMatchObject({ status: 'completed', aspectRatio: '4:3', imageSize: '2K', model: 'gemini-test' });
+    expect(result.history?.[0]).toMatchObject({
+      createdAt: Date.UTC(2026, 0, 2),
+      prompt: 'a portrait',
+      subject: { ...SUBJECT, keepGlasses: true }
+    });
+    expect(readProvenance(imageBytes(result.imageUrl!)).aiGenerated).toBe(true);
+  });
+
+  it('leaves out unfinished results and the source photo unless asked', async () => {
+    const file = await createAlbumArchive(
+      input({ results: { 1: COMPLETED, 100000: { styleId: 100000, imageUrl: null, status: 'failed' } } }),
+      { pattern: 'id', includeSource: false, branding: null }
+    );
+    const zip = await JSZip.loadAsync(file);
+    const written = JSON.parse(await zip.file('manifest.json')!.async('string'));
+
+    expect(Object.keys(zip.files).sort()).toEqual(['1_法式.png', 'manifest.json']);
+    expect(written).toMatchObject({ version: 2, branded: false, source: null, entries: [{ file: '1_法式.png', stableId: 'builtin-1' }] });
+  });
+});
+
+describe('readAlbumArchive', () => {
+  it('rejects files that are not a valid album', async () => {
+    expect(await errorCode(Promise.resolve(new Blob(['not a zip'])))).toBe('not_zip');
+    expect(await errorCode(archive(undefined))).toBe('no_manifest');
+    expect(await errorCode(archive('{'))).toBe('invalid_manifest');
+    expect(await errorCode(archive([]))).toBe('invalid_manifest');
+    expect(await errorCode(archive(manifest({ format: 'other' })))).toBe('invalid_manifest');
+    expect(await errorCode(archive(manifest({ entries: {} })))).toBe('invalid_manifest');
+    expect(await errorCode(archive(manifest({ subject: 'female' })))).toBe('invalid_manifest');
+    expect(await errorCode(archive(manifest({ version: '2' })))).toBe('newer_version');
+    expect(await errorCode(archive(manifest({ version: 3 })))).toBe('newer_version');
+    expect(await errorCode(archive(manifest({ branded: true })))).toBe('branded');
+    expect(await errorCode(archive(manifest({ entries: [entry({ stableId: 'gone', name: 'Gone' })] })))).toBe('no_matches');
+  });
+
+  it('falls back field by field on invalid values', async () => {
+    const album = await read(archive(manifest({
+      subject: { gender: 'robot', ageGroup: 'adult', keepFace: 'yes', keepGlasses: true },
+      output: { aspectRatio: '2:1', imageSize: 8 },
+      album: { theme: 'neon', title: 7 },
+      entries: [entry({ aspectRatio: null, imageSize: '8K', model: 42, generatedAt: 5, prompt: {}, subject: { gender: 'male' } })]
+    })));
+    const result = album.results[100000];
+
+    expect(album.subject).toEqual({ ...FALLBACK_SUBJECT, ageGroup: 'adult', keepGlasses: true });
+    expect(album.output).toEqual({ aspectRatio: '3:4', imageSize: '1K' });
+    expect(album.layout).toMatchObject({ theme: DEFAULT_ALBUM_LAYOUT.theme, title: '' });
+    expect(result).toMatchObject({ aspectRatio: '3:4', imageSize: '1K', model: undefined });
+    expect(result.history?.[0]).toMatchObject({ prompt: '', model: undefined, subject: { ...album.subject, gender: 'male' } });
+  });
+
+  it('matches entries by stable ID and skips those without a style or image', async () => {
+    const album = await read(archive(manifest({
+      entries: [
+        entry({ styleId: 5 }),
+        entry({ stableId: 'builtin-1', file: 'missing.png' }),
+        entry({ stableId: 'gone', name: 'Gone' }),
+        'noir'
+      ]
+    })));
+
+    expect(Object.keys(album.results)).toEqual(['100000']);
+    expect(album.results[100000].imageUrl).toBe(PNG_URL);
+    expect(album.skipped).toBe(3);
+  });
+});
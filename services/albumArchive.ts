@@ -0,0 +1,291 @@
+import JSZip from 'jszip';
+import { AlbumLayout, AlbumPageText, AlbumTheme, AspectRatio, GeneratedImage, HistoryEntry, ImageSize, OutputSettings, PhotoStyle, SubjectProfile } from '../types';
+import { builtInStableId } from './stylePacks';
+import { findCurrentEntry } from './history';
+import { provenanceFor, withProvenance } from './provenance';
+import { BrandingSettings, applyBranding, isBrandingActive } from './branding';
+import { blobToDataUrl, dataUrlToBlob, extensionForDataUrl, extensionForMimeType, safeFileName } from './imageUtils';
+import { englishStyleName } from '../i18n/styleNames';
+import { DEFAULT_ALBUM_LAYOUT, isAlbumTheme, orderAlbumIds } from './album';
+import { parseSubjectProfile } from './subject';
+
+export const ALBUM_ARCHIVE_FORMAT = 'ai-photo-studio.album';
+export const ALBUM_ARCHIVE_VERSION = 2; // 2 records whether the images are branded
+const MANIFEST_FILE = 'manifest.json';
+
+// 'id' keeps the old flat `${id}_${name}` layout; 'category' adds a folder per category; 'name' uses the English style name
+export type FileNamePattern = 'id' | 'category' | 'name';
+
+export const FILE_NAME_PATTERNS: FileNamePattern[] = ['id', 'category', 'name'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+const isImageSize = (value: unknown): value is ImageSize => IMAGE_SIZES.includes(value as ImageSize);
+
+export interface AlbumManifestEntry {
+  file: string; // Path inside the ZIP
+  styleId: number;
+  stableId: string;
+  name: string; // English name, independent of the UI language at export time
+  category: string;
+  promptSuffix: string;
+  prompt: string | null; // Null for results generated before prompts were recorded
+  model: string | null;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize | null;
+  generatedAt: string | null; // ISO timestamp
+  subject: SubjectProfile | null;
+  title: string | null; // Edited page title and caption, if any
+  caption: string | null;
+}
+
+export interface AlbumManifest {
+  format: typeof ALBUM_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  subject: SubjectProfile;
+  output: OutputSettings;
+  source: string | null; // Path of the uploaded photo, when included
+  branded: boolean; // Images carry the watermark, so they cannot come back as clean originals
+  album: { theme: AlbumTheme; title: string };
+  entries: AlbumManifestEntry[]; // In album page order
+}
+
+export type AlbumArchiveErrorCode = 'not_zip' | 'no_manifest' | 'invalid_manifest' | 'newer_version' | 'branded' | 'no_matches';
+
+export class AlbumArchiveError extends Error {
+  code: AlbumArchiveErrorCode;
+
+  constructor(code: AlbumArchiveErrorCode, message: string) {
+    super(message);
+    this.name = 'AlbumArchiveError';
+    this.code = code;
+  }
+}
+
+export interface AlbumArchiveOptions {
+  pattern: FileNamePattern;
+  includeSource: boolean;
+  branding: BrandingSettings | null; // Watermark for the images; null for a clean export
+}
+
+export interface AlbumArchiveInput {
+  styles: PhotoStyle[];
+  selectedIds: Iterable<number>;
+  results: Record<number, GeneratedImage>;
+  sourceImage: string | null;
+  subject: SubjectProfile;
+  output: OutputSettings;
+  album: AlbumLayout;
+  displayName: (style: PhotoStyle) => string; // Used by the 'id' pattern, like the album itself
+}
+
+// Appends -2, -3, ... when a path is already taken
+const uniquePath = (path: string, taken: Set<string>) => {
+  const dot = path.lastIndexOf('.');
+  let candidate = path;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${path.slice(0, dot)}-${n}${path.slice(dot)}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const entryPath = (pattern: FileNamePattern, style: PhotoStyle, displayName: string, extension: string) => {
+  switch (pattern) {
+    case 'category':
+      return `${safeFileName(style.category)}/${safeFileName(englishStyleName(style))}.${extension}`;
+    case 'name':
+      return `${safeFileName(englishStyleName(style))}.${extension}`;
+    default:
+      return `${style.id}_${safeFileName(displayName)}.${extension}`;
+  }
+};
+
+export async function createAlbumArchive(input: AlbumArchiveInput, options: AlbumArchiveOptions): Promise<Blob> {
+  const zip = new JSZip();
+  const taken = new Set<string>([MANIFEST_FILE]);
+  const entries: AlbumManifestEntry[] = [];
+
+  for (const id of orderAlbumIds(input.selectedIds, input.album.order)) {
+    const result = input.results[id];
+    const style = input.styles.find(s => s.id === id);
+    if (!style || result?.status !== 'completed' || !result.imageUrl) continue;
+
+    const imageUrl = await applyBranding(result.imageUrl, options.branding);
+    const image = await withProvenance(imageUrl, provenanceFor(result, style));
+    const file = uniquePath(entryPath(options.pattern, style, input.displayName(style), extensionForMimeType(image.type)), taken);
+    zip.file(file, image);
+
+    const entry = findCurrentEntry(result);
+    entries.push({
+      file,
+      styleId: style.id,
+      stableId: builtInStableId(style),
+      name: englishStyleName(style),
+      category: style.category,
+      promptSuffix: style.promptSuffix,
+      prompt: entry?.prompt || null,
+      model: result.model || entry?.model || null,
+      aspectRatio: result.aspectRatio || entry?.output.aspectRatio || input.output.aspectRatio,
+      imageSize: result.imageSize || entry?.output.imageSize || null,
+      generatedAt: entry ? new Date(entry.createdAt).toISOString() : null,
+      subject: entry?.subject || null,
+      title: input.album.pages[id]?.title || null,
+      caption: input.album.pages[id]?.caption || null
+    });
+  }
+
+  let source: string | null = null;
+  if (options.includeSource && input.sourceImage) {
+    source = uniquePath(`source.${extensionForDataUrl(input.sourceImage)}`, taken);
+    zip.file(source, dataUrlToBlob(input.sourceImage));
+  }
+
+  const manifest: AlbumManifest = {
+    format: ALBUM_ARCHIVE_FORMAT,
+    version: ALBUM_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    subject: input.subject,
+    output: input.output,
+    source,
+    branded: isBrandingActive(options.branding),
+    album: { theme: input.album.theme, title: input.album.title },
+    entries
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+}
+
+export interface ImportedAlbum {
+  subject: SubjectProfile;
+  output: OutputSettings;
+  sourceImage: string | null;
+  results: Record<number, GeneratedImage>;
+  layout: AlbumLayout; // Archives written before album layouts come back in entry order with the default theme
+  skipped: number; // Entries whose style or image could not be found
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readImage = async (zip: JSZip, path: unknown): Promise<string | null> => {
+  if (typeof path !== 'string') return null;
+  const file = zip.file(path);
+  if (!file) return null;
+  const bytes = await file.async('uint8array');
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return blobToDataUrl(new Blob([bytes], { type: MIME_TYPES[extension] || 'image/png' }));
+};
+
+// Matches by stable ID first, since numeric IDs of custom styles differ between installs
+const findStyle = (styles: PhotoStyle[], entry: Record<string, unknown>) =>
+  styles.find(style => typeof entry.stableId === 'string' && builtInStableId(style) === entry.stableId)
+  || styles.find(style => style.id === entry.styleId && englishStyleName(style) === entry.name);
+
+export async function readAlbumArchive(file: Blob, styles: PhotoStyle[], fallbackSubject: SubjectProfile): Promise<ImportedAlbum> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new AlbumArchiveError('not_zip', 'The file is not a ZIP archive');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new AlbumArchiveError('no_manifest', `The archive has no ${MANIFEST_FILE}`);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new AlbumArchiveError('invalid_manifest', `${MANIFEST_FILE} is not valid JSON`);
+  }
+  if (!isObject(manifest) || manifest.format !== ALBUM_ARCHIVE_FORMAT || !Array.isArray(manifest.entries) || !isObject(manifest.subject)) {
+    throw new AlbumArchiveError('invalid_manifest', `${MANIFEST_FILE} is not an album manifest`);
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ALBUM_ARCHIVE_VERSION) {
+    throw new AlbumArchiveError('newer_version', `Album version ${manifest.version} is newer than this app supports`);
+  }
+  // Imported images become the originals every later export brands again, so a second watermark would stack up
+  if (manifest.branded === true) {
+    throw new AlbumArchiveError('branded', 'The album was exported with branding');
+  }
+
+  const subject = parseSubjectProfile(manifest.subject, fallbackSubject);
+  const storedOutput = isObject(manifest.output) ? manifest.output : {};
+  const output: OutputSettings = {
+    aspectRatio: isAspectRatio(storedOutput.aspectRatio) ? storedOutput.aspectRatio : '3:4',
+    imageSize: isImageSize(storedOutput.imageSize) ? storedOutput.imageSize : '1K'
+  };
+
+  const results: Record<number, GeneratedImage> = {};
+  const order: number[] = [];
+  const pages: Record<number, AlbumPageText> = {};
+  let skipped = 0;
+  for (const entry of manifest.entries) {
+    const style = isObject(entry) ? findStyle(styles, entry) : undefined;
+    const imageUrl = style && isObject(entry) ? await readImage(zip, entry.file) : null;
+    if (!style || !imageUrl || !isObject(entry)) {
+      skipped++;
+      continue;
+    }
+
+    const entryOutput: OutputSettings = {
+      aspectRatio: isAspectRatio(entry.aspectRatio) ? entry.aspectRatio : output.aspectRatio,
+      imageSize: isImageSize(entry.imageSize) ? entry.imageSize : output.imageSize
+    };
+    // Recorded as a history entry so the prompt and settings stay visible, and re-runs work
+    const historyEntry: HistoryEntry = {
+      id: `import-${style.id}`,
+      createdAt: typeof entry.generatedAt === 'string' ? Date.parse(entry.generatedAt) || Date.now() : Date.now(),
+      imageUrl,
+      prompt: typeof entry.prompt === 'string' ? entry.prompt : '',
+      model: typeof entry.model === 'string' && entry.model ? entry.model : undefined,
+      output: entryOutput,
+      subject: isObject(entry.subject) ? parseSubjectProfile(entry.subject, subject) : subject
+    };
+    results[style.id] = {
+      styleId: style.id,
+      imageUrl,
+      status: 'completed',
+      aspectRatio: entryOutput.aspectRatio,
+      imageSize: entryOutput.imageSize,
+      model: historyEntry.model,
+      history: [historyEntry]
+    };
+    order.push(style.id);
+    const page: AlbumPageText = {};
+    if (typeof entry.title === 'string' && entry.title.trim()) page.title = entry.title;
+    if (typeof entry.caption === 'string' && entry.caption.trim()) page.caption = entry.caption;
+    if (Object.keys(page).length > 0) pages[style.id] = page;
+  }
+
+  if (Object.keys(results).length === 0) {
+    throw new AlbumArchiveError('no_matches', 'None of the archived images match a known style');
+  }
+
+  return {
+    subject,
+    output,
+    sourceImage: await readImage(zip, manifest.source),
+    results,
+    layout: {
+      theme: isObject(manifest.album) && isAlbumTheme(manifest.album.theme) ? manifest.album.theme : DEFAULT_ALBUM_LAYOUT.theme,
+      title: isObject(manifest.album) && typeof manifest.album.title === 'string' ? manifest.album.title : '',
+      order,
+      pages
+    },
+    skipped
+  };
+}
@@ -0,0 +1,187 @@
+import { loadImage } from './imageUtils';
+
+const STORAGE_KEY = 'ai-photo-studio.branding';
+
+// Logos are downscaled on upload so the settings stay small enough for localStorage
+const MAX_LOGO_SIZE = 512;
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+
+export type BrandingMode = 'text' | 'logo';
+
+export type BrandingPosition = 'topLeft' | 'topRight' | 'center' | 'bottomLeft' | 'bottomRight';
+
+export const BRANDING_POSITIONS: BrandingPosition[] = ['topLeft', 'topRight', 'center', 'bottomLeft', 'bottomRight'];
+
+export interface BrandingSettings {
+  enabled: boolean;
+  mode: BrandingMode;
+  text: string;
+  logo: string | null; // PNG data URL
+  position: BrandingPosition; // Ignored while tiled
+  opacity: number;
+  scale: number; // Mark width as a fraction of the image width
+  tiled: boolean; // Repeats the mark diagonally across the whole image
+}
+
+export const DEFAULT_BRANDING: BrandingSettings = {
+  enabled: false,
+  mode: 'text',
+  text: '',
+  logo: null,
+  position: 'bottomRight',
+  opacity: 0.6,
+  scale: 0.25,
+  tiled: false
+};
+
+export const BRANDING_LIMITS = {
+  opacity: { min: 0.05, max: 1, step: 0.05 },
+  scale: { min: 0.05, max: 0.8, step: 0.01 },
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export function loadBrandingSettings(): BrandingSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_BRANDING;
+    const parsed = JSON.parse(raw);
+    return {
+      enabled: parsed?.enabled === true,
+      mode: parsed?.mode === 'logo' ? 'logo' : 'text',
+      text: typeof parsed?.text === 'string' ? parsed.text : '',
+      logo: typeof parsed?.logo === 'string' && parsed.logo.startsWith('data:image/') ? parsed.logo : null,
+      position: BRANDING_POSITIONS.includes(parsed?.position) ? parsed.position : DEFAULT_BRANDING.position,
+      opacity: clamp(parsed?.opacity, BRANDING_LIMITS.opacity, DEFAULT_BRANDING.opacity),
+      scale: clamp(parsed?.scale, BRANDING_LIMITS.scale, DEFAULT_BRANDING.scale),
+      tiled: parsed?.tiled === true
+    };
+  } catch (error) {
+    console.error('Failed to load branding settings', error);
+    return DEFAULT_BRANDING;
+  }
+}
+
+export function saveBrandingSettings(settings: BrandingSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Most likely the storage quota; the settings still apply for this visit
+    console.error('Failed to save branding settings', error);
+  }
+}
+
+// True when exports would actually get a mark: switched on and with something to draw
+export function isBrandingActive(settings: BrandingSettings | null): settings is BrandingSettings {
+  if (!settings?.enabled) return false;
+  return settings.mode === 'logo' ? !!settings.logo : settings.text.trim().length > 0;
+}
+
+export function loadBrandingLogo(settings: BrandingSettings | null): Promise<HTMLImageElement | null> {
+  return isBrandingActive(settings) && settings.mode === 'logo' && settings.logo
+    ? loadImage(settings.logo)
+    : Promise.resolve(null);
+}
+
+// Reads an uploaded logo into a PNG data URL no larger than MAX_LOGO_SIZE, keeping transparency
+export async function prepareLogo(file: Blob): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const ratio = Math.min(1, MAX_LOGO_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * ratio));
+    canvas.height = Math.max(1, Math.round(img.height * ratio));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Draws the mark over whatever is already on the canvas; `logo` comes from loadBrandingLogo
+export function drawBranding(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  settings: BrandingSettings | null,
+  logo: HTMLImageElement | null
+): void {
+  if (!isBrandingActive(settings)) return;
+  if (settings.mode === 'logo' && !logo) return;
+
+  ctx.save();
+  ctx.globalAlpha = settings.opacity;
+
+  let markWidth = width * settings.scale;
+  let markHeight: number;
+  let drawMark: (x: number, y: number) => void;
+
+  if (settings.mode === 'logo' && logo) {
+    markHeight = markWidth * logo.height / logo.width;
+    // Tall logos are capped so they never cover more than half the image height
+    if (markHeight > height / 2) {
+      markWidth *= height / 2 / markHeight;
+      markHeight = height / 2;
+    }
+    drawMark = (x, y) => ctx.drawImage(logo, x, y, markWidth, markHeight);
+  } else {
+    const text = settings.text.trim();
+    ctx.font = `600 100px ${FONT_FAMILY}`;
+    const fontSize = Math.max(8, Math.min(height / 4, 100 * markWidth / ctx.measureText(text).width));
+    ctx.font = `600 ${fontSize}px ${FONT_FAMILY}`;
+    markWidth = ctx.measureText(text).width;
+    markHeight = fontSize;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#ffffff';
+    // A soft shadow keeps white text readable on light backgrounds
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = fontSize * 0.15;
+    drawMark = (x, y) => ctx.fillText(text, x, y);
+  }
+
+  if (settings.tiled) {
+    const stepX = markWidth * 1.6;
+    const stepY = markHeight * 3;
+    const reach = Math.hypot(width, height) / 2;
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(-Math.PI / 6);
+    for (let row = 0, y = -reach; y < reach; row++, y += stepY) {
+      // Alternate rows are offset by half a step so the marks form a diagonal lattice
+      for (let x = -reach - (row % 2) * stepX / 2; x < reach; x += stepX) {
+        drawMark(x, y);
+      }
+    }
+  } else {
+    const margin = Math.min(width, height) * 0.03;
+    const { position } = settings;
+    const x = position.endsWith('Left') ? margin
+      : position.endsWith('Right') ? width - margin - markWidth
+      : (width - markWidth) / 2;
+    const y = position.startsWith('top') ? margin
+      : position.startsWith('bottom') ? height - margin - markHeight
+      : (height - markHeight) / 2;
+    drawMark(x, y);
+  }
+
+  ctx.restore();
+}
+
+// Returns a watermarked copy of an export, or the image untouched when branding is off. Session state is never modified
+export async function applyBranding(dataUrl: string, settings: BrandingSettings | null): Promise<string> {
+  if (!isBrandingActive(settings)) return dataUrl;
+  const [img, logo] = await Promise.all([loadImage(dataUrl), loadBrandingLogo(settings)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth || img.width;
+  canvas.height = img.naturalHeight || img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0);
+  drawBranding(ctx, canvas.width, canvas.height, settings, logo);
+  // Re-encode in the original format so file extensions and metadata handling stay the same
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1];
+  return canvas.toDataURL(mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png', 0.92);
+}
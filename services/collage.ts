@@ -0,0 +1,295 @@
+import { AlbumItem } from '../types';
+import { drawImageCover } from './imageUtils';
+
+export type CollageLayout = 'grid' | 'social' | 'filmstrip';
+
+export const COLLAGE_LAYOUTS: CollageLayout[] = ['grid', 'social', 'filmstrip'];
+
+// Output sizes in pixels, matching what the common platforms display without recompressing
+export type CollageSize = 'square' | 'portrait' | 'story' | 'landscape' | 'link' | 'pin';
+
+export const COLLAGE_SIZES: Record<CollageSize, { width: number; height: number }> = {
+  square: { width: 1080, height: 1080 }, // Instagram post
+  portrait: { width: 1080, height: 1350 }, // Instagram portrait post
+  story: { width: 1080, height: 1920 }, // Stories, Reels, TikTok
+  landscape: { width: 1600, height: 900 }, // X, LinkedIn
+  link: { width: 1200, height: 630 }, // Facebook and link previews
+  pin: { width: 1000, height: 1500 }, // Pinterest
+};
+
+export interface CollageOptions {
+  layout: CollageLayout;
+  size: CollageSize;
+  captions: boolean;
+  spacing: number; // Pixels between cells and around the edge
+  background: string; // CSS hex color
+}
+
+export const DEFAULT_COLLAGE_OPTIONS: CollageOptions = {
+  layout: 'grid',
+  size: 'square',
+  captions: true,
+  spacing: 16,
+  background: '#0f172a',
+};
+
+// The social collage is always a 3×3 grid; extra images are left out
+export const SOCIAL_GRID_CELLS = 9;
+
+const FILM_COLOR = '#111111';
+
+interface Rect { x: number; y: number; w: number; h: number }
+
+interface Cell {
+  image: Rect;
+  caption?: Rect;
+}
+
+const ratioOf = (item: AlbumItem) => {
+  const [w, h] = item.aspectRatio.split(':').map(Number);
+  return w / h;
+};
+
+// Most common aspect among the items, so mixed albums still get sensible cells
+const dominantRatio = (items: AlbumItem[]) => {
+  const counts = new Map<number, number>();
+  items.forEach(item => counts.set(ratioOf(item), (counts.get(ratioOf(item)) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 3 / 4;
+};
+
+const captionHeight = (cellWidth: number) => Math.round(Math.min(48, Math.max(18, cellWidth * 0.09)));
+
+const isDark = (hex: string) => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  const r = (value >> 16) & 255, g = (value >> 8) & 255, b = value & 255;
+  return (0.299 * r + 0.587 * g + 0.114 * b) < 140;
+};
+
+const ellipsize = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && ctx.measureText(`${chars.join('')}…`).width > maxWidth) chars.pop();
+  return `${chars.join('')}…`;
+};
+
+// Picks the column count that gives each image the largest area, then centers a short last row
+function gridCells(count: number, width: number, height: number, gap: number, ratio: number, captions: boolean): Cell[] {
+  let best = { columns: 1, area: -1 };
+  for (let columns = 1; columns <= count; columns++) {
+    const rows = Math.ceil(count / columns);
+    const cellW = (width - gap * (columns + 1)) / columns;
+    const cellH = (height - gap * (rows + 1)) / rows - (captions ? captionHeight(cellW) : 0);
+    if (cellW <= 0 || cellH <= 0) continue;
+    const imageW = Math.min(cellW, cellH * ratio);
+    const area = imageW * (imageW / ratio);
+    if (area > best.area) best = { columns, area };
+  }
+
+  const columns = best.columns;
+  const rows = Math.ceil(count / columns);
+  const cellW = (width - gap * (columns + 1)) / columns;
+  const caption = captions ? captionHeight(cellW) : 0;
+  const cellH = (height - gap * (rows + 1)) / rows;
+  // Trim the cells to the images' shape so the grid is not padded with empty background
+  const imageW = Math.min(cellW, (cellH - caption) * ratio);
+  const imageH = imageW / ratio;
+  const blockW = columns * imageW + (columns - 1) * gap;
+  const blockH = rows * (imageH + caption) + (rows - 1) * gap;
+  const top = (height - blockH) / 2;
+
+  return Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / columns);
+    const inRow = row === rows - 1 ? count - row * columns : columns;
+    const rowLeft = (width - blockW) / 2 + (columns - inRow) * (imageW + gap) / 2;
+    const x = rowLeft + (index % columns) * (imageW + gap);
+    const y = top + row * (imageH + caption + gap);
+    return {
+      image: { x, y, w: imageW, h: imageH },
+      caption: captions ? { x, y: y + imageH, w: imageW, h: caption } : undefined
+    };
+  });
+}
+
+function socialCells(width: number, height: number, gap: number, captions: boolean): Cell[] {
+  const cellW = (width - gap * 4) / 3;
+  const cellH = (height - gap * 4) / 3;
+  // Captions sit on the image here, so the grid keeps its exact 3×3 shape
+  const caption = captions ? captionHeight(cellW) : 0;
+  return Array.from({ length: SOCIAL_GRID_CELLS }, (_, index) => {
+    const x = gap + (index % 3) * (cellW + gap);
+    const y = gap + Math.floor(index / 3) * (cellH + gap);
+    return {
+      image: { x, y, w: cellW, h: cellH },
+      caption: captions ? { x, y: y + cellH - caption, w: cellW, h: caption } : undefined
+    };
+  });
+}
+
+// Frames run along the longer side of the output, with sprocket holes on the film's edges. Long albums wrap
+// into parallel strips, as many as give each frame the largest area, so frames never shrink to slivers
+function filmstripCells(count: number, width: number, height: number, gap: number, ratio: number, captions: boolean) {
+  const horizontal = width >= height;
+  const along = horizontal ? width : height;
+  const across = horizontal ? height : width;
+  const frameGap = Math.max(4, gap / 2);
+
+  const captionFor = (frameAlong: number) =>
+    captions ? captionHeight(horizontal ? frameAlong : frameAlong * ratio) : 0;
+
+  // Frame size when `frames` frames fill the strip's length and the strip is at most `space` thick;
+  // frames also keep `frameGap` from the strip's ends
+  const frameSize = (frames: number, space: number) => {
+    let frameAlong = (along - gap * 2 - frameGap * (frames + 1)) / frames;
+    if (!horizontal) {
+      // Vertical captions take length from the frames; a second pass settles the caption size
+      for (let pass = 0; pass < 2; pass++) {
+        frameAlong = (along - gap * 2 - frameGap * (frames + 1)) / frames - captionFor(frameAlong);
+      }
+    }
+    let frameAcross = horizontal ? frameAlong / ratio : frameAlong * ratio;
+    let caption = captionFor(frameAlong);
+    let sprocket = Math.max(14, frameAcross * 0.12);
+    // Sprockets scale with the frame, so the largest frame that fits solves frame + 2 × sprocket <= room
+    const room = space - (horizontal ? caption : 0);
+    const maxAcross = Math.min(room / 1.24, room - 28);
+    if (frameAcross > maxAcross) {
+      frameAcross = maxAcross;
+      frameAlong = horizontal ? frameAcross * ratio : frameAcross / ratio;
+      caption = captionFor(frameAlong);
+      sprocket = Math.max(14, frameAcross * 0.12);
+    }
+    return { frameAlong, frameAcross, caption, sprocket };
+  };
+
+  const spaceFor = (strips: number) => (across - gap * (strips + 1)) / strips;
+  let best = { strips: 1, area: -1 };
+  for (let strips = 1; strips <= count; strips++) {
+    const perStrip = Math.ceil(count / strips);
+    // Skip counts that would leave a strip empty
+    if (Math.ceil(count / perStrip) < strips) continue;
+    const { frameAlong, frameAcross } = frameSize(perStrip, spaceFor(strips));
+    if (frameAlong <= 0 || frameAcross <= 0) continue;
+    if (frameAlong * frameAcross > best.area) best = { strips, area: frameAlong * frameAcross };
+  }
+
+  const stripCount = best.strips;
+  const perStrip = Math.ceil(count / stripCount);
+  const { frameAlong, frameAcross, caption, sprocket } = frameSize(perStrip, spaceFor(stripCount));
+
+  // In a vertical strip each caption adds to the frame's length
+  const step = frameAlong + (horizontal ? 0 : caption) + frameGap;
+  const stripAcross = frameAcross + sprocket * 2 + (horizontal ? caption : 0);
+  const blockTop = (across - stripCount * stripAcross - (stripCount - 1) * gap) / 2;
+
+  const strips: Rect[] = [];
+  const cells: Cell[] = [];
+  for (let index = 0; index < stripCount; index++) {
+    // A shorter last strip is centered like the others
+    const frames = Math.min(perStrip, count - index * perStrip);
+    const stripAlong = frames * step + frameGap;
+    const stripStart = (along - stripAlong) / 2;
+    const stripTop = blockTop + index * (stripAcross + gap);
+    strips.push(horizontal
+      ? { x: stripStart, y: stripTop, w: stripAlong, h: stripAcross }
+      : { x: stripTop, y: stripStart, w: stripAcross, h: stripAlong });
+
+    for (let frame = 0; frame < frames; frame++) {
+      const a = stripStart + frameGap + frame * step;
+      const b = stripTop + sprocket;
+      cells.push(horizontal
+        ? {
+            image: { x: a, y: b, w: frameAlong, h: frameAcross },
+            caption: captions ? { x: a, y: b + frameAcross, w: frameAlong, h: caption } : undefined
+          }
+        : {
+            image: { x: b, y: a, w: frameAcross, h: frameAlong },
+            caption: captions ? { x: b, y: a + frameAlong, w: frameAcross, h: caption } : undefined
+          });
+    }
+  }
+
+  return { strips, sprocket, horizontal, cells };
+}
+
+function drawSprockets(ctx: CanvasRenderingContext2D, strip: Rect, sprocket: number, horizontal: boolean, background: string) {
+  const hole = sprocket * 0.45;
+  const pitch = hole * 2.2;
+  const length = horizontal ? strip.w : strip.h;
+  ctx.fillStyle = background;
+  for (let offset = pitch / 2; offset + hole < length; offset += pitch) {
+    const inset = (sprocket - hole) / 2;
+    if (horizontal) {
+      ctx.fillRect(strip.x + offset, strip.y + inset, hole, hole);
+      ctx.fillRect(strip.x + offset, strip.y + strip.h - inset - hole, hole, hole);
+    } else {
+      ctx.fillRect(strip.x + inset, strip.y + offset, hole, hole);
+      ctx.fillRect(strip.x + strip.w - inset - hole, strip.y + offset, hole, hole);
+    }
+  }
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string, rect: Rect, color: string, overlay: boolean) {
+  if (overlay) {
+    const gradient = ctx.createLinearGradient(0, rect.y, 0, rect.y + rect.h);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.65)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+  }
+  ctx.fillStyle = color;
+  ctx.font = `500 ${Math.round(rect.h * 0.5)}px Inter, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(ellipsize(ctx, text, rect.w - 8), rect.x + rect.w / 2, rect.y + rect.h / 2);
+}
+
+// Draws the collage onto `canvas`, resizing it to the output size; `images` line up with `items`
+export function drawCollage(canvas: HTMLCanvasElement, items: AlbumItem[], images: HTMLImageElement[], options: CollageOptions): void {
+  const { width, height } = COLLAGE_SIZES[options.size];
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = options.background;
+  ctx.fillRect(0, 0, width, height);
+  if (items.length === 0) return;
+
+  const gap = Math.max(0, options.spacing);
+  const ratio = dominantRatio(items);
+  const captionColor = isDark(options.background) ? '#f1f5f9' : '#0f172a';
+
+  if (options.layout === 'filmstrip') {
+    const { strips, sprocket, horizontal, cells } = filmstripCells(items.length, width, height, gap, ratio, options.captions);
+    strips.forEach(strip => {
+      ctx.fillStyle = FILM_COLOR;
+      ctx.fillRect(strip.x, strip.y, strip.w, strip.h);
+      drawSprockets(ctx, strip, sprocket, horizontal, options.background);
+    });
+    cells.forEach((cell, index) => {
+      drawImageCover(ctx, images[index], cell.image.x, cell.image.y, cell.image.w, cell.image.h);
+      if (cell.caption) drawCaption(ctx, items[index].name, cell.caption, '#e2e8f0', false);
+    });
+    return;
+  }
+
+  if (options.layout === 'social') {
+    const emptyColor = isDark(options.background) ? 'rgba(255, 255, 255, 0.06)' : 'rgba(0, 0, 0, 0.06)';
+    socialCells(width, height, gap, options.captions).forEach((cell, index) => {
+      const { x, y, w, h } = cell.image;
+      if (index >= items.length) {
+        ctx.fillStyle = emptyColor;
+        ctx.fillRect(x, y, w, h);
+        return;
+      }
+      drawImageCover(ctx, images[index], x, y, w, h);
+      if (cell.caption) drawCaption(ctx, items[index].name, cell.caption, '#ffffff', true);
+    });
+    return;
+  }
+
+  gridCells(items.length, width, height, gap, ratio, options.captions).forEach((cell, index) => {
+    drawImageCover(ctx, images[index], cell.image.x, cell.image.y, cell.image.w, cell.image.h);
+    if (cell.caption) drawCaption(ctx, items[index].name, cell.caption, captionColor, false);
+  });
+}
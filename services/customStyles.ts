@@ -0,0 +1,85 @@
+import { PhotoStyle } from '../types';
+import { parsePromptOverrides } from './promptTemplates';
+
+const STORAGE_KEY = 'ai-photo-studio.custom-styles';
+// Highest ID handed out so far
+const COUNTER_KEY = 'ai-photo-studio.custom-style-counter';
+
+// Custom styles live in their own ID range so they never collide with built-in IDs (1-999)
+export const CUSTOM_STYLE_ID_BASE = 100000;
+
+export const isCustomStyleId = (id: number) => id >= CUSTOM_STYLE_ID_BASE;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringRecord = (value: unknown): Record<string, string> | undefined => {
+  if (!isObject(value)) return undefined;
+  const entries = Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+function parseCustomStyle(value: unknown): PhotoStyle | null {
+  if (!isObject(value) || typeof value.id !== 'number' || !isCustomStyleId(value.id) || typeof value.name !== 'string') return null;
+  const names = stringRecord(value.names);
+  const tags = Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : undefined;
+  const promptOverrides = parsePromptOverrides(value.promptOverrides);
+  return {
+    id: value.id,
+    name: value.name,
+    category: typeof value.category === 'string' && value.category ? value.category : 'Custom',
+    promptSuffix: typeof value.promptSuffix === 'string' ? value.promptSuffix : '',
+    isCustom: true,
+    // Styles saved before style packs existed get a stable ID derived from their numeric one
+    stableId: typeof value.stableId === 'string' ? value.stableId : `custom-${value.id}`,
+    ...(names ? { names } : {}),
+    ...(tags ? { tags } : {}),
+    ...(typeof value.packId === 'string' ? { packId: value.packId } : {}),
+    ...(typeof value.promptTemplateId === 'string' ? { promptTemplateId: value.promptTemplateId } : {}),
+    ...(promptOverrides ? { promptOverrides } : {})
+  };
+}
+
+export function loadCustomStyles(): PhotoStyle[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(parseCustomStyle).filter((style): style is PhotoStyle => style !== null);
+  } catch (error) {
+    console.error('Failed to load custom styles', error);
+    return [];
+  }
+}
+
+export function saveCustomStyles(styles: PhotoStyle[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+  } catch (error) {
+    // Most likely the storage quota; the styles still work until the page is reloaded
+    console.error('Failed to save custom styles', error);
+  }
+}
+
+const readLastIssuedId = (): number => {
+  try {
+    const value = Number(localStorage.getItem(COUNTER_KEY));
+    return Number.isInteger(value) && isCustomStyleId(value) ? value : CUSTOM_STYLE_ID_BASE - 1;
+  } catch {
+    return CUSTOM_STYLE_ID_BASE - 1;
+  }
+};
+
+// IDs are never handed out twice: a new style reusing a deleted one's ID would inherit its results,
+// history, prompt settings and saved-session data
+export function nextCustomStyleId(styles: PhotoStyle[]): number {
+  const ids = styles.filter(s => isCustomStyleId(s.id)).map(s => s.id);
+  const id = Math.max(readLastIssuedId(), ...ids) + 1;
+  try {
+    localStorage.setItem(COUNTER_KEY, String(id));
+  } catch (error) {
+    console.error('Failed to save the custom style counter', error);
+  }
+  return id;
+}
@@ -1,75 +1,101 @@
+import { AspectRatio, OutputSettings, PhotoStyle, SubjectProfile } from "../types";
+import { getActiveProvider, ImageGenerationResult, ProviderError, ReferenceImage } from "./providers";
+import { describeSubject, fidelityClause, traitInstructions } from "./subject";
+import { PROMPT_SECTIONS, PromptLibrary, PromptVariables, renderTemplate, resolveStylePrompt } from "./promptTemplates";
 
-import { GoogleGenAI } from "@google/genai";
-import { Gender } from "../types";
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = { aspectRatio: '3:4', imageSize: '1K' };
 
-// Using the nano banana model as requested (mapped to gemini-2.5-flash-image)
-const MODEL_NAME = 'gemini-2.5-flash-image';
+// Dynamically extract mimeType and base64 data
+export function parseDataUrl(dataUrl: string): ReferenceImage {
+  // Subtypes may contain dots, dashes and plus signs (e.g. image/svg+xml, image/vnd.microsoft.icon)
+  const match = dataUrl.match(/^data:(image\/[\w.+-]+);base64,(.+)$/);
+  return {
+    mimeType: match ? match[1] : 'image/jpeg',
+    data: match ? match[2] : dataUrl.replace(/^data:[^,]*,/, '')
+  };
+}
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Fills the style's prompt template; the preview and the queue both go through here
+export function buildPrompt(
+  subject: SubjectProfile,
+  style: PhotoStyle,
+  aspectRatio: AspectRatio,
+  referenceCount: number,
+  library: PromptLibrary
+): string {
+  const { template, overrides } = resolveStylePrompt(style, library);
 
-export async function generateStyledImage(
-  base64Image: string,
-  gender: Gender,
-  stylePromptSuffix: string
-): Promise<string> {
-  try {
-    // Dynamically extract mimeType and base64 data
-    const match = base64Image.match(/^data:(image\/[a-z]+);base64,(.+)$/);
-    const mimeType = match ? match[1] : 'image/jpeg';
-    const cleanBase64 = match ? match[2] : base64Image.replace(/^data:image\/[a-z]+;base64,/, '');
-    
-    // Special instruction for male facial preservation
-    const facialFidelityInstruction = gender === 'male' 
-      ? "STRICTLY preserve the original face. The facial features, structure, and identity of the man in the input photo must remain UNCHANGED and IDENTICAL. Do not beautify, refine, or alter his face in any way."
-      : "Preserve the facial features and identity of the person in the reference image while applying the style.";
+  // Explain the role of each photo when more than one is attached
+  const referenceInstruction = referenceCount > 1
+    ? `Reference Photos: You are given ${referenceCount} photos of the SAME person. The first photo is the primary reference for identity, expression and framing. The other ${referenceCount - 1} photo(s) show the same person from other angles or distances; use them only to improve likeness of the face, profile, hair and body proportions. Do not combine different people and do not copy their backgrounds.`
+    : '';
 
-    // Construct a concise and strong prompt
-    const prompt = `Generate a photorealistic portrait of a ${gender} based on the input image.
-    Target Style: ${stylePromptSuffix}.
-    
-    Strict Requirements:
-    1. ${facialFidelityInstruction}
-    2. High resolution, professional photography quality.
-    3. Maintain aspect ratio 3:4.
-    4. Ensure the lighting and environment match the target style while keeping the person recognizable.`;
+  const variables: PromptVariables = {
+    subject: describeSubject(subject),
+    style: style.promptSuffix,
+    aspectRatio,
+    fidelity: fidelityClause(subject),
+    traits: traitInstructions(subject).map(instruction => `- ${instruction}`).join('\n'),
+    references: referenceInstruction,
+    images: referenceCount > 1 ? 'images' : 'image'
+  };
+  // Overrides may use the other variables themselves, e.g. "the {{subject}}"
+  const resolved = { ...variables };
+  PROMPT_SECTIONS.forEach(section => {
+    const override = overrides[section];
+    if (override) resolved[section] = renderTemplate(override, variables);
+  });
 
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-            {
-                inlineData: {
-                    mimeType: mimeType,
-                    data: cleanBase64
-                }
-            },
-            {
-                text: prompt
-            }
-        ]
-      },
-      config: {
-          imageConfig: {
-              aspectRatio: "3:4"
-          }
-      }
-    });
+  return renderTemplate(template.body, resolved);
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  variant?: number;
+  // Follow-up instructions on an earlier result of the same prompt, oldest first; `imageUrl` is the image the
+  // last one applies to, as a data URL
+  edit?: { imageUrl: string; instructions: string[] };
+}
 
-    // Extract image from response
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-        const parts = candidates[0].content.parts;
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-            }
-        }
-    }
+// `referenceImages` are data URLs with the primary photo first; `prompt` comes from buildPrompt
+export async function generateStyledImage(
+  referenceImages: string[],
+  prompt: string,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS,
+  { signal, variant = 0, edit }: GenerationOptions = {}
+): Promise<ImageGenerationResult> {
+  const provider = getActiveProvider();
+  const { maxReferenceImages, supportedAspectRatios, supportedImageSizes } = provider.capabilities;
+  if (referenceImages.length > maxReferenceImages) {
+    throw new ProviderError(
+      `${provider.label} accepts at most ${maxReferenceImages} reference photos, but ${referenceImages.length} were provided.`,
+      'invalid_input',
+      provider.id
+    );
+  }
+  if (!supportedAspectRatios.includes(output.aspectRatio) || !supportedImageSizes.includes(output.imageSize)) {
+    throw new ProviderError(
+      `${provider.label} cannot render ${output.aspectRatio} at ${output.imageSize}.`,
+      'invalid_input',
+      provider.id
+    );
+  }
 
-    throw new Error("No image data found in response");
-    
+  try {
+    const result = await provider.generate({
+      prompt,
+      referenceImages: referenceImages.map(parseDataUrl),
+      aspectRatio: output.aspectRatio,
+      imageSize: output.imageSize,
+      variant,
+      signal,
+      edit: edit && { image: parseDataUrl(edit.imageUrl), instructions: edit.instructions }
+    });
+    return result;
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+    // Cancellation is not a provider failure; let the caller see the abort as-is
+    if (signal?.aborted) throw error;
+    console.error(`${provider.label} Generation Error:`, error);
+    throw provider.normalizeError(error);
   }
 }
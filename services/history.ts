@@ -0,0 +1,37 @@
+import { GeneratedImage, HistoryEntry } from '../types';
+import { withVariants } from './variants';
+
+// Older attempts are dropped past this, so a session cannot grow without bound
+export const MAX_HISTORY_ENTRIES = 20;
+
+export function appendHistory(result: GeneratedImage, entry: HistoryEntry): GeneratedImage {
+  return { ...result, history: [...(result.history || []), entry].slice(-MAX_HISTORY_ENTRIES) };
+}
+
+// Makes a past image the current one; the candidates it replaces stay in the history
+export function restoreHistoryEntry(result: GeneratedImage, entryId: string): GeneratedImage {
+  const entry = result.history?.find(h => h.id === entryId);
+  if (!entry?.imageUrl) return result;
+  return withVariants(result, [{
+    imageUrl: entry.imageUrl,
+    status: 'completed',
+    model: entry.model,
+    aspectRatio: entry.output.aspectRatio,
+    imageSize: entry.output.imageSize
+  }], 0);
+}
+
+export function isCurrentEntry(result: GeneratedImage, entry: HistoryEntry): boolean {
+  return !!entry.imageUrl && entry.imageUrl === result.imageUrl;
+}
+
+// Entry the current image came from; missing for results saved before history existed
+export function findCurrentEntry(result: GeneratedImage): HistoryEntry | undefined {
+  return result.imageUrl ? result.history?.find(entry => entry.imageUrl === result.imageUrl) : undefined;
+}
+
+// Image an edit was applied to, which replaying the edit needs; null once it has left the history
+export function findEditBase(result: GeneratedImage, entry: HistoryEntry): string | null {
+  if (!entry.edit?.parentId) return null;
+  return result.history?.find(h => h.id === entry.edit!.parentId)?.imageUrl || null;
+}
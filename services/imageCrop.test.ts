@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CropSettings, DEFAULT_CROP, clampOffsets, frameAspect, imageScale, rotatedSize } from './imageCrop';
+
+const crop = (overrides: Partial<CropSettings> = {}): CropSettings => ({ ...DEFAULT_CROP, ...overrides });
+
+// Frame corners, in image pixels relative to the image center, for a frame of height 1
+function frameCorners(settings: CropSettings, width: number, height: number) {
+  const aspect = frameAspect(settings, width, height);
+  const scale = imageScale(settings, width, height, aspect, 1);
+  const rad = -settings.rotation * Math.PI / 180;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const x = sx * aspect / 2 - settings.offsetX * aspect;
+    const y = sy / 2 - settings.offsetY;
+    return {
+      x: (x * Math.cos(rad) - y * Math.sin(rad)) / scale,
+      y: (x * Math.sin(rad) + y * Math.cos(rad)) / scale
+    };
+  });
+}
+
+describe('rotatedSize', () => {
+  it('swaps the sides at 90 degrees and grows the box in between', () => {
+    const quarter = rotatedSize(400, 300, 90);
+    const diagonal = rotatedSize(100, 100, 45);
+
+    expect(quarter.width).toBeCloseTo(300);
+    expect(quarter.height).toBeCloseTo(400);
+    expect(diagonal.width).toBeCloseTo(100 * Math.SQRT2);
+  });
+});
+
+describe('frameAspect', () => {
+  it('uses the preset, or the rotated photo when there is none', () => {
+    expect(frameAspect(crop({ aspect: 1 }), 400, 300)).toBe(1);
+    expect(frameAspect(crop({ aspect: null }), 400, 300)).toBeCloseTo(4 / 3);
+    expect(frameAspect(crop({ aspect: null, rotation: 90 }), 400, 300)).toBeCloseTo(3 / 4);
+  });
+});
+
+describe('imageScale', () => {
+  it('just covers the frame at zoom 1', () => {
+    expect(imageScale(crop({ aspect: 1 }), 400, 300, 300, 300)).toBe(1);
+    expect(imageScale(crop({ aspect: 1, zoom: 2 }), 400, 300, 300, 300)).toBe(2);
+    expect(imageScale(crop({ aspect: 3 / 4 }), 300, 400, 300, 400)).toBe(1);
+  });
+});
+
+describe('clampOffsets', () => {
+  it('leaves an offset that fits alone', () => {
+    const settings = crop({ aspect: 1, zoom: 2, offsetX: 0.1, offsetY: -0.1 });
+
+    expect(clampOffsets(settings, 400, 400)).toEqual(settings);
+  });
+
+  it('pulls the frame back to the photo edge', () => {
+    const clamped = clampOffsets(crop({ aspect: 1, offsetX: 0.5, offsetY: 0.5 }), 400, 300);
+
+    // At zoom 1 a square frame spans the full height, so only the width leaves room to move
+    expect(clamped.offsetX).toBeCloseTo((400 / 300 - 1) / 2);
+    expect(clamped.offsetY).toBeCloseTo(0);
+  });
+
+  it('keeps every frame corner inside a rotated, zoomed photo', () => {
+    for (const rotation of [-30, 15, 45, 90, 135]) {
+      for (const offset of [-1, -0.25, 0.4, 1]) {
+        const settings = clampOffsets(crop({ aspect: 4 / 5, zoom: 1.5, rotation, offsetX: offset, offsetY: -offset }), 600, 400);
+        frameCorners(settings, 600, 400).forEach(({ x, y }) => {
+          expect(Math.abs(x)).toBeLessThanOrEqual(300 + 1e-6);
+          expect(Math.abs(y)).toBeLessThanOrEqual(200 + 1e-6);
+        });
+      }
+    }
+  });
+});
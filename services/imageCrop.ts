@@ -0,0 +1,116 @@
+// Geometry shared by the crop editor preview (CSS transforms) and the final canvas render,
+// so what the user frames is exactly what gets uploaded.
+
+export interface CropSettings {
+  aspect: number | null; // Width / height of the frame; null keeps the photo's own ratio
+  zoom: number; // 1 = photo just covers the frame
+  offsetX: number; // Image center offset, as a fraction of frame width
+  offsetY: number; // Image center offset, as a fraction of frame height
+  rotation: number; // Degrees, clockwise
+}
+
+export const DEFAULT_CROP: CropSettings = {
+  aspect: 3 / 4,
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+};
+
+export const CROP_ASPECT_PRESETS: { label: string; value: number | null }[] = [
+  { label: '3:4', value: 3 / 4 },
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '16:9', value: 16 / 9 },
+  { label: 'Original', value: null },
+];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Bounding box of the image after rotation
+export function rotatedSize(width: number, height: number, rotation: number) {
+  const rad = toRadians(rotation);
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+}
+
+export function frameAspect(crop: CropSettings, imageWidth: number, imageHeight: number): number {
+  if (crop.aspect) return crop.aspect;
+  const box = rotatedSize(imageWidth, imageHeight, crop.rotation);
+  return box.width / box.height;
+}
+
+// Image pixels -> frame pixels for a frame of the given size. At zoom 1 the rotated photo just covers the frame:
+// the frame, turned into the photo's own axes, must fit inside the photo
+export function imageScale(crop: CropSettings, imageWidth: number, imageHeight: number, frameWidth: number, frameHeight: number) {
+  const frame = rotatedSize(frameWidth, frameHeight, crop.rotation);
+  return Math.max(frame.width / imageWidth, frame.height / imageHeight) * crop.zoom;
+}
+
+// Keeps the frame inside the rotated photo so no empty corners sneak into the crop. The allowed offsets form a
+// rectangle in the photo's own axes, so the offset is clamped there and turned back into frame axes
+export function clampOffsets(crop: CropSettings, imageWidth: number, imageHeight: number): CropSettings {
+  const frameWidth = frameAspect(crop, imageWidth, imageHeight);
+  const frameHeight = 1;
+  const scale = imageScale(crop, imageWidth, imageHeight, frameWidth, frameHeight);
+  const frame = rotatedSize(frameWidth, frameHeight, crop.rotation);
+  const maxU = Math.max(0, (imageWidth * scale - frame.width) / 2);
+  const maxV = Math.max(0, (imageHeight * scale - frame.height) / 2);
+
+  const rad = toRadians(crop.rotation);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const x = crop.offsetX * frameWidth;
+  const y = crop.offsetY * frameHeight;
+  const u = Math.min(maxU, Math.max(-maxU, x * cos + y * sin));
+  const v = Math.min(maxV, Math.max(-maxV, -x * sin + y * cos));
+  return {
+    ...crop,
+    offsetX: (u * cos - v * sin) / frameWidth,
+    offsetY: (u * sin + v * cos) / frameHeight,
+  };
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for cropping'));
+  img.src = src;
+});
+
+export async function renderCrop(
+  src: string,
+  crop: CropSettings,
+  options: { maxEdge: number; format: string; quality: number }
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  const img = await loadImage(src);
+  const aspect = frameAspect(crop, img.naturalWidth, img.naturalHeight);
+
+  // Size the output so one source pixel maps to roughly one output pixel, capped at maxEdge
+  const unitScale = imageScale(crop, img.naturalWidth, img.naturalHeight, aspect, 1);
+  let height = 1 / unitScale;
+  let width = aspect / unitScale;
+  const downscale = Math.min(1, options.maxEdge / Math.max(width, height));
+  width = Math.max(1, Math.round(width * downscale));
+  height = Math.max(1, Math.round(height * downscale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const scale = imageScale(crop, img.naturalWidth, img.naturalHeight, width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2 + crop.offsetX * width, height / 2 + crop.offsetY * height);
+  ctx.rotate(toRadians(crop.rotation));
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+  return { dataUrl: canvas.toDataURL(options.format, options.quality), width, height };
+}
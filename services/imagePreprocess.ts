@@ -0,0 +1,214 @@
+import { dataUrlByteSize } from './imageUtils';
+
+const STORAGE_KEY = 'ai-photo-studio.preprocess';
+
+// Below this the face is too small for the model to keep a likeness
+const MIN_EDGE = 256;
+// Lowest quality we'll step down to when chasing the byte budget
+const MIN_QUALITY = 0.6;
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  maxEdge: number;
+  format: OutputFormat;
+  quality: number; // 0-1, starting quality
+  maxBytes: number; // Quality is lowered step by step until the output fits
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 1536,
+  format: 'image/jpeg',
+  quality: 0.9,
+  maxBytes: 1.5 * 1024 * 1024,
+};
+
+export interface PreprocessResult {
+  dataUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  originalBytes: number;
+  orientation: number; // EXIF orientation tag of the source (1 = upright)
+}
+
+export type PreprocessErrorCode = 'not_image' | 'vector' | 'heic_unsupported' | 'decode_failed' | 'too_small';
+
+export class PreprocessError extends Error {
+  code: PreprocessErrorCode;
+  params: Record<string, string | number>;
+
+  constructor(code: PreprocessErrorCode, message: string, params: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'PreprocessError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['image/jpeg', 'image/webp'];
+
+// Bounds for stored or passed-in options; values outside them are clamped
+export const PREPROCESS_LIMITS = {
+  maxEdge: { min: MIN_EDGE, max: 4096 },
+  quality: { min: MIN_QUALITY, max: 1 },
+  maxBytes: { min: 100 * 1024, max: 20 * 1024 * 1024 },
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export function normalizePreprocessOptions(value: unknown): PreprocessOptions {
+  const options: Partial<Record<keyof PreprocessOptions, unknown>> = typeof value === 'object' && value !== null ? value : {};
+  return {
+    maxEdge: Math.round(clamp(options.maxEdge, PREPROCESS_LIMITS.maxEdge, DEFAULT_PREPROCESS_OPTIONS.maxEdge)),
+    format: OUTPUT_FORMATS.find(format => format === options.format) || DEFAULT_PREPROCESS_OPTIONS.format,
+    quality: clamp(options.quality, PREPROCESS_LIMITS.quality, DEFAULT_PREPROCESS_OPTIONS.quality),
+    maxBytes: clamp(options.maxBytes, PREPROCESS_LIMITS.maxBytes, DEFAULT_PREPROCESS_OPTIONS.maxBytes),
+  };
+}
+
+export function loadPreprocessOptions(): PreprocessOptions {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizePreprocessOptions(JSON.parse(raw)) : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+}
+
+export function savePreprocessOptions(options: PreprocessOptions): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    // Most likely the storage quota; the options still apply for this visit
+    console.error('Failed to save upload settings', error);
+  }
+}
+
+const isHeic = (file: File) =>
+  /image\/hei[cf]/.test(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+// Reads the EXIF orientation tag (0x0112) from a JPEG's APP1 segment; 1 when absent or unreadable.
+// Every read is bounds-checked, since truncated or malformed EXIF blocks are common in the wild
+export async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  const fits = (offset: number, bytes: number) => offset >= 0 && offset + bytes <= view.byteLength;
+  if (!fits(0, 4) || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (fits(offset, 4)) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && fits(offset + 4, 4) && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      if (!fits(tiff, 8)) return 1;
+      const byteOrder = view.getUint16(tiff);
+      if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+      const little = byteOrder === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (!fits(ifd, 2)) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (!fits(entry, 12)) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || length < 2) break;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Browsers apply EXIF orientation when asked to decode "from-image", so the bitmap is already upright
+const decode = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('decode failed'));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export async function preprocessImage(
+  file: File,
+  requested: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> {
+  const options = normalizePreprocessOptions(requested);
+  if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) {
+    throw new PreprocessError('vector', 'SVG files are vector drawings, not photos.');
+  }
+  if (!file.type.startsWith('image/') && !isHeic(file)) {
+    throw new PreprocessError('not_image', `Unsupported file type: ${file.type || 'unknown'}.`, { type: file.type || 'unknown' });
+  }
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decode(file);
+  } catch {
+    throw isHeic(file)
+      ? new PreprocessError('heic_unsupported', 'This browser cannot decode HEIC/HEIF photos.')
+      : new PreprocessError('decode_failed', 'The image could not be decoded.');
+  }
+
+  const originalWidth = source.width;
+  const originalHeight = source.height;
+  if (Math.min(originalWidth, originalHeight) < MIN_EDGE) {
+    if ('close' in source) source.close();
+    throw new PreprocessError('too_small', `Image is ${originalWidth}×${originalHeight}px.`, {
+      width: originalWidth,
+      height: originalHeight,
+      min: MIN_EDGE,
+    });
+  }
+
+  const scale = Math.min(1, options.maxEdge / Math.max(originalWidth, originalHeight));
+  const width = Math.round(originalWidth * scale);
+  const height = Math.round(originalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new PreprocessError('decode_failed', 'Canvas is not available.');
+  // JPEG has no alpha; flatten transparent PNGs onto white instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  if ('close' in source) source.close();
+
+  let quality = options.quality;
+  let dataUrl = canvas.toDataURL(options.format, quality);
+  while (dataUrlByteSize(dataUrl) > options.maxBytes && quality > MIN_QUALITY) {
+    quality = Math.max(MIN_QUALITY, quality - 0.1);
+    dataUrl = canvas.toDataURL(options.format, quality);
+  }
+
+  return {
+    dataUrl,
+    width,
+    height,
+    bytes: dataUrlByteSize(dataUrl),
+    originalWidth,
+    originalHeight,
+    originalBytes: file.size,
+    // Informational only, so a failed read never costs an otherwise good photo
+    orientation: await readExifOrientation(file).catch(() => 1),
+  };
+}
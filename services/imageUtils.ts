@@ -0,0 +1,97 @@
+// Helpers for moving images between data URLs (what the UI and providers use) and Blobs (what storage and exports use)
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// Keeps names readable but safe on every file system; `fallback` covers names with nothing left
+export function safeFileName(value: string, fallback = 'untitled'): string {
+  return value.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || fallback;
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[mimeType] || 'png';
+}
+
+// File extension matching the data URL's real type; providers may return JPEG or WebP as well as PNG
+export function extensionForDataUrl(dataUrl: string): string {
+  return extensionForMimeType(dataUrl.match(/^data:([^;,]+)/)?.[1] || '');
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Size of the binary payload behind a base64 data URL
+export function dataUrlByteSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+// "3:4" -> "3 / 4" for the CSS aspect-ratio property
+export function aspectRatioCss(ratio: string): string {
+  return ratio.replace(':', ' / ');
+}
+
+export function isLandscape(ratio: string): boolean {
+  const [w, h] = ratio.split(':').map(Number);
+  return w > h;
+}
+
+// Frame for two images of `ratio` next to each other, e.g. "3:4" -> "6:4"
+export function sideBySideRatio(ratio: string): string {
+  const [w, h] = ratio.split(':').map(Number);
+  return `${w * 2}:${h}`;
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+}
+
+// Fills the box with `img`, cropping whatever overflows (like object-fit: cover)
+export function drawImageCover(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number, y: number, w: number, h: number
+): void {
+  const scale = Math.max(w / img.width, h / img.height);
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+  ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+  ctx.restore();
+}
@@ -0,0 +1,73 @@
+// Minimal PDF writer: every page is one full-page JPEG. Pages are rendered on a canvas beforehand,
+// which keeps this dependency-free, offline, and fine with any script the captions are written in.
+
+export interface PdfPage {
+  width: number; // Points (1/72 inch), bleed included
+  height: number;
+  bleed: number; // Points trimmed off each edge after printing; 0 for none
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+const encoder = new TextEncoder();
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// Document info strings as UTF-16BE hex, so non-Latin titles survive
+const pdfText = (value: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+export function createPdf(pages: PdfPage[], title: string): Blob {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then page/content/image triples
+  const pageRef = (index: number) => 4 + index * 3;
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title ${pdfText(title)} /Producer (AI Photo Studio) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+
+  pages.forEach((page, index) => {
+    const id = pageRef(index);
+    const { width: w, height: h, bleed: b } = page;
+    const boxes = `/MediaBox [0 0 ${num(w)} ${num(h)}] /BleedBox [0 0 ${num(w)} ${num(h)}] /TrimBox [${num(b)} ${num(b)} ${num(w - b)} ${num(h - b)}]`;
+    object(id, `<< /Type /Page /Parent 2 0 R ${boxes} /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+
+    const content = `q ${num(w)} 0 0 ${num(h)} 0 0 cm /Im0 Do Q`;
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+    offsets[id + 2] = length;
+    write(`${id + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const size = pageRef(pages.length);
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+  for (let id = 1; id < size; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${size} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
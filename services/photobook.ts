@@ -0,0 +1,373 @@
+import { AlbumItem, AlbumTheme } from '../types';
+import { createPdf, PdfPage } from './pdfWriter';
+import { drawImageCover, loadImage } from './imageUtils';
+import { ALBUM_THEME_PALETTES, AlbumThemePalette, paginate } from './album';
+
+export type PageSize = 'a4' | 'letter' | 'square';
+
+// Trim sizes in points
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+  square: { width: 576, height: 576 }, // 8 × 8 in photobook
+};
+
+const BLEED_PT = 8.5; // 3 mm, the usual print-shop bleed
+const MARGIN_PT = 42;
+const RENDER_DPI = 200;
+const JPEG_QUALITY = 0.9;
+
+export interface PhotobookOptions {
+  pageSize: PageSize;
+  bleed: boolean;
+  includeIndex: boolean;
+  title: string;
+  theme: AlbumTheme;
+}
+
+// Localized text is passed in so this module stays free of UI concerns
+export interface PhotobookText {
+  subtitle: string;
+  indexTitle: string;
+  collection: (category: string) => string;
+}
+
+export const imageCode = (id: number) => `IMG_GEN_${id.toString().padStart(3, '0')}`;
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  // Break on spaces where there are any, otherwise per character (CJK)
+  const words = text.includes(' ') ? text.split(' ') : Array.from(text);
+  const joiner = text.includes(' ') ? ' ' : '';
+  const lines: string[] = [];
+  let line = '';
+  words.forEach(word => {
+    const candidate = line ? `${line}${joiner}${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+interface PageFrame {
+  ctx: CanvasRenderingContext2D;
+  // Trim area in canvas pixels; artwork that should bleed extends to the canvas edge instead
+  trim: { x: number; y: number; w: number; h: number };
+  px: (points: number) => number;
+  palette: AlbumThemePalette;
+}
+
+export async function exportPhotobook(items: AlbumItem[], options: PhotobookOptions, text: PhotobookText): Promise<Blob> {
+  const size = PAGE_SIZES[options.pageSize];
+  const bleed = options.bleed ? BLEED_PT : 0;
+  const pageWidth = size.width + bleed * 2;
+  const pageHeight = size.height + bleed * 2;
+  const px = (points: number) => Math.round(points / 72 * RENDER_DPI);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = px(pageWidth);
+  canvas.height = px(pageHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const frame: PageFrame = {
+    ctx,
+    trim: { x: px(bleed), y: px(bleed), w: px(size.width), h: px(size.height) },
+    px,
+    palette: ALBUM_THEME_PALETTES[options.theme]
+  };
+
+  const pages: PdfPage[] = [];
+  const renderPage = async (draw: (frame: PageFrame) => void) => {
+    ctx.fillStyle = frame.palette.paper;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    draw(frame);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) throw new Error('Failed to encode page');
+    pages.push({
+      width: pageWidth,
+      height: pageHeight,
+      bleed,
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height
+    });
+  };
+
+  const images = await Promise.all(items.map(item => loadImage(item.url)));
+
+  await renderPage(f => drawCover(f, images[0], options.title, text.subtitle));
+  const indices = items.map((_item, index) => index);
+  for (const page of paginate(options.theme, indices)) {
+    const [i] = page;
+    switch (options.theme) {
+      case 'polaroid':
+        await renderPage(f => drawPolaroidPage(f, images[i], items[i], i));
+        break;
+      case 'minimal':
+        await renderPage(f => drawMinimalPage(f, images[i], items[i]));
+        break;
+      case 'grid':
+        await renderPage(f => drawGridPage(f, page.map(index => items[index]), page.map(index => images[index])));
+        break;
+      default:
+        await renderPage(f => drawImagePage(f, images[i], items[i], text));
+    }
+  }
+  if (options.includeIndex) {
+    const grid = indexGrid(frame);
+    const perPage = grid.columns * grid.rows;
+    for (let start = 0; start < items.length; start += perPage) {
+      await renderPage(f => drawIndexPage(
+        f,
+        grid,
+        items.slice(start, start + perPage),
+        images.slice(start, start + perPage),
+        text.indexTitle
+      ));
+    }
+  }
+
+  return createPdf(pages, options.title);
+}
+
+function drawCover({ ctx, trim, px, palette }: PageFrame, hero: HTMLImageElement | undefined, title: string, subtitle: string) {
+  const canvasWidth = ctx.canvas.width;
+  // The hero photo runs off the top and sides into the bleed
+  const imageBottom = trim.y + trim.h * 0.68;
+  if (hero) drawImageCover(ctx, hero, 0, 0, canvasWidth, imageBottom);
+
+  const left = trim.x + px(MARGIN_PT);
+  const maxWidth = trim.w - px(MARGIN_PT) * 2;
+  let y = imageBottom + px(40);
+
+  ctx.fillStyle = palette.accent;
+  ctx.fillRect(left, y, px(36), px(3));
+  y += px(36);
+
+  ctx.fillStyle = palette.ink;
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = `${px(34)}px Georgia, 'Times New Roman', serif`;
+  wrapText(ctx, title, maxWidth).slice(0, 2).forEach(line => {
+    ctx.fillText(line, left, y);
+    y += px(40);
+  });
+
+  ctx.fillStyle = palette.muted;
+  ctx.font = `${px(11)}px Inter, sans-serif`;
+  ctx.fillText(subtitle, left, y + px(4));
+}
+
+// Letterboxes the photo into the box so nothing is cropped; returns where it landed
+function drawImageContain(ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: { x: number; y: number; w: number; h: number }) {
+  const scale = Math.min(box.w / img.width, box.h / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  const x = box.x + (box.w - w) / 2;
+  const y = box.y + (box.h - h) / 2;
+  ctx.drawImage(img, x, y, w, h);
+  return { x, y, w, h };
+}
+
+function drawImagePage({ ctx, trim, px, palette }: PageFrame, img: HTMLImageElement, item: AlbumItem, text: PhotobookText) {
+  const margin = px(MARGIN_PT);
+  const left = trim.x + margin;
+  const contentWidth = trim.w - margin * 2;
+  const captionHeight = px(150);
+  const imageArea = { x: left, y: trim.y + margin, w: contentWidth, h: trim.h - margin * 2 - captionHeight };
+
+  // Frame the letterboxed photo with a hairline
+  const placed = drawImageContain(ctx, img, imageArea);
+  ctx.strokeStyle = 'rgba(15, 23, 42, 0.12)';
+  ctx.lineWidth = Math.max(1, px(0.5));
+  ctx.strokeRect(placed.x, placed.y, placed.w, placed.h);
+
+  let y = trim.y + trim.h - margin - captionHeight + px(28);
+  ctx.fillStyle = palette.accent;
+  ctx.fillRect(left, y, px(28), px(2));
+  y += px(20);
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = palette.accent;
+  ctx.font = `600 ${px(8)}px Inter, sans-serif`;
+  ctx.fillText(text.collection(item.category).toUpperCase(), left, y);
+  y += px(28);
+
+  ctx.fillStyle = palette.ink;
+  ctx.font = `${px(24)}px Georgia, 'Times New Roman', serif`;
+  ctx.fillText(item.name, left, y, contentWidth);
+  y += px(20);
+
+  ctx.fillStyle = palette.muted;
+  ctx.font = `${px(8.5)}px Inter, sans-serif`;
+  wrapText(ctx, item.caption, contentWidth * 0.75).slice(0, 3).forEach(line => {
+    ctx.fillText(line, left, y);
+    y += px(12);
+  });
+
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `${px(7)}px monospace`;
+  ctx.textAlign = 'right';
+  ctx.fillText(imageCode(item.id), left + contentWidth, trim.y + trim.h - margin);
+  ctx.textAlign = 'left';
+}
+
+// A white instant-photo frame on colored paper, tilted alternately left and right
+function drawPolaroidPage({ ctx, trim, px, palette }: PageFrame, img: HTMLImageElement, item: AlbumItem, index: number) {
+  const margin = px(MARGIN_PT * 1.5);
+  const border = px(14);
+  const footer = px(64);
+  const captionHeight = px(56);
+  const areaHeight = trim.h - margin * 2 - captionHeight;
+  const scale = Math.min((trim.w - margin * 2 - border * 2) / img.width, (areaHeight - border - footer) / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  const frameWidth = w + border * 2;
+  const frameHeight = h + border + footer;
+  const centerX = trim.x + trim.w / 2;
+  const centerY = trim.y + margin + areaHeight / 2;
+
+  ctx.save();
+  ctx.translate(centerX, centerY);
+  ctx.rotate(index % 2 === 0 ? -0.02 : 0.02);
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+  ctx.shadowBlur = px(10);
+  ctx.shadowOffsetY = px(3);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(-frameWidth / 2, -frameHeight / 2, frameWidth, frameHeight);
+  ctx.shadowColor = 'transparent';
+  ctx.drawImage(img, -w / 2, -frameHeight / 2 + border, w, h);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = palette.ink;
+  ctx.font = `italic ${px(18)}px Georgia, 'Times New Roman', serif`;
+  ctx.fillText(item.name, 0, frameHeight / 2 - footer / 2, frameWidth - border * 2);
+  ctx.restore();
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = palette.muted;
+  ctx.font = `${px(9)}px Inter, sans-serif`;
+  let y = centerY + frameHeight / 2 + px(32);
+  wrapText(ctx, item.caption, trim.w * 0.6).slice(0, 2).forEach(line => {
+    ctx.fillText(line, centerX, y);
+    y += px(13);
+  });
+  ctx.textAlign = 'left';
+}
+
+// Lots of white space, the photo unframed and a small centered caption
+function drawMinimalPage({ ctx, trim, px, palette }: PageFrame, img: HTMLImageElement, item: AlbumItem) {
+  const margin = px(MARGIN_PT * 1.75);
+  const captionHeight = px(64);
+  const placed = drawImageContain(ctx, img, {
+    x: trim.x + margin,
+    y: trim.y + margin,
+    w: trim.w - margin * 2,
+    h: trim.h - margin * 2 - captionHeight
+  });
+
+  const centerX = trim.x + trim.w / 2;
+  let y = placed.y + placed.h + px(30);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = palette.ink;
+  ctx.font = `500 ${px(11)}px Inter, sans-serif`;
+  ctx.fillText(item.name, centerX, y, trim.w - margin * 2);
+  y += px(15);
+
+  ctx.fillStyle = palette.muted;
+  ctx.font = `${px(8)}px Inter, sans-serif`;
+  wrapText(ctx, item.caption, trim.w * 0.55).slice(0, 2).forEach(line => {
+    ctx.fillText(line, centerX, y);
+    y += px(11);
+  });
+  ctx.textAlign = 'left';
+}
+
+// Up to GRID_SPREAD_SIZE photos on a 2 × 2 grid, each with its title and caption
+function drawGridPage({ ctx, trim, px, palette }: PageFrame, items: AlbumItem[], images: HTMLImageElement[]) {
+  const margin = px(MARGIN_PT);
+  const gap = px(16);
+  const labelHeight = px(40);
+  const cellWidth = (trim.w - margin * 2 - gap) / 2;
+  const cellHeight = (trim.h - margin * 2 - gap) / 2;
+
+  items.forEach((item, index) => {
+    const x = trim.x + margin + (index % 2) * (cellWidth + gap);
+    const y = trim.y + margin + Math.floor(index / 2) * (cellHeight + gap);
+    const imageHeight = cellHeight - labelHeight;
+    drawImageCover(ctx, images[index], x, y, cellWidth, imageHeight);
+
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = palette.ink;
+    ctx.font = `${px(11)}px Georgia, 'Times New Roman', serif`;
+    ctx.fillText(item.name, x, y + imageHeight + px(16), cellWidth);
+    ctx.fillStyle = palette.muted;
+    ctx.font = `${px(7)}px Inter, sans-serif`;
+    const [caption] = wrapText(ctx, item.caption, cellWidth);
+    if (caption) ctx.fillText(caption, x, y + imageHeight + px(28), cellWidth);
+  });
+}
+
+const INDEX_COLUMNS = 4;
+const INDEX_GAP_PT = 10;
+const INDEX_LABEL_PT = 24;
+const INDEX_HEADER_PT = 44;
+
+// Square thumbnails in a fixed number of columns; as many rows as fit below the heading
+interface IndexGrid {
+  columns: number;
+  rows: number;
+  cell: number;
+}
+
+function indexGrid({ trim, px }: PageFrame): IndexGrid {
+  const gap = px(INDEX_GAP_PT);
+  const contentWidth = trim.w - px(MARGIN_PT) * 2;
+  const contentHeight = trim.h - px(MARGIN_PT) * 2 - px(INDEX_HEADER_PT);
+  const cell = (contentWidth - gap * (INDEX_COLUMNS - 1)) / INDEX_COLUMNS;
+  const rowHeight = cell + px(INDEX_LABEL_PT) + gap;
+  return { columns: INDEX_COLUMNS, rows: Math.max(1, Math.floor((contentHeight + gap) / rowHeight)), cell };
+}
+
+function drawIndexPage(
+  { ctx, trim, px, palette }: PageFrame,
+  { columns, cell }: IndexGrid,
+  items: AlbumItem[],
+  images: HTMLImageElement[],
+  title: string
+) {
+  const margin = px(MARGIN_PT);
+  const left = trim.x + margin;
+  const top = trim.y + margin;
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = palette.ink;
+  ctx.font = `${px(20)}px Georgia, 'Times New Roman', serif`;
+  ctx.fillText(title, left, top + px(20));
+
+  const gap = px(INDEX_GAP_PT);
+  const gridTop = top + px(INDEX_HEADER_PT);
+  const rowHeight = cell + px(INDEX_LABEL_PT) + gap;
+
+  items.forEach((item, index) => {
+    const x = left + (index % columns) * (cell + gap);
+    const y = gridTop + Math.floor(index / columns) * rowHeight;
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(x, y, cell, cell);
+    drawImageCover(ctx, images[index], x, y, cell, cell);
+
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = `${px(6.5)}px monospace`;
+    ctx.fillText(imageCode(item.id), x, y + cell + px(10));
+    ctx.fillStyle = palette.ink;
+    ctx.font = `${px(8)}px Inter, sans-serif`;
+    ctx.fillText(item.name, x, y + cell + px(20), cell);
+  });
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PhotoStyle } from '../types';
+import {
+  BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, PromptLibrary, PromptVariables,
+  findUnknownVariables, loadPromptLibrary, parsePromptOverrides, renderTemplate, resolveStylePrompt
+} from './promptTemplates';
+
+const VARIABLES: PromptVariables = {
+  subject: 'woman',
+  style: 'Film noir',
+  aspectRatio: '3:4',
+  fidelity: 'Keep the face',
+  traits: '',
+  references: '',
+  images: 'photo'
+};
+
+const STYLE: PhotoStyle = { id: 7, name: 'Noir', category: 'Film', promptSuffix: 'noir' };
+
+const CUSTOM_TEMPLATE = { id: 'template-a', name: 'Mine', body: 'Draw {{style}}' };
+
+const library = (overrides: Partial<PromptLibrary> = {}): PromptLibrary => ({
+  templates: [...BUILT_IN_TEMPLATES, CUSTOM_TEMPLATE],
+  styleConfigs: {},
+  ...overrides
+});
+
+describe('renderTemplate', () => {
+  it('fills in variables, with or without spaces in the braces', () => {
+    expect(renderTemplate('A {{subject}} in {{ style }} at {{aspectRatio}}', VARIABLES)).toBe('A woman in Film noir at 3:4');
+  });
+
+  it('drops lines that hold only an empty variable', () => {
+    expect(renderTemplate('Top\n{{traits}}\n  {{ references }}  \n- {{traits}}\nEnd', VARIABLES)).toBe('Top\n- \nEnd');
+  });
+
+  it('leaves unknown placeholders in place', () => {
+    expect(renderTemplate('{{mood}} {{style}}\n{{mood}}', VARIABLES)).toBe('{{mood}} Film noir\n{{mood}}');
+  });
+
+  it('renders every built-in template without leftover placeholders', () => {
+    BUILT_IN_TEMPLATES.forEach(template => {
+      expect(renderTemplate(template.body, VARIABLES)).not.toMatch(/\{\{/);
+    });
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('lists each unknown name once', () => {
+    expect(findUnknownVariables('{{style}} {{mood}} {{ mood }} {{lens}}')).toEqual(['mood', 'lens']);
+    expect(findUnknownVariables(BUILT_IN_TEMPLATES[0].body)).toEqual([]);
+  });
+});
+
+describe('parsePromptOverrides', () => {
+  it('keeps only known sections with string values', () => {
+    expect(parsePromptOverrides({ style: 'moody', fidelity: 3, lighting: 'soft' })).toEqual({ style: 'moody' });
+    expect(parsePromptOverrides({ fidelity: null })).toBeUndefined();
+    expect(parsePromptOverrides('style')).toBeUndefined();
+  });
+});
+
+describe('resolveStylePrompt', () => {
+  it('uses the default template when nothing is configured', () => {
+    expect(resolveStylePrompt(STYLE, library())).toEqual({ template: BUILT_IN_TEMPLATES[0], overrides: {} });
+  });
+
+  it('prefers local settings over what the style ships with', () => {
+    const style: PhotoStyle = { ...STYLE, promptTemplateId: 'illustration', promptOverrides: { style: 'shipped', fidelity: 'shipped' } };
+    const resolved = resolveStylePrompt(style, library({
+      styleConfigs: { 7: { templateId: CUSTOM_TEMPLATE.id, overrides: { style: '  local  ' } } }
+    }));
+
+    expect(resolved.template).toBe(CUSTOM_TEMPLATE);
+    expect(resolved.overrides).toEqual({ style: 'local', fidelity: 'shipped' });
+  });
+
+  it('falls back to the default template when the chosen one was deleted', () => {
+    const resolved = resolveStylePrompt({ ...STYLE, promptTemplateId: 'template-gone' }, library());
+
+    expect(resolved.template.id).toBe(DEFAULT_TEMPLATE_ID);
+  });
+
+  it('ignores blank overrides', () => {
+    const resolved = resolveStylePrompt(STYLE, library({ styleConfigs: { 7: { overrides: { style: '   ' } } } }));
+
+    expect(resolved.overrides).toEqual({});
+  });
+});
+
+describe('loadPromptLibrary', () => {
+  let stored: string | null;
+
+  beforeEach(() => {
+    stored = null;
+    vi.stubGlobal('localStorage', { getItem: () => stored });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the built-ins when nothing is stored', () => {
+    expect(loadPromptLibrary()).toEqual({ templates: BUILT_IN_TEMPLATES, styleConfigs: {} });
+  });
+
+  it('keeps edits to built-ins and drops malformed entries', () => {
+    stored = JSON.stringify({
+      templates: [
+        { id: DEFAULT_TEMPLATE_ID, name: 'Renamed', body: 'Edited {{style}}' },
+        CUSTOM_TEMPLATE,
+        { id: 'template-b', name: 'No body' },
+        'template-c'
+      ],
+      styleConfigs: { 7: { templateId: CUSTOM_TEMPLATE.id, overrides: { lighting: 'x' } }, x: { templateId: 'a' }, 8: {} }
+    });
+    const loaded = loadPromptLibrary();
+
+    expect(loaded.templates).toEqual([
+      { ...BUILT_IN_TEMPLATES[0], body: 'Edited {{style}}' },
+      BUILT_IN_TEMPLATES[1],
+      CUSTOM_TEMPLATE
+    ]);
+    expect(loaded.styleConfigs).toEqual({ 7: { templateId: CUSTOM_TEMPLATE.id, overrides: undefined } });
+  });
+
+  it('survives stored data that is not JSON', () => {
+    stored = '{';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadPromptLibrary()).toEqual({ templates: BUILT_IN_TEMPLATES, styleConfigs: {} });
+  });
+});
@@ -0,0 +1,168 @@
+import { PhotoStyle, PromptSection, PromptTemplate, StylePromptConfig } from '../types';
+
+const STORAGE_KEY = 'ai-photo-studio.prompt-library';
+
+export const PROMPT_VARIABLES = ['subject', 'style', 'aspectRatio', 'fidelity', 'traits', 'references', 'images'] as const;
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+export type PromptVariables = Record<PromptVariable, string>;
+
+export const PROMPT_SECTIONS: PromptSection[] = ['style', 'fidelity'];
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Photorealistic portrait',
+    builtIn: true,
+    body: `Generate a photorealistic portrait of a {{subject}} based on the input {{images}}.
+Target Style: {{style}}.
+{{references}}
+Strict Requirements:
+- {{fidelity}}
+{{traits}}
+- High resolution, professional photography quality.
+- Maintain aspect ratio {{aspectRatio}}.
+- Ensure the lighting and environment match the target style while keeping the person recognizable.`
+  },
+  {
+    id: 'illustration',
+    name: 'Stylized illustration',
+    builtIn: true,
+    body: `Create a stylized illustration of the {{subject}} shown in the input {{images}}.
+Target Style: {{style}}.
+{{references}}
+Requirements:
+- {{fidelity}}
+{{traits}}
+- Fully commit to the target art style; the result must not look like a photograph.
+- Maintain aspect ratio {{aspectRatio}}.`
+  }
+];
+
+// Templates (built-ins may be edited) and per-style settings, kept in localStorage
+export interface PromptLibrary {
+  templates: PromptTemplate[];
+  styleConfigs: Record<number, StylePromptConfig>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseTemplate = (value: unknown): PromptTemplate | null =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.body === 'string'
+    ? { id: value.id, name: value.name, body: value.body }
+    : null;
+
+// Keeps only known sections with text; undefined when none are left
+export function parsePromptOverrides(value: unknown): Partial<Record<PromptSection, string>> | undefined {
+  if (!isObject(value)) return undefined;
+  const overrides: Partial<Record<PromptSection, string>> = {};
+  PROMPT_SECTIONS.forEach(section => {
+    const text = value[section];
+    if (typeof text === 'string') overrides[section] = text;
+  });
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+const parseStyleConfigs = (value: unknown): Record<number, StylePromptConfig> => {
+  const configs: Record<number, StylePromptConfig> = {};
+  if (!isObject(value)) return configs;
+  Object.entries(value).forEach(([key, config]) => {
+    const styleId = Number(key);
+    if (!Number.isInteger(styleId) || !isObject(config)) return;
+    const templateId = typeof config.templateId === 'string' ? config.templateId : undefined;
+    const overrides = parsePromptOverrides(config.overrides);
+    if (templateId || overrides) configs[styleId] = { templateId, overrides };
+  });
+  return configs;
+};
+
+export function loadPromptLibrary(): PromptLibrary {
+  let stored: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch (error) {
+    console.error('Failed to load prompt templates', error);
+  }
+
+  const library = isObject(stored) ? stored : {};
+  const storedTemplates = (Array.isArray(library.templates) ? library.templates : [])
+    .map(parseTemplate)
+    .filter((template): template is PromptTemplate => template !== null);
+  const builtIns = BUILT_IN_TEMPLATES.map(builtIn => {
+    const edited = storedTemplates.find(t => t.id === builtIn.id);
+    return edited ? { ...builtIn, body: edited.body } : builtIn;
+  });
+  const userTemplates = storedTemplates.filter(t => !isBuiltInTemplateId(t.id));
+
+  return {
+    templates: [...builtIns, ...userTemplates],
+    styleConfigs: parseStyleConfigs(library.styleConfigs)
+  };
+}
+
+export function savePromptLibrary(library: PromptLibrary): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch (error) {
+    // Most likely the storage quota; the templates still apply for this visit
+    console.error('Failed to save prompt templates', error);
+  }
+}
+
+export const isBuiltInTemplateId = (id: string) => BUILT_IN_TEMPLATES.some(t => t.id === id);
+
+export const createTemplateId = () => `template-${Date.now().toString(36)}`;
+
+export function isTemplateModified(template: PromptTemplate): boolean {
+  const builtIn = BUILT_IN_TEMPLATES.find(t => t.id === template.id);
+  return !!builtIn && builtIn.body !== template.body;
+}
+
+// Local settings win over the template and overrides a style ships with
+export function resolveStylePrompt(
+  style: PhotoStyle,
+  library: PromptLibrary
+): { template: PromptTemplate; overrides: Partial<Record<PromptSection, string>> } {
+  const config = library.styleConfigs[style.id];
+  const templateId = config?.templateId || style.promptTemplateId || DEFAULT_TEMPLATE_ID;
+  const template = library.templates.find(t => t.id === templateId)
+    || library.templates.find(t => t.id === DEFAULT_TEMPLATE_ID)
+    || BUILT_IN_TEMPLATES[0];
+
+  const overrides: Partial<Record<PromptSection, string>> = {};
+  PROMPT_SECTIONS.forEach(section => {
+    const value = config?.overrides?.[section] ?? style.promptOverrides?.[section];
+    if (value && value.trim()) overrides[section] = value.trim();
+  });
+  return { template, overrides };
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function findUnknownVariables(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+}
+
+// Unknown placeholders are left in place so they stand out in the preview
+export function renderTemplate(body: string, variables: PromptVariables): string {
+  const lookup = (name: string): string | undefined =>
+    (PROMPT_VARIABLES as readonly string[]).includes(name) ? variables[name as PromptVariable] : undefined;
+
+  return body
+    .split('\n')
+    // A line holding nothing but an empty variable disappears instead of leaving a gap
+    .filter(line => {
+      const only = line.trim().match(/^\{\{\s*(\w+)\s*\}\}$/);
+      return !only || lookup(only[1]) !== '';
+    })
+    .map(line => line.replace(VARIABLE_PATTERN, (placeholder, name) => lookup(name) ?? placeholder))
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { IPTC_AI_SOURCE_TYPE, ProvenanceInfo, embedProvenance, readProvenance } from './provenance';
+
+const INFO: ProvenanceInfo = {
+  model: 'gemini-test',
+  style: 'French Chic',
+  prompt: 'Keep the <face> & "smile"',
+  createdAt: '2026-01-02T03:04:05.000Z'
+};
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+const occurrences = (bytes: Uint8Array, needle: string) => latin1(bytes).split(needle).length - 1;
+
+// Only the structure is checked by the reader, so CRCs and image data can stay zero
+function pngChunk(type: string, data: number[]) {
+  const length = [24, 16, 8, 0].map(shift => (data.length >>> shift) & 0xff);
+  return [...length, ...ascii(type), ...data, 0, 0, 0, 0];
+}
+
+const PNG = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+  ...pngChunk('IDAT', [1, 2, 3]),
+  ...pngChunk('IEND', [])
+]);
+
+const JPEG = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x07, ...ascii('JFIF'), 0x00, // APP0
+  0xff, 0xdb, 0x00, 0x03, 0x00, // DQT
+  0xff, 0xda, 0x00, 0x02, 0x11, 0x22, // Start of scan and image data
+  0xff, 0xd9
+]);
+
+// Lossless 3x2 image with alpha; the header bits are all the embedder reads
+function webp() {
+  const bits = (3 - 1) | ((2 - 1) << 14) | (1 << 28);
+  const vp8l = [0x2f, bits & 0xff, (bits >>> 8) & 0xff, (bits >>> 16) & 0xff, (bits >>> 24) & 0xff, 0x00];
+  const body = [...ascii('WEBP'), ...ascii('VP8L'), vp8l.length, 0, 0, 0, ...vp8l];
+  return new Uint8Array([...ascii('RIFF'), body.length, 0, 0, 0, ...body]);
+}
+
+const pngChunkTypes = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const types: string[] = [];
+  for (let offset = 8; offset < bytes.length; offset += 12 + view.getUint32(offset)) {
+    types.push(latin1(bytes.subarray(offset + 4, offset + 8)));
+  }
+  return types;
+};
+
+const webpChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset < bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: latin1(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+describe('PNG', () => {
+  it('writes the fields right after IHDR and keeps the image chunks', () => {
+    const tagged = embedProvenance(PNG, INFO);
+    const types = pngChunkTypes(tagged);
+
+    expect(types[0]).toBe('IHDR');
+    expect(types.slice(1, -2).every(type => type === 'iTXt')).toBe(true);
+    expect(types.slice(-2)).toEqual(['IDAT', 'IEND']);
+  });
+
+  it('reads back the keywords and the XMP packet', () => {
+    const report = readProvenance(embedProvenance(PNG, INFO));
+
+    expect(report.format).toBe('png');
+    expect(report.aiGenerated).toBe(true);
+    expect(report.fields).toMatchObject({
+      Style: INFO.style,
+      Model: INFO.model,
+      Prompt: INFO.prompt,
+      'Creation Time': INFO.createdAt,
+      'XMP Prompt': INFO.prompt,
+      'XMP DigitalSourceType': IPTC_AI_SOURCE_TYPE
+    });
+  });
+
+  it('replaces earlier values when embedded again', () => {
+    const once = embedProvenance(PNG, { ...INFO, prompt: null });
+    const twice = embedProvenance(embedProvenance(PNG, INFO), { ...INFO, prompt: null });
+
+    expect(twice).toEqual(once);
+    expect(readProvenance(twice).fields.Prompt).toBeUndefined();
+  });
+});
+
+describe('JPEG', () => {
+  it('adds one XMP segment after APP0 and leaves the scan data alone', () => {
+    const tagged = embedProvenance(embedProvenance(JPEG, INFO), { ...INFO, style: 'Noir' });
+
+    expect(Array.from(tagged.subarray(2, 4))).toEqual([0xff, 0xe0]);
+    expect(Array.from(tagged.subarray(11, 13))).toEqual([0xff, 0xe1]);
+    expect(occurrences(tagged, 'http://ns.adobe.com/xap/1.0/\0')).toBe(1);
+    expect(Array.from(tagged.subarray(-13))).toEqual(Array.from(JPEG.subarray(-13)));
+
+    const report = readProvenance(tagged);
+    expect(report.format).toBe('jpeg');
+    expect(report.aiGenerated).toBe(true);
+    expect(report.fields['XMP Style']).toBe('Noir');
+  });
+
+  it('shortens a prompt that does not fit one segment without splitting characters', () => {
+    const tagged = embedProvenance(JPEG, { ...INFO, prompt: '🙂'.repeat(40000) });
+    const segmentLength = (tagged[13] << 8) | tagged[14];
+    const prompt = readProvenance(tagged).fields['XMP Prompt'];
+
+    expect(segmentLength).toBeLessThanOrEqual(65535);
+    expect(prompt).toMatch(/^(🙂)+…$/u);
+    expect(prompt.length).toBeLessThan(80000);
+  });
+});
+
+describe('WebP', () => {
+  it('turns a simple file into an extended one with the XMP flag and canvas size', () => {
+    const tagged = embedProvenance(webp(), INFO);
+    const chunks = webpChunks(tagged);
+    const vp8x = chunks[0].data;
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['VP8X', 'VP8L', 'XMP ']);
+    expect(vp8x[0]).toBe(0x04 | 0x10);
+    expect(vp8x[4] | (vp8x[5] << 8)).toBe(3 - 1);
+    expect(vp8x[7] | (vp8x[8] << 8)).toBe(2 - 1);
+    expect(new DataView(tagged.buffer).getUint32(4, true)).toBe(tagged.length - 8);
+  });
+
+  it('keeps a single XMP chunk when embedded again', () => {
+    const tagged = embedProvenance(embedProvenance(webp(), INFO), { ...INFO, model: null });
+    const report = readProvenance(tagged);
+
+    expect(webpChunks(tagged).filter(chunk => chunk.type === 'XMP ')).toHaveLength(1);
+    expect(report.format).toBe('webp');
+    expect(report.aiGenerated).toBe(true);
+    expect(report.fields['XMP Model']).toBeUndefined();
+  });
+});
+
+describe('other formats', () => {
+  it('returns the bytes untouched and reports no disclosure', () => {
+    const gif = new Uint8Array(ascii('GIF89a'));
+
+    expect(embedProvenance(gif, INFO)).toBe(gif);
+    expect(readProvenance(gif)).toEqual({ format: 'other', aiGenerated: false, fields: {} });
+  });
+});
@@ -0,0 +1,423 @@
+// Writes and reads AI-disclosure metadata in exported images, without re-encoding the pixels.
+// PNG gets iTXt chunks plus an XMP packet, JPEG an XMP APP1 segment and WebP an XMP chunk. Anything else
+// (in practice GIF) cannot be tagged, so withProvenance() converts it to PNG first.
+import { GeneratedImage, PhotoStyle } from '../types';
+import { findCurrentEntry } from './history';
+import { dataUrlToBlob, extensionForMimeType, loadImage } from './imageUtils';
+import { downloadBlob } from './download';
+import { englishStyleName } from '../i18n/styleNames';
+
+export const PROVENANCE_SOFTWARE = 'AI Photo Studio';
+export const AI_DISCLOSURE = 'AI-generated image. This portrait was created by a generative AI model and does not depict a real photograph.';
+// IPTC digital source type for media created by a trained model
+export const IPTC_AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+export interface ProvenanceInfo {
+  model: string | null;
+  style: string;
+  prompt: string | null;
+  createdAt: string; // ISO timestamp
+}
+
+export interface ProvenanceReport {
+  format: 'png' | 'jpeg' | 'webp' | 'other';
+  aiGenerated: boolean; // A disclosure or the IPTC AI source type was found
+  fields: Record<string, string>; // Everything readable, keyed by PNG keyword or XMP property
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT = 65533; // Segment length field is 16 bits and counts itself
+// Every PNG keyword we write, including optional ones, so re-embedding replaces all of them
+const PNG_KEYWORDS = new Set(['AI-Generated', 'Disclosure', 'Software', 'Style', 'Creation Time', 'Model', 'Prompt', XMP_KEYWORD]);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const latin1 = new TextDecoder('latin1');
+
+// Fields as they appear in PNG keywords and the verifier, in display order
+export function provenanceFields(info: ProvenanceInfo): Record<string, string> {
+  const fields: Record<string, string> = {
+    'AI-Generated': 'true',
+    Disclosure: AI_DISCLOSURE,
+    Software: PROVENANCE_SOFTWARE,
+    Style: info.style,
+    'Creation Time': info.createdAt,
+  };
+  if (info.model) fields.Model = info.model;
+  if (info.prompt) fields.Prompt = info.prompt;
+  return fields;
+}
+
+// Details of one image of a result; the hero by default, or any variant or history image
+export function provenanceFor(result: GeneratedImage, style: PhotoStyle, imageUrl = result.imageUrl): ProvenanceInfo {
+  const entry = result.history?.find(h => h.imageUrl === imageUrl) || findCurrentEntry(result);
+  const variant = result.variants?.find(v => v.imageUrl === imageUrl);
+  return {
+    model: variant?.model || entry?.model || result.model || null,
+    style: englishStyleName(style),
+    prompt: entry?.prompt || null,
+    createdAt: new Date(entry?.createdAt ?? Date.now()).toISOString()
+  };
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) => value
+  .replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+function buildXmp(info: ProvenanceInfo): string {
+  const prop = (name: string, value: string | null) => value ? `\n   <${name}>${escapeXml(value)}</${name}>` : '';
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:aps="https://ai-photo-studio.app/ns/1.0/">
+   <Iptc4xmpExt:DigitalSourceType>${IPTC_AI_SOURCE_TYPE}</Iptc4xmpExt:DigitalSourceType>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(AI_DISCLOSURE)}</rdf:li></rdf:Alt></dc:description>
+   <xmp:CreatorTool>${PROVENANCE_SOFTWARE}</xmp:CreatorTool>
+   <xmp:CreateDate>${info.createdAt}</xmp:CreateDate>
+   <aps:AIGenerated>true</aps:AIGenerated>
+   <aps:Style>${escapeXml(info.style)}</aps:Style>${prop('aps:Model', info.model)}${prop('aps:Prompt', info.prompt)}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+}
+
+// Pulls the simple properties back out of an XMP packet; enough for our own fields and the common standard ones
+function parseXmp(xmp: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const wanted: [string, RegExp][] = [
+    ['DigitalSourceType', /<Iptc4xmpExt:DigitalSourceType>([\s\S]*?)<\//],
+    ['Description', /<dc:description>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/],
+    ['CreatorTool', /<xmp:CreatorTool>([\s\S]*?)<\//],
+    ['CreateDate', /<xmp:CreateDate>([\s\S]*?)<\//],
+    ['AIGenerated', /<aps:AIGenerated>([\s\S]*?)<\//],
+    ['Style', /<aps:Style>([\s\S]*?)<\//],
+    ['Model', /<aps:Model>([\s\S]*?)<\//],
+    ['Prompt', /<aps:Prompt>([\s\S]*?)<\//],
+  ];
+  wanted.forEach(([name, pattern]) => {
+    const match = xmp.match(pattern);
+    if (match) fields[`XMP ${name}`] = unescapeXml(match[1].trim());
+  });
+  return fields;
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+// --- PNG ---
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const typeAndData = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+// Uncompressed iTXt: keyword NUL, compression flag, method, language NUL, translated keyword NUL, UTF-8 text
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+interface PngChunk { type: string; start: number; end: number; data: Uint8Array }
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    if (type === 'IEND') break;
+    offset = end;
+  }
+  return chunks;
+};
+
+const chunkKeyword = (chunk: PngChunk) => {
+  if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt' && chunk.type !== 'zTXt') return null;
+  const nul = chunk.data.indexOf(0);
+  return nul < 0 ? null : latin1.decode(chunk.data.subarray(0, nul));
+};
+
+function embedPng(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') return bytes;
+  const fields = provenanceFields(info);
+  const metadata = [
+    ...Object.entries(fields).map(([keyword, text]) => itxtChunk(keyword, text)),
+    itxtChunk(XMP_KEYWORD, buildXmp(info))
+  ];
+  // Earlier values are dropped, so re-exporting an image never leaves stale ones behind
+  const kept = chunks.slice(1).filter(chunk => !PNG_KEYWORDS.has(chunkKeyword(chunk) ?? ''));
+  // Right after IHDR, so readers that stop at the image data still see them
+  return concat([
+    bytes.subarray(0, chunks[0].end),
+    ...metadata,
+    ...kept.map(chunk => bytes.subarray(chunk.start, chunk.end))
+  ]);
+}
+
+function readPngText(bytes: Uint8Array): Record<string, string> {
+  const fields: Record<string, string> = {};
+  readPngChunks(bytes).forEach(({ type, data }) => {
+    if (type !== 'tEXt' && type !== 'iTXt') return;
+    const nul = data.indexOf(0);
+    if (nul < 0) return;
+    const keyword = latin1.decode(data.subarray(0, nul));
+    let text: string;
+    if (type === 'tEXt') {
+      text = latin1.decode(data.subarray(nul + 1));
+    } else {
+      if (data[nul + 1] !== 0) return; // Compressed iTXt is not supported
+      const languageEnd = data.indexOf(0, nul + 3);
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd < 0) return;
+      text = decoder.decode(data.subarray(translatedEnd + 1));
+    }
+    if (keyword === XMP_KEYWORD) Object.assign(fields, parseXmp(text));
+    else fields[keyword] = text;
+  });
+  return fields;
+}
+
+// --- JPEG ---
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+interface JpegSegment { marker: number; start: number; end: number; data: Uint8Array }
+
+// Marker segments before the image data; stops at start-of-scan
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff;) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, end, data: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+  return segments;
+};
+
+const isXmpSegment = (segment: JpegSegment) =>
+  segment.marker === 0xe1 && latin1.decode(segment.data.subarray(0, JPEG_XMP_HEADER.length)) === JPEG_XMP_HEADER;
+
+function embedJpeg(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+  const header = encoder.encode(JPEG_XMP_HEADER);
+  let prompt = info.prompt;
+  let payload = concat([header, encoder.encode(buildXmp(info))]);
+  // One APP1 segment holds ~64 KB; very long prompts are cut rather than dropping the disclosure
+  while (payload.length > MAX_JPEG_SEGMENT && prompt) {
+    // By code point, so an emoji or other surrogate pair is never split in half
+    const codePoints = Array.from(prompt);
+    prompt = codePoints.slice(0, Math.floor(codePoints.length / 2)).join('');
+    payload = concat([header, encoder.encode(buildXmp({ ...info, prompt: `${prompt}…` }))]);
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  // Any earlier XMP is replaced; ours goes after the JFIF/EXIF segments, which readers expect first
+  const segments = readJpegSegments(bytes);
+  const headerEnd = segments.length > 0 ? segments[segments.length - 1].end : 2;
+  const kept = segments.filter(s => !isXmpSegment(s));
+  const leading = kept.filter(s => s.marker === 0xe0 || s.marker === 0xe1);
+  const rest = kept.filter(s => !leading.includes(s));
+  return concat([
+    bytes.subarray(0, 2),
+    ...leading.map(s => bytes.subarray(s.start, s.end)),
+    segment,
+    ...rest.map(s => bytes.subarray(s.start, s.end)),
+    bytes.subarray(headerEnd)
+  ]);
+}
+
+function readJpegXmp(bytes: Uint8Array): Record<string, string> {
+  const segment = readJpegSegments(bytes).find(isXmpSegment);
+  return segment ? parseXmp(decoder.decode(segment.data.subarray(JPEG_XMP_HEADER.length))) : {};
+}
+
+// --- WebP ---
+
+// VP8X flags: bit 2 announces an XMP chunk, bit 4 alpha
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+const isWebp = (bytes: Uint8Array) =>
+  bytes.length >= 12 && latin1.decode(bytes.subarray(0, 4)) === 'RIFF' && latin1.decode(bytes.subarray(8, 12)) === 'WEBP';
+
+interface WebpChunk { type: string; start: number; end: number; data: Uint8Array }
+
+// Chunks are padded to an even length; the padding is not counted in the size field
+const readWebpChunks = (bytes: Uint8Array): WebpChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WebpChunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const type = latin1.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) break;
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset = end;
+  }
+  return chunks;
+};
+
+const webpChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encoder.encode(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Canvas size and alpha of a simple (VP8 or VP8L) file, needed to write the VP8X header it lacks
+const webpCanvas = (image: WebpChunk): { width: number; height: number; alpha: boolean } | null => {
+  const { type, data } = image;
+  if (type === 'VP8 ' && data.length >= 10 && data[3] === 0x9d && data[4] === 0x01 && data[5] === 0x2a) {
+    return { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff, alpha: false };
+  }
+  if (type === 'VP8L' && data.length >= 5 && data[0] === 0x2f) {
+    const bits = new DataView(data.buffer, data.byteOffset + 1, 4).getUint32(0, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  return null;
+};
+
+const vp8xChunk = (flags: number, width: number, height: number) => {
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  [width - 1, height - 1].forEach((value, index) => {
+    data[4 + index * 3] = value & 0xff;
+    data[5 + index * 3] = (value >> 8) & 0xff;
+    data[6 + index * 3] = (value >> 16) & 0xff;
+  });
+  return webpChunk('VP8X', data);
+};
+
+function embedWebp(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+  const chunks = readWebpChunks(bytes);
+  const kept = chunks.filter(chunk => chunk.type !== 'XMP ');
+  let header: Uint8Array;
+  let body: WebpChunk[];
+  if (kept[0]?.type === 'VP8X') {
+    // Extended files already have the header; only the XMP flag needs setting
+    header = kept[0].data.slice();
+    header[0] |= WEBP_XMP_FLAG;
+    header = webpChunk('VP8X', header);
+    body = kept.slice(1);
+  } else {
+    const canvas = kept[0] ? webpCanvas(kept[0]) : null;
+    if (!canvas) return bytes;
+    header = vp8xChunk(WEBP_XMP_FLAG | (canvas.alpha ? WEBP_ALPHA_FLAG : 0), canvas.width, canvas.height);
+    body = kept;
+  }
+  // XMP goes last, after the image data, as the container spec orders it
+  const riffBody = concat([
+    encoder.encode('WEBP'),
+    header,
+    ...body.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+    webpChunk('XMP ', encoder.encode(buildXmp(info)))
+  ]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(encoder.encode('RIFF'));
+  new DataView(riffHeader.buffer).setUint32(4, riffBody.length, true);
+  return concat([riffHeader, riffBody]);
+}
+
+function readWebpXmp(bytes: Uint8Array): Record<string, string> {
+  const chunk = readWebpChunks(bytes).find(c => c.type === 'XMP ');
+  return chunk ? parseXmp(decoder.decode(chunk.data)) : {};
+}
+
+// --- Public API ---
+
+// Formats the disclosure can be written into without touching the pixels
+const TAGGABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export function embedProvenance(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+  if (isPng(bytes)) return embedPng(bytes, info);
+  if (isJpeg(bytes)) return embedJpeg(bytes, info);
+  if (isWebp(bytes)) return embedWebp(bytes, info);
+  return bytes;
+}
+
+// Re-encodes the first frame as PNG; an image must never leave the app without its disclosure
+async function toPng(dataUrl: string): Promise<Blob> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+  });
+}
+
+// The returned type may differ from the data URL's (GIF becomes PNG), so name files after blob.type
+export async function withProvenance(dataUrl: string, info: ProvenanceInfo): Promise<Blob> {
+  const original = dataUrlToBlob(dataUrl);
+  const blob = TAGGABLE_TYPES.includes(original.type) ? original : await toPng(dataUrl);
+  const bytes = embedProvenance(new Uint8Array(await blob.arrayBuffer()), info);
+  return new Blob([bytes as BlobPart], { type: blob.type });
+}
+
+// Single-image download with the metadata written in and the extension matching the real type
+export async function downloadWithProvenance(dataUrl: string, info: ProvenanceInfo, baseName: string): Promise<void> {
+  const blob = await withProvenance(dataUrl, info);
+  downloadBlob(blob, `${baseName}.${extensionForMimeType(blob.type)}`);
+}
+
+export function readProvenance(bytes: Uint8Array): ProvenanceReport {
+  const format = isPng(bytes) ? 'png' : isJpeg(bytes) ? 'jpeg' : isWebp(bytes) ? 'webp' : 'other';
+  const fields = format === 'png' ? readPngText(bytes)
+    : format === 'jpeg' ? readJpegXmp(bytes)
+    : format === 'webp' ? readWebpXmp(bytes)
+    : {};
+  const aiGenerated = fields['AI-Generated'] === 'true'
+    || fields['XMP AIGenerated'] === 'true'
+    || fields['XMP DigitalSourceType'] === IPTC_AI_SOURCE_TYPE;
+  return { format, aiGenerated, fields };
+}
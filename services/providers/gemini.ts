@@ -0,0 +1,172 @@
+import { GoogleGenAI } from "@google/genai";
+import { ImageProvider, ProviderError, ProviderErrorKind, errorMessage, errorStatus } from "./types";
+
+// Using the nano banana model as requested (mapped to gemini-2.5-flash-image)
+const MODEL_NAME = 'gemini-2.5-flash-image';
+
+// Created lazily so the app can boot (e.g. with the mock provider) without an API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini Nano Banana',
+  model: MODEL_NAME,
+  capabilities: {
+    supportedAspectRatios: ['1:1', '3:4', '4:3', '9:16', '16:9'],
+    // gemini-2.5-flash-image only renders at its default ~1K size
+    supportedImageSizes: ['1K'],
+    maxReferenceImages: 3,
+  },
+
+  async generate({ prompt, referenceImages, aspectRatio, imageSize, signal, edit }) {
+    const parts = [
+        ...referenceImages.map(image => ({
+            inlineData: {
+                mimeType: image.mimeType,
+                data: image.data
+            }
+        })),
+        {
+            text: prompt
+        }
+    ];
+
+    const response = await getClient().models.generateContent({
+      model: MODEL_NAME,
+      // Edits are one user turn: the reference photos, then the image being edited, then editPrompt()
+      contents: edit
+        ? {
+            parts: [
+              ...parts.slice(0, -1),
+              { inlineData: { mimeType: edit.image.mimeType, data: edit.image.data } },
+              { text: editPrompt(prompt, referenceImages.length, edit.instructions) }
+            ]
+          }
+        : { parts },
+      config: {
+          abortSignal: signal,
+          imageConfig: {
+              aspectRatio,
+              // 1K is the API default; only send a size when asking for more
+              ...(imageSize !== '1K' ? { imageSize } : {})
+          }
+      }
+    });
+
+    // Blocked prompts come back without candidates; blocked images with a safety finish reason
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new ProviderError(`Request blocked by safety filters (${blockReason}).`, 'safety', 'gemini');
+    }
+
+    // Extract image from response
+    const candidates = response.candidates;
+    if (candidates && candidates.length > 0) {
+        const parts = candidates[0].content?.parts || [];
+        for (const part of parts) {
+            if (part.inlineData && part.inlineData.data) {
+                return {
+                  imageUrl: `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`,
+                  model: MODEL_NAME
+                };
+            }
+        }
+    }
+
+    const finishReason = String(candidates?.[0]?.finishReason || '');
+    if (/SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION/.test(finishReason)) {
+      throw new ProviderError(`Image blocked by safety filters (${finishReason}).`, 'safety', 'gemini');
+    }
+
+    throw new Error("No image data found in response");
+  },
+
+  normalizeError(error) {
+    if (error instanceof ProviderError) return error;
+
+    const message = errorMessage(error);
+    const { kind, retryAfterMs } = classifyGeminiError(error, message);
+    return new ProviderError(message, kind, 'gemini', { retryAfterMs });
+  }
+};
+
+// Says what the image being edited really is: an earlier result, not a reference photo. Earlier instructions
+// are already in it, so they are listed as done and only the last one is asked for
+function editPrompt(prompt: string, referenceCount: number, instructions: string[]): string {
+  const earlier = instructions.slice(0, -1);
+  const latest = instructions[instructions.length - 1];
+  return [
+    referenceCount > 0
+      ? `The last image above was generated earlier from the ${referenceCount > 1 ? 'reference photos' : 'reference photo'} before it, with this request:`
+      : 'The image above was generated earlier with this request:',
+    prompt,
+    ...(earlier.length > 0 ? ['', 'These edits have already been applied to it, in order:', ...earlier.map(text => `- ${text}`)] : []),
+    '',
+    `Now edit that image: ${latest}`,
+    'Keep everything else unchanged, including the person\'s likeness.'
+  ].join('\n');
+}
+
+// SDK errors carry the HTTP status and, usually, the google.rpc error JSON inside the message
+interface GoogleRpcError {
+  code?: number;
+  status?: string;
+  message?: string;
+  details?: { '@type'?: string; retryDelay?: string; reason?: string; violations?: { quotaId?: string }[] }[];
+}
+
+const parseRpcError = (message: string): GoogleRpcError | null => {
+  const start = message.indexOf('{');
+  if (start === -1) return null;
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed?.error || parsed;
+  } catch {
+    return null;
+  }
+};
+
+// RetryInfo delays look like "29s" or "1.5s"
+const parseRetryDelay = (rpc: GoogleRpcError | null, message: string): number | undefined => {
+  const fromDetails = rpc?.details?.find(d => d.retryDelay)?.retryDelay;
+  const delay = fromDetails || message.match(/retry in ([\d.]+)s/i)?.[1];
+  if (!delay) return undefined;
+  const seconds = parseFloat(delay);
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : undefined;
+};
+
+function classifyGeminiError(error: unknown, message: string): { kind: ProviderErrorKind; retryAfterMs?: number } {
+  // fetch() rejects with a TypeError when the connection drops, before any HTTP status exists
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false)
+    || (error instanceof TypeError && /fetch|network/i.test(message))) {
+    return { kind: 'offline' };
+  }
+
+  const rpc = parseRpcError(message);
+  const status = errorStatus(error) ?? rpc?.code;
+  const rpcStatus = rpc?.status || '';
+  const reasons = (rpc?.details || []).map(d => d.reason).filter(Boolean);
+  const quotaIds = (rpc?.details || []).flatMap(d => d.violations || []).map(v => v.quotaId || '');
+
+  if (reasons.includes('API_KEY_INVALID') || /API key not valid|API_KEY_INVALID|API key expired/i.test(message)
+    || status === 401 || status === 403 || rpcStatus === 'UNAUTHENTICATED' || rpcStatus === 'PERMISSION_DENIED') {
+    return { kind: 'auth' };
+  }
+  if (status === 429 || rpcStatus === 'RESOURCE_EXHAUSTED' || message.includes('429') || /quota/i.test(message)) {
+    // Per-day quotas reset tomorrow; per-minute ones only need a short wait
+    const daily = quotaIds.some(id => /PerDay/i.test(id)) || /per day|daily/i.test(message);
+    return daily ? { kind: 'quota_exhausted' } : { kind: 'rate_limit', retryAfterMs: parseRetryDelay(rpc, message) };
+  }
+  if (status === 400 || rpcStatus === 'INVALID_ARGUMENT' || rpcStatus === 'FAILED_PRECONDITION') {
+    return { kind: 'invalid_input' };
+  }
+  if ((typeof status === 'number' && status >= 500) || ['UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED', 'UNKNOWN'].includes(rpcStatus)
+    || /Rpc failed|xhr error|UNKNOWN|\b50[0-4]\b/.test(message)) {
+    return { kind: 'server', retryAfterMs: parseRetryDelay(rpc, message) };
+  }
+  return { kind: 'unknown' };
+}
@@ -0,0 +1,20 @@
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { ImageProvider } from './types';
+
+export * from './types';
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+const DEFAULT_PROVIDER_ID = process.env.IMAGE_PROVIDER || 'gemini';
+
+let activeProvider: ImageProvider =
+  IMAGE_PROVIDERS.find(p => p.id === DEFAULT_PROVIDER_ID) || geminiProvider;
+
+export const getActiveProvider = (): ImageProvider => activeProvider;
+
+export const setActiveProvider = (id: string) => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown image provider: ${id}`);
+  activeProvider = provider;
+};
@@ -0,0 +1,135 @@
+import { AspectRatio, ImageSize } from "../../types";
+import { ImageProvider, ProviderError, ProviderErrorKind, errorMessage, isProviderErrorKind } from "./types";
+
+const MODEL_NAME = 'mock-canvas-v1';
+// Simulated network latency so the queue and cooldown UI behave like the real thing
+const MOCK_LATENCY_MS = 1200;
+// Retry delay reported by simulated rate limits
+const MOCK_RETRY_AFTER_MS = 5000;
+const LONG_EDGE: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+// FNV-1a, used to derive stable colors from the prompt
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getAspectDimensions = (aspectRatio: AspectRatio, longEdge: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to decode reference image'));
+  img.src = src;
+});
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancelled = () => new DOMException('Generation cancelled', 'AbortError');
+  if (signal?.aborted) return reject(cancelled());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  // Removed once the wait is over, so long-lived signals do not collect a listener per call
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Deterministic offline provider: tints the reference photo with prompt-derived colors
+// and stamps the style onto it, so the whole queue/album flow can be demoed without an API key.
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  model: MODEL_NAME,
+  capabilities: {
+    supportedAspectRatios: ['1:1', '3:4', '4:3', '9:16', '16:9'],
+    supportedImageSizes: ['1K', '2K', '4K'],
+    maxReferenceImages: 5,
+  },
+
+  async generate({ prompt, referenceImages, aspectRatio, imageSize, variant = 0, signal, edit }) {
+    await wait(MOCK_LATENCY_MS, signal);
+
+    // Put e.g. "[mock-error:rate_limit]" in a style prompt to rehearse failure handling
+    const requested = prompt.match(/\[mock-error:(\w+)\]/)?.[1];
+    if (requested) {
+      const forced: ProviderErrorKind = isProviderErrorKind(requested) ? requested : 'unknown';
+      throw new ProviderError(`Simulated ${forced} error`, forced, 'mock', {
+        retryAfterMs: forced === 'rate_limit' ? MOCK_RETRY_AFTER_MS : undefined
+      });
+    }
+
+    const { width, height } = getAspectDimensions(aspectRatio, LONG_EDGE[imageSize]);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    // Variant 0 keeps the colors single-candidate runs always had; each edit shifts them again
+    const seed = [variant ? `${prompt}#${variant}` : prompt, edit?.instructions.join('\n')].filter(Boolean).join('\n');
+    const hash = hashString(seed);
+    const hueA = hash % 360;
+    const hueB = (hueA + 40 + (hash >> 9) % 120) % 360;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hueA}, 65%, 45%)`);
+    gradient.addColorStop(1, `hsl(${hueB}, 70%, 20%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // Edits start from the image being edited, so the changes stack up visibly
+    const primary = referenceImages[0];
+    if (edit) {
+      const img = await loadImage(`data:${edit.image.mimeType};base64,${edit.image.data}`);
+      ctx.drawImage(img, 0, 0, width, height);
+      ctx.fillStyle = `hsla(${hueA}, 70%, 50%, 0.12)`;
+      ctx.fillRect(0, 0, width, height);
+    } else if (primary) {
+      const img = await loadImage(`data:${primary.mimeType};base64,${primary.data}`);
+      // Cover-fit the reference into the frame
+      const scale = Math.max(width / img.width, height / img.height);
+      const dw = img.width * scale;
+      const dh = img.height * scale;
+      ctx.globalAlpha = 0.75;
+      ctx.drawImage(img, (width - dw) / 2, (height - dh) / 2, dw, dh);
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = `hsla(${hueA}, 70%, 50%, 0.25)`;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // Caption band with the style portion of the prompt, or the instruction for edits
+    const styleLine = edit
+      ? `EDIT: ${edit.instructions[edit.instructions.length - 1]}`
+      : (prompt.match(/Target Style:\s*([^\n.]+)/)?.[1] || prompt).trim();
+    const bandHeight = Math.round(height * 0.16);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, height - bandHeight, width, bandHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `600 ${Math.round(bandHeight * 0.22)}px Inter, sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(styleLine.slice(0, 48), width * 0.05, height - bandHeight * 0.62, width * 0.9);
+    ctx.font = `400 ${Math.round(bandHeight * 0.15)}px monospace`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillText(`MOCK · ${aspectRatio} · ${imageSize} · #${hash.toString(16).padStart(8, '0')}`, width * 0.05, height - bandHeight * 0.28, width * 0.9);
+
+    return { imageUrl: canvas.toDataURL('image/png'), model: MODEL_NAME };
+  },
+
+  normalizeError(error) {
+    if (error instanceof ProviderError) return error;
+    return new ProviderError(errorMessage(error), 'unknown', 'mock');
+  }
+};
@@ -0,0 +1,95 @@
+import { AspectRatio, ImageSize } from '../../types';
+
+export interface ReferenceImage {
+  mimeType: string;
+  data: string; // Raw base64, without the data URL prefix
+}
+
+// Follow-up on an earlier result of the request's prompt and references. `image` already reflects every
+// instruction but the last one, which is the edit to make now
+export interface ImageEditTurn {
+  image: ReferenceImage;
+  instructions: string[]; // Oldest first
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  referenceImages: ReferenceImage[];
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  variant?: number; // Candidate index when several are generated for one style; lets deterministic providers differ
+  signal?: AbortSignal; // Aborts the request when the job is cancelled
+  edit?: ImageEditTurn;
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string; // Data URL
+  model: string;
+}
+
+export interface ProviderCapabilities {
+  supportedAspectRatios: AspectRatio[];
+  supportedImageSizes: ImageSize[];
+  maxReferenceImages: number;
+}
+
+export type ProviderErrorKind =
+  | 'rate_limit' // Too many requests right now; fine again after a pause
+  | 'quota_exhausted' // Daily or billing quota used up; retrying today will not help
+  | 'server' // Transient server or transport failure
+  | 'offline' // The browser has no network connection
+  | 'safety' // Prompt or result blocked by safety filters
+  | 'invalid_input' // Request rejected as malformed or unsupported
+  | 'auth' // Missing, invalid or unauthorized API key
+  | 'unknown';
+
+const PROVIDER_ERROR_KINDS: ProviderErrorKind[] = [
+  'rate_limit', 'quota_exhausted', 'server', 'offline', 'safety', 'invalid_input', 'auth', 'unknown'
+];
+
+export const isProviderErrorKind = (value: unknown): value is ProviderErrorKind =>
+  PROVIDER_ERROR_KINDS.some(kind => kind === value);
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limit', 'server', 'offline'];
+// Every later job would fail the same way, so the queue stops instead of retrying
+const HALTING_KINDS: ProviderErrorKind[] = ['auth', 'quota_exhausted'];
+
+// Provider-agnostic error so the queue never has to know how a vendor reports failures
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  retryable: boolean;
+  haltsQueue: boolean;
+  retryAfterMs?: number; // Delay the API asked for before trying again
+  providerId: string;
+
+  constructor(message: string, kind: ProviderErrorKind, providerId: string, options: { retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.haltsQueue = HALTING_KINDS.includes(kind);
+    this.retryAfterMs = options.retryAfterMs;
+    this.providerId = providerId;
+  }
+}
+
+// Vendors throw Errors, plain objects or strings; these read the usual fields without trusting the shape
+export const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error || 'Unknown error';
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message || 'Unknown error';
+  }
+  return 'Unknown error';
+};
+
+export const errorStatus = (error: unknown): number | undefined =>
+  typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  model: string;
+  capabilities: ProviderCapabilities;
+  generate: (request: ImageGenerationRequest) => Promise<ImageGenerationResult>;
+  normalizeError: (error: unknown) => ProviderError;
+}
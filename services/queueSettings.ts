@@ -0,0 +1,88 @@
+import { SchedulerConfig } from './scheduler';
+
+const STORAGE_KEY = 'ai-photo-studio.queue-settings';
+
+export type ApiTier = 'free' | 'tier1' | 'tier2' | 'custom';
+
+// Starting points per API billing tier; "custom" keeps whatever the user tuned
+export const TIER_PRESETS: Record<Exclude<ApiTier, 'custom'>, SchedulerConfig> = {
+  // One request at a time, about 6 RPM, matching the original fixed pacing
+  free: {
+    concurrency: 1,
+    requestsPerMinute: 6,
+    burst: 1,
+    baseBackoffMs: 60000,
+    maxBackoffMs: 600000,
+    jitter: 0.2,
+    breakerThreshold: 3,
+    breakerResetMs: 0
+  },
+  tier1: {
+    concurrency: 2,
+    requestsPerMinute: 20,
+    burst: 3,
+    baseBackoffMs: 30000,
+    maxBackoffMs: 300000,
+    jitter: 0.3,
+    breakerThreshold: 4,
+    breakerResetMs: 300000
+  },
+  tier2: {
+    concurrency: 4,
+    requestsPerMinute: 60,
+    burst: 6,
+    baseBackoffMs: 15000,
+    maxBackoffMs: 120000,
+    jitter: 0.3,
+    breakerThreshold: 5,
+    breakerResetMs: 120000
+  }
+};
+
+export interface QueueSettings {
+  tier: ApiTier;
+  config: SchedulerConfig;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = { tier: 'free', config: TIER_PRESETS.free };
+
+// Bounds for the settings panel; stored values are clamped to them on load
+export const CONFIG_LIMITS: Record<keyof SchedulerConfig, { min: number; max: number; step: number }> = {
+  concurrency: { min: 1, max: 8, step: 1 },
+  requestsPerMinute: { min: 1, max: 120, step: 1 },
+  burst: { min: 1, max: 20, step: 1 },
+  baseBackoffMs: { min: 1000, max: 300000, step: 1000 },
+  maxBackoffMs: { min: 1000, max: 1800000, step: 1000 },
+  jitter: { min: 0, max: 1, step: 0.05 },
+  breakerThreshold: { min: 1, max: 20, step: 1 },
+  breakerResetMs: { min: 0, max: 1800000, step: 1000 }
+};
+
+const clampConfig = (config: Partial<SchedulerConfig>, fallback: SchedulerConfig): SchedulerConfig => {
+  const result = { ...fallback };
+  (Object.keys(CONFIG_LIMITS) as (keyof SchedulerConfig)[]).forEach(key => {
+    const value = config[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = Math.min(CONFIG_LIMITS[key].max, Math.max(CONFIG_LIMITS[key].min, value));
+    }
+  });
+  return result;
+};
+
+export function loadQueueSettings(): QueueSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_QUEUE_SETTINGS;
+    const parsed = JSON.parse(raw);
+    const tier: ApiTier = parsed?.tier in TIER_PRESETS || parsed?.tier === 'custom' ? parsed.tier : 'free';
+    const fallback = tier === 'custom' ? TIER_PRESETS.free : TIER_PRESETS[tier];
+    return { tier, config: clampConfig(parsed?.config || {}, fallback) };
+  } catch (error) {
+    console.error('Failed to load queue settings', error);
+    return DEFAULT_QUEUE_SETTINGS;
+  }
+}
+
+export function saveQueueSettings(settings: QueueSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SchedulerConfig, SchedulerEvent, backoffDelay, createScheduler, createTokenBucket } from './scheduler';
+
+const CONFIG: SchedulerConfig = {
+  concurrency: 2,
+  requestsPerMinute: 600,
+  burst: 10,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 8000,
+  jitter: 0,
+  breakerThreshold: 3,
+  breakerResetMs: 10000
+};
+
+class TransientError extends Error {
+  constructor(public retryAfterMs?: number) {
+    super('transient');
+  }
+}
+
+// Every run stays in flight until the test settles it; aborting rejects it like a real request would,
+// unless `ignoreAbort` stands in for a provider that never looks at the signal
+function setup(config: Partial<SchedulerConfig> = {}, { ignoreAbort = false } = {}) {
+  const pending = new Map<string, { resolve: (value: string) => void; reject: (error: unknown) => void }>();
+  const events: SchedulerEvent<string, string>[] = [];
+  const run = vi.fn((job: string, signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    pending.set(job, { resolve, reject });
+    if (!ignoreAbort) signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+  const scheduler = createScheduler<string, string>({
+    config: { ...CONFIG, ...config },
+    run,
+    isRetryable: error => error instanceof TransientError,
+    retryAfter: error => error instanceof TransientError ? error.retryAfterMs : undefined,
+    random: () => 0.5
+  });
+  scheduler.subscribe(event => {
+    if (event.type !== 'change') events.push(event);
+  });
+
+  const settle = async (job: string, outcome: { result?: string; error?: unknown }) => {
+    const deferred = pending.get(job);
+    if (!deferred) throw new Error(`${job} is not running`);
+    pending.delete(job);
+    if (outcome.error) deferred.reject(outcome.error);
+    else deferred.resolve(outcome.result ?? `${job}-done`);
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  const eventsOf = (type: SchedulerEvent<string, string>['type']) => events.filter(event => event.type === type);
+
+  return { scheduler, run, settle, eventsOf };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createTokenBucket', () => {
+  it('spends the burst, then refills at the configured rate', () => {
+    const bucket = createTokenBucket(2, 60, 0);
+    expect(bucket.take(0)).toBe(true);
+    expect(bucket.take(0)).toBe(true);
+    expect(bucket.take(0)).toBe(false);
+    expect(bucket.nextAvailableAt(0)).toBe(1000);
+    expect(bucket.take(999)).toBe(false);
+    expect(bucket.take(1000)).toBe(true);
+  });
+
+  it('never holds more than its capacity', () => {
+    const bucket = createTokenBucket(2, 60, 0);
+    bucket.take(0);
+    bucket.take(0);
+    expect(bucket.take(60000)).toBe(true);
+    expect(bucket.take(60000)).toBe(true);
+    expect(bucket.take(60000)).toBe(false);
+  });
+
+  it('holds back scheduler jobs until a token is available', async () => {
+    const { scheduler, run } = setup({ burst: 1, requestsPerMinute: 60 });
+    scheduler.enqueue(['a', 'b']);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getSnapshot()).toMatchObject({ waitReason: 'rateLimit', waitingUntil: 1000 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getSnapshot().running).toEqual(['a', 'b']);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per failure up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(failures => backoffDelay(failures, CONFIG))).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it('keeps jitter within the configured fraction either side', () => {
+    const config = { ...CONFIG, jitter: 0.25 };
+    expect(backoffDelay(2, config, () => 0)).toBe(1500);
+    expect(backoffDelay(2, config, () => 0.5)).toBe(2000);
+    expect(backoffDelay(2, config, () => 0.999999)).toBe(2500);
+    for (let i = 0; i < 100; i++) {
+      const delay = backoffDelay(3, config);
+      expect(delay).toBeGreaterThanOrEqual(3000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    }
+  });
+});
+
+describe('createScheduler', () => {
+  it('backs off after a transient failure and retries the job first', async () => {
+    const { scheduler, run, settle, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a', 'b']);
+    await settle('a', { error: new TransientError() });
+
+    expect(eventsOf('retry')).toMatchObject([{ job: 'a', delayMs: 1000 }]);
+    expect(scheduler.getSnapshot()).toMatchObject({ queue: ['a', 'b'], waitReason: 'backoff', consecutiveFailures: 1 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenLastCalledWith('a', expect.any(AbortSignal));
+  });
+
+  it('waits for retryAfter when the server asks for longer than the backoff', async () => {
+    const { scheduler, run, settle, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a']);
+    await settle('a', { error: new TransientError(30000) });
+
+    expect(eventsOf('retry')).toMatchObject([{ job: 'a', delayMs: 30000 }]);
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the backoff when retryAfter is shorter', async () => {
+    const { scheduler, settle, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a']);
+    await settle('a', { error: new TransientError(10) });
+    expect(eventsOf('retry')).toMatchObject([{ delayMs: 1000 }]);
+  });
+
+  it('opens the circuit after the threshold of consecutive failures', async () => {
+    const { scheduler, settle, eventsOf } = setup({ concurrency: 3, breakerThreshold: 2 });
+    scheduler.enqueue(['a', 'b', 'c']);
+    await settle('a', { error: new TransientError() });
+    await settle('b', { error: new TransientError() });
+
+    expect(eventsOf('breakerOpen')).toMatchObject([{ job: 'b' }]);
+    expect(scheduler.getSnapshot().breaker).toBe('open');
+    await settle('c', { result: 'c-done' });
+    // Success of a job started before the circuit opened closes it again
+    expect(scheduler.getSnapshot().breaker).toBe('closed');
+  });
+
+  it('stays open until the reset delay, then lets a single probe through', async () => {
+    const { scheduler, run, settle } = setup({ concurrency: 3, breakerThreshold: 1 });
+    scheduler.enqueue(['a']);
+    await settle('a', { error: new TransientError() });
+    scheduler.enqueue(['b', 'c']);
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'open', queue: ['a', 'b', 'c'], running: [] });
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'half-open', running: ['a'], queue: ['b', 'c'] });
+
+    await settle('a', { result: 'a-done' });
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'closed', consecutiveFailures: 0, running: ['b', 'c'] });
+  });
+
+  it('reopens the circuit when the half-open probe fails', async () => {
+    const { scheduler, settle } = setup({ concurrency: 2, breakerThreshold: 1 });
+    scheduler.enqueue(['a']);
+    await settle('a', { error: new TransientError() });
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'half-open', running: ['a'] });
+
+    await settle('a', { error: new TransientError() });
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'open', running: [] });
+  });
+
+  it('cancels queued jobs at once and aborts running ones without counting a failure', async () => {
+    const { scheduler, run, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a', 'b']);
+    const signal = run.mock.calls[0][1];
+
+    scheduler.cancel(job => job === 'b');
+    expect(eventsOf('cancel')).toMatchObject([{ job: 'b' }]);
+    expect(scheduler.getSnapshot().queue).toEqual([]);
+
+    scheduler.cancel(job => job === 'a');
+    expect(signal.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(eventsOf('cancel')).toMatchObject([{ job: 'b' }, { job: 'a' }]);
+    expect(eventsOf('failure')).toEqual([]);
+    expect(scheduler.getSnapshot()).toMatchObject({ running: [], consecutiveFailures: 0, breaker: 'closed' });
+  });
+
+  it('reports a cancelled job as cancelled even when its run resolves anyway', async () => {
+    const { scheduler, settle, eventsOf } = setup({ concurrency: 1 }, { ignoreAbort: true });
+    scheduler.enqueue(['a']);
+    scheduler.cancel(job => job === 'a');
+    await settle('a', { result: 'a-done' });
+
+    expect(eventsOf('success')).toEqual([]);
+    expect(eventsOf('cancel')).toMatchObject([{ job: 'a' }]);
+  });
+
+  it('reset drops aborted jobs from running right away and starts the new queue', async () => {
+    const { scheduler, run, settle, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a']);
+    const signal = run.mock.calls[0][1];
+
+    scheduler.reset(['x', 'y']);
+    expect(signal.aborted).toBe(true);
+    expect(scheduler.getSnapshot()).toMatchObject({ running: ['x'], queue: ['y'] });
+
+    // The abandoned run settles later without reporting anything
+    await vi.advanceTimersByTimeAsync(0);
+    expect(eventsOf('cancel')).toEqual([]);
+    await settle('x', { result: 'x-done' });
+    expect(eventsOf('success')).toMatchObject([{ job: 'x' }]);
+    expect(scheduler.getSnapshot().running).toEqual(['y']);
+  });
+
+  it('reset keeps a job that is queued again when its old run settles', async () => {
+    const { scheduler, run, settle, eventsOf } = setup({ concurrency: 1 });
+    scheduler.enqueue(['a']);
+    scheduler.reset(['a']);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getSnapshot().running).toEqual(['a']);
+
+    await settle('a', { result: 'a-done' });
+    expect(eventsOf('success')).toMatchObject([{ job: 'a' }]);
+  });
+
+  it('reset clears the breaker, backoff and pause', async () => {
+    const { scheduler, settle } = setup({ concurrency: 1, breakerThreshold: 1 });
+    scheduler.enqueue(['a']);
+    await settle('a', { error: new TransientError() });
+    scheduler.pause();
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'open', paused: true });
+
+    scheduler.reset(['b']);
+    expect(scheduler.getSnapshot()).toMatchObject({ breaker: 'closed', paused: false, consecutiveFailures: 0, running: ['b'] });
+  });
+});
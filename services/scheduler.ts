@@ -0,0 +1,322 @@
+// Framework-independent generation queue: rate limiting, concurrency, backoff and a circuit breaker.
+// React (or anything else) drives it through enqueue/pause/resume and follows along via subscribe().
+
+export interface SchedulerConfig {
+  concurrency: number; // Requests allowed in flight at once
+  requestsPerMinute: number; // Token bucket refill rate
+  burst: number; // Token bucket capacity: requests that may go out back to back
+  baseBackoffMs: number; // Delay after the first transient failure, doubled for each one after
+  maxBackoffMs: number;
+  jitter: number; // 0-1, fraction of the backoff that is randomized so retries do not line up
+  breakerThreshold: number; // Consecutive transient failures that open the circuit
+  breakerResetMs: number; // Open circuit turns half-open after this long; 0 waits for resume()
+}
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface SchedulerSnapshot<T> {
+  queue: T[];
+  running: T[];
+  paused: boolean;
+  breaker: BreakerState;
+  consecutiveFailures: number;
+  waitingUntil: number; // When the next job may start; 0 when nothing is waiting on time
+  waitReason: 'backoff' | 'rateLimit' | null;
+}
+
+export type SchedulerEvent<T, R> =
+  | { type: 'change'; snapshot: SchedulerSnapshot<T> }
+  | { type: 'start'; job: T }
+  | { type: 'success'; job: T; result: R }
+  | { type: 'retry'; job: T; error: unknown; delayMs: number }
+  | { type: 'breakerOpen'; job: T; error: unknown }
+  | { type: 'halt'; job: T; error: unknown }
+  | { type: 'cancel'; job: T }
+  | { type: 'failure'; job: T; error: unknown };
+
+export interface SchedulerOptions<T, R> {
+  config: SchedulerConfig;
+  run: (job: T, signal: AbortSignal) => Promise<R>;
+  isRetryable: (error: unknown) => boolean;
+  shouldHalt?: (error: unknown) => boolean; // Errors that pause the queue at once, e.g. a rejected API key
+  retryAfter?: (error: unknown) => number | undefined; // Server-requested delay, wins when longer than the backoff
+  random?: () => number; // Injected so backoff jitter is deterministic under test
+}
+
+export interface Scheduler<T, R> {
+  enqueue: (jobs: T[], options?: { front?: boolean }) => void;
+  remove: (predicate: (job: T) => boolean) => void;
+  cancel: (predicate: (job: T) => boolean) => void;
+  reorder: (order: T[]) => void;
+  reset: (jobs?: T[], options?: { paused?: boolean }) => void;
+  pause: () => void;
+  resume: () => void;
+  configure: (config: SchedulerConfig) => void;
+  getSnapshot: () => SchedulerSnapshot<T>;
+  subscribe: (listener: (event: SchedulerEvent<T, R>) => void) => () => void;
+  dispose: () => void;
+}
+
+export interface TokenBucket {
+  take: (now: number) => boolean;
+  nextAvailableAt: (now: number) => number;
+  reconfigure: (capacity: number, perMinute: number) => void;
+}
+
+export function createTokenBucket(capacity: number, perMinute: number, now = Date.now()): TokenBucket {
+  let tokens = capacity;
+  let refillPerMs = perMinute / 60000;
+  let updatedAt = now;
+
+  const refill = (at: number) => {
+    tokens = Math.min(capacity, tokens + (at - updatedAt) * refillPerMs);
+    updatedAt = at;
+  };
+
+  return {
+    take: (at) => {
+      refill(at);
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+    nextAvailableAt: (at) => {
+      refill(at);
+      return tokens >= 1 ? at : at + Math.ceil((1 - tokens) / refillPerMs);
+    },
+    reconfigure: (nextCapacity, nextPerMinute) => {
+      refill(Date.now());
+      capacity = nextCapacity;
+      refillPerMs = nextPerMinute / 60000;
+      tokens = Math.min(tokens, capacity);
+    }
+  };
+}
+
+export function backoffDelay(failures: number, config: SchedulerConfig, random: () => number = Math.random): number {
+  const exponential = Math.min(config.maxBackoffMs, config.baseBackoffMs * Math.pow(2, Math.max(0, failures - 1)));
+  const spread = exponential * config.jitter;
+  return Math.max(0, Math.round(exponential - spread + random() * spread * 2));
+}
+
+export function createScheduler<T, R>({
+  config: initialConfig,
+  run,
+  isRetryable,
+  shouldHalt = () => false,
+  retryAfter = () => undefined,
+  random = Math.random
+}: SchedulerOptions<T, R>): Scheduler<T, R> {
+  let config = initialConfig;
+  const bucket = createTokenBucket(config.burst, config.requestsPerMinute);
+  const listeners = new Set<(event: SchedulerEvent<T, R>) => void>();
+
+  let queue: T[] = [];
+  const running: T[] = [];
+  const controllers = new Map<T, AbortController>();
+  // Runs aborted by reset(): their outcome belongs to a queue that no longer exists
+  const discarded = new WeakSet<AbortController>();
+  let paused = false;
+  let breaker: BreakerState = 'closed';
+  let breakerOpenedAt = 0;
+  let consecutiveFailures = 0;
+  let cooldownUntil = 0;
+  let waitingUntil = 0;
+  let waitReason: SchedulerSnapshot<T>['waitReason'] = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  const getSnapshot = (): SchedulerSnapshot<T> => ({
+    queue: [...queue],
+    running: [...running],
+    paused,
+    breaker,
+    consecutiveFailures,
+    waitingUntil,
+    waitReason
+  });
+
+  const emit = (event: SchedulerEvent<T, R>) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const emitChange = () => emit({ type: 'change', snapshot: getSnapshot() });
+
+  const wakeAt = (at: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, Math.max(0, at - Date.now()));
+  };
+
+  const pump = () => {
+    if (disposed) return;
+    const now = Date.now();
+    waitingUntil = 0;
+    waitReason = null;
+
+    if (breaker === 'open' && config.breakerResetMs > 0 && now >= breakerOpenedAt + config.breakerResetMs) {
+      breaker = 'half-open';
+    }
+
+    if (!paused && breaker !== 'open') {
+      // A half-open circuit lets a single probe through
+      const limit = breaker === 'half-open' ? 1 : config.concurrency;
+      while (queue.length > 0 && running.length < limit) {
+        if (now < cooldownUntil) {
+          waitingUntil = cooldownUntil;
+          waitReason = 'backoff';
+          break;
+        }
+        if (!bucket.take(now)) {
+          waitingUntil = bucket.nextAvailableAt(now);
+          waitReason = 'rateLimit';
+          break;
+        }
+        start(queue.shift() as T);
+      }
+    }
+
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (waitingUntil > 0) {
+      wakeAt(waitingUntil);
+    } else if (breaker === 'open' && config.breakerResetMs > 0 && queue.length > 0) {
+      wakeAt(breakerOpenedAt + config.breakerResetMs);
+    }
+    emitChange();
+  };
+
+  const start = (job: T) => {
+    const controller = new AbortController();
+    running.push(job);
+    controllers.set(job, controller);
+    emit({ type: 'start', job });
+
+    run(job, controller.signal).then(
+      result => {
+        finish(job, controller);
+        if (discarded.has(controller)) return;
+        // A provider that ignores the signal may still resolve; the user cancelled, so the result is dropped
+        if (controller.signal.aborted) {
+          emit({ type: 'cancel', job });
+          return;
+        }
+        consecutiveFailures = 0;
+        breaker = 'closed';
+        emit({ type: 'success', job, result });
+      },
+      error => {
+        finish(job, controller);
+        if (discarded.has(controller)) return;
+        // Cancelled on purpose: not a failure, so it never counts toward the breaker
+        if (controller.signal.aborted) {
+          emit({ type: 'cancel', job });
+          return;
+        }
+        if (shouldHalt(error)) {
+          queue.unshift(job);
+          paused = true;
+          emit({ type: 'halt', job, error });
+          return;
+        }
+        if (!isRetryable(error)) {
+          emit({ type: 'failure', job, error });
+          return;
+        }
+
+        consecutiveFailures += 1;
+        queue.unshift(job);
+        if (breaker === 'half-open' || consecutiveFailures >= config.breakerThreshold) {
+          breaker = 'open';
+          breakerOpenedAt = Date.now();
+          emit({ type: 'breakerOpen', job, error });
+        } else {
+          const delayMs = Math.max(backoffDelay(consecutiveFailures, config, random), retryAfter(error) || 0);
+          cooldownUntil = Date.now() + delayMs;
+          emit({ type: 'retry', job, error, delayMs });
+        }
+      }
+    ).finally(pump);
+  };
+
+  const finish = (job: T, controller: AbortController) => {
+    // Already dropped by reset(); the same job may be running again in the new queue
+    if (controllers.get(job) !== controller) return;
+    running.splice(running.indexOf(job), 1);
+    controllers.delete(job);
+  };
+
+  return {
+    enqueue: (jobs, options) => {
+      queue = options?.front ? [...jobs, ...queue] : [...queue, ...jobs];
+      pump();
+    },
+    remove: (predicate) => {
+      queue = queue.filter(job => !predicate(job));
+      pump();
+    },
+    // Queued matches are dropped, running ones aborted; both report a 'cancel' event
+    cancel: (predicate) => {
+      const cancelled = queue.filter(predicate);
+      queue = queue.filter(job => !predicate(job));
+      cancelled.forEach(job => emit({ type: 'cancel', job }));
+      running.filter(predicate).forEach(job => controllers.get(job)?.abort());
+      pump();
+    },
+    // Jobs missing from `order` keep their relative order at the end, so a stale order cannot lose work
+    reorder: (order) => {
+      const ordered = order.filter(job => queue.includes(job));
+      queue = [...ordered, ...queue.filter(job => !ordered.includes(job))];
+      pump();
+    },
+    // Starts over with a new queue, e.g. when another session is opened. In-flight jobs are aborted and
+    // dropped at once, so they neither hold concurrency slots nor report back once they settle
+    reset: (jobs = [], options) => {
+      controllers.forEach(controller => {
+        discarded.add(controller);
+        controller.abort();
+      });
+      controllers.clear();
+      running.splice(0);
+      queue = [...jobs];
+      paused = !!options?.paused;
+      breaker = 'closed';
+      consecutiveFailures = 0;
+      cooldownUntil = 0;
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      pump();
+    },
+    // Resuming by hand also closes the circuit and forgets the backoff
+    resume: () => {
+      paused = false;
+      breaker = 'closed';
+      consecutiveFailures = 0;
+      cooldownUntil = 0;
+      pump();
+    },
+    configure: (next) => {
+      config = next;
+      bucket.reconfigure(next.burst, next.requestsPerMinute);
+      pump();
+    },
+    getSnapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+      listeners.clear();
+    }
+  };
+}
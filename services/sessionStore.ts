@@ -0,0 +1,266 @@
+import { AlbumLayout, AspectRatio, GeneratedImage, HistoryEntry, ImageVariant, OutputSettings, PhotoCrop, QueueJob, SubjectProfile } from '../types';
+import { CropSettings } from './imageCrop';
+import { blobToDataUrl, dataUrlToBlob } from './imageUtils';
+
+const DB_NAME = 'ai-photo-studio';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const IMAGE_STORE = 'images';
+
+const SOURCE_IMAGE_KEY = 'source';
+const referenceImageKey = (index: number) => `reference-${index}`;
+// Uncropped photo behind the cropped one at the same position (0 = primary)
+const originalImageKey = (index: number) => `original-${index}`;
+const styleImageKey = (styleId: number) => `style-${styleId}`;
+const variantImageKey = (styleId: number, index: number) => `style-${styleId}-v${index}`;
+const historyImageKey = (styleId: number, entryId: string) => `style-${styleId}-h-${entryId}`;
+
+// Everything needed to put the studio back exactly where it was
+export interface SessionData {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  subject: SubjectProfile;
+  uploadedImage: string | null;
+  referenceImages: string[];
+  photoCrops: (PhotoCrop | null)[];
+  results: Record<number, GeneratedImage>;
+  queue: QueueJob[];
+  running: QueueJob[]; // In flight when saved, kept whole so edits and replays resume as what they were
+  output: OutputSettings;
+  styleAspectOverrides: Record<number, AspectRatio>;
+  variantCount: number;
+  selectedStyles: number[];
+  isPaused: boolean;
+  album: AlbumLayout;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  completedCount: number;
+  queuedCount: number;
+}
+
+// Image data lives in its own store as Blobs; the session record only keeps statuses
+// A variant whose image is also a history entry points at it instead of storing the image twice
+type StoredVariant = Omit<ImageVariant, 'imageUrl'> & { historyId?: string };
+
+type StoredResult = Omit<GeneratedImage, 'imageUrl' | 'variants' | 'history'> & {
+  variants?: StoredVariant[];
+  history?: Omit<HistoryEntry, 'imageUrl'>[];
+};
+
+type StoredSession = Omit<SessionData, 'uploadedImage' | 'referenceImages' | 'photoCrops' | 'results'> & {
+  results: Record<number, StoredResult>;
+  photoCrops: (CropSettings | null)[]; // The uncropped photos are in the image store
+  referenceCount: number;
+};
+
+interface StoredImage {
+  sessionId: string;
+  key: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: ['sessionId', 'key'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const sessionImageRange = (sessionId: string) => IDBKeyRange.bound([sessionId, ''], [sessionId, '\uffff']);
+
+// Tracks which data URL is already on disk for each image key, so autosaves only write what changed
+const persistedImages = new Map<string, Map<string, string>>();
+
+const getPersisted = (sessionId: string) => {
+  let images = persistedImages.get(sessionId);
+  if (!images) {
+    images = new Map();
+    persistedImages.set(sessionId, images);
+  }
+  return images;
+};
+
+const toSummary = (session: StoredSession): SessionSummary => {
+  const results = Object.values(session.results);
+  return {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    completedCount: results.filter(r => r.status === 'completed').length,
+    queuedCount: session.queue.length,
+  };
+};
+
+export function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise(tx.objectStore(SESSION_STORE).getAll() as IDBRequest<StoredSession[]>);
+  return sessions.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveSession(session: SessionData): Promise<void> {
+  const db = await openDb();
+
+  // Collect the images that should exist for this session
+  const wanted = new Map<string, string>();
+  if (session.uploadedImage) wanted.set(SOURCE_IMAGE_KEY, session.uploadedImage);
+  session.referenceImages.forEach((url, index) => wanted.set(referenceImageKey(index), url));
+  session.photoCrops.forEach((crop, index) => {
+    if (crop) wanted.set(originalImageKey(index), crop.original);
+  });
+  const results: StoredSession['results'] = {};
+  Object.values(session.results).forEach(({ imageUrl, variants, history, ...rest }) => {
+    const stored: StoredResult = { ...rest };
+    if (history) {
+      stored.history = history.map(({ imageUrl: entryUrl, ...entry }) => {
+        if (entryUrl) wanted.set(historyImageKey(rest.styleId, entry.id), entryUrl);
+        return entry;
+      });
+    }
+    if (variants) {
+      // The hero is one of the variants, so it is not stored a second time
+      stored.variants = variants.map(({ imageUrl: variantUrl, ...variant }, index) => {
+        const entry = variantUrl ? history?.find(h => h.imageUrl === variantUrl) : undefined;
+        if (entry) return { ...variant, historyId: entry.id };
+        if (variantUrl) wanted.set(variantImageKey(rest.styleId, index), variantUrl);
+        return variant;
+      });
+    } else if (imageUrl) {
+      wanted.set(styleImageKey(rest.styleId), imageUrl);
+    }
+    results[rest.styleId] = stored;
+  });
+
+  const persisted = getPersisted(session.id);
+  const tx = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+
+  wanted.forEach((url, key) => {
+    if (persisted.get(key) === url) return;
+    const record: StoredImage = { sessionId: session.id, key, blob: dataUrlToBlob(url) };
+    imageStore.put(record);
+  });
+  persisted.forEach((_url, key) => {
+    if (!wanted.has(key)) imageStore.delete([session.id, key]);
+  });
+
+  const { uploadedImage: _uploadedImage, referenceImages, photoCrops, ...meta } = session;
+  const record: StoredSession = {
+    ...meta,
+    results,
+    referenceCount: referenceImages.length,
+    photoCrops: photoCrops.map(crop => crop ? crop.settings : null)
+  };
+  tx.objectStore(SESSION_STORE).put(record);
+
+  await transactionDone(tx);
+  persistedImages.set(session.id, wanted);
+}
+
+export async function loadSession(id: string): Promise<SessionData | null> {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, IMAGE_STORE], 'readonly');
+  const stored = await requestToPromise(tx.objectStore(SESSION_STORE).get(id) as IDBRequest<StoredSession | undefined>);
+  if (!stored) return null;
+  const images = await requestToPromise(
+    tx.objectStore(IMAGE_STORE).getAll(sessionImageRange(id)) as IDBRequest<StoredImage[]>
+  );
+
+  const urls = new Map<string, string>();
+  await Promise.all(images.map(async image => {
+    urls.set(image.key, await blobToDataUrl(image.blob));
+  }));
+  persistedImages.set(id, new Map(urls));
+
+  const results: Record<number, GeneratedImage> = {};
+  Object.values(stored.results).forEach(({ variants: storedVariants, history: storedHistory, ...result }) => {
+    const history = storedHistory?.map(entry => ({
+      ...entry,
+      imageUrl: urls.get(historyImageKey(result.styleId, entry.id)) || null
+    }));
+    if (storedVariants) {
+      const variants = storedVariants.map(({ historyId, ...variant }, index) => ({
+        ...variant,
+        imageUrl: urls.get(historyId ? historyImageKey(result.styleId, historyId) : variantImageKey(result.styleId, index)) || null
+      }));
+      const hero = result.heroIndex === undefined ? undefined : variants[result.heroIndex];
+      results[result.styleId] = { ...result, history, variants, imageUrl: hero?.imageUrl || null };
+    } else {
+      results[result.styleId] = { ...result, history, imageUrl: urls.get(styleImageKey(result.styleId)) || null };
+    }
+  });
+
+  const { referenceCount, photoCrops, ...rest } = stored;
+  return {
+    ...rest,
+    uploadedImage: urls.get(SOURCE_IMAGE_KEY) || null,
+    photoCrops: photoCrops.map((settings, index) => {
+      const original = urls.get(originalImageKey(index));
+      return settings && original ? { original, settings } : null;
+    }),
+    referenceImages: Array.from({ length: referenceCount }, (_, index) => urls.get(referenceImageKey(index)))
+      .filter((url): url is string => !!url),
+    results,
+  };
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(SESSION_STORE);
+  const stored = await requestToPromise(store.get(id) as IDBRequest<StoredSession | undefined>);
+  if (stored) store.put({ ...stored, name });
+  await transactionDone(tx);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(id);
+  tx.objectStore(IMAGE_STORE).delete(sessionImageRange(id));
+  await transactionDone(tx);
+  persistedImages.delete(id);
+}
@@ -0,0 +1,32 @@
+import { AlbumItem } from '../types';
+import { BrandingSettings, applyBranding } from './branding';
+import { ProvenanceInfo, withProvenance } from './provenance';
+import { extensionForMimeType, safeFileName } from './imageUtils';
+
+export type ShareOutcome = 'shared' | 'cancelled' | 'unsupported';
+
+// An album image as it leaves the app: watermarked when branding is on, with the disclosure metadata written in
+export async function exportAlbumImage(item: AlbumItem, branding: BrandingSettings | null, info: ProvenanceInfo): Promise<File> {
+  const url = await applyBranding(item.url, branding);
+  const blob = await withProvenance(url, info);
+  return new File([blob], `${safeFileName(item.name, 'image')}.${extensionForMimeType(blob.type)}`, { type: blob.type });
+}
+
+// Web Share with files is missing on most desktop browsers, and some share targets reject certain types
+export function canShareFiles(files: File[]): boolean {
+  return typeof navigator.share === 'function'
+    && typeof navigator.canShare === 'function'
+    && navigator.canShare({ files });
+}
+
+// Must run from a user gesture; errors other than the user dismissing the sheet are rethrown
+export async function shareFiles(files: File[], title: string, text: string): Promise<ShareOutcome> {
+  if (!canShareFiles(files)) return 'unsupported';
+  try {
+    await navigator.share({ files, title, text });
+    return 'shared';
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+    throw error;
+  }
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PhotoStyle } from '../types';
+import {
+  STYLE_PACK_FORMAT, StylePack, applyStylePackImport, exportStylePack, findStylePackConflicts, validateStylePack
+} from './stylePacks';
+
+const BUILT_IN: PhotoStyle = { id: 1, name: '法式', category: 'Chic', promptSuffix: 'French chic' };
+
+const CUSTOM: PhotoStyle = {
+  id: 100000,
+  name: 'Old Noir',
+  category: 'Film',
+  promptSuffix: 'old noir',
+  isCustom: true,
+  stableId: 'noir'
+};
+
+const validPack = () => ({
+  format: STYLE_PACK_FORMAT,
+  version: 1,
+  pack: { id: 'film-pack', name: 'Film', author: { name: 'Ana', url: 'https://example.com' } },
+  styles: [
+    { id: 'noir', name: { en: 'Film Noir' }, category: 'Film', prompt: ' black and white ', tags: ['bw'] },
+    { id: 'sepia', name: { en: 'Sepia', 'zh-CN': '怀旧' }, category: 'Film', prompt: 'sepia tones' }
+  ]
+});
+
+const parse = (input: unknown): StylePack => {
+  const result = validateStylePack(input);
+  if ('errors' in result) throw new Error(JSON.stringify(result.errors));
+  return result.pack;
+};
+
+const errorPaths = (input: unknown) => {
+  const result = validateStylePack(input);
+  return 'errors' in result ? result.errors.map(error => error.path) : [];
+};
+
+// nextCustomStyleId remembers the last issued ID in localStorage, which the node environment lacks
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('validateStylePack', () => {
+  it('accepts a valid pack', () => {
+    expect(validateStylePack(validPack())).toEqual({ ok: true, pack: validPack() });
+  });
+
+  it('rebuilds the pack without fields it does not know', () => {
+    const input = validPack();
+    const pack = parse({
+      ...input,
+      extra: true,
+      pack: { ...input.pack, secret: 1, author: { ...input.pack.author, email: 'a@b.c' } },
+      styles: [{ ...input.styles[0], isCustom: false, id: 'noir', promptOverrides: { style: 'x' } }]
+    });
+
+    expect(pack).toEqual({ ...input, styles: [input.styles[0]] });
+  });
+
+  it('rejects anything but an object', () => {
+    expect(errorPaths(null)).toEqual(['(root)']);
+    expect(errorPaths([])).toEqual(['(root)']);
+  });
+
+  it('reports every problem in one pass', () => {
+    expect(errorPaths({ format: 'zip', version: 1.5, pack: { id: '', author: {} }, styles: [] })).toEqual([
+      'format', 'version', 'pack.id', 'pack.name', 'pack.author.name', 'styles'
+    ]);
+  });
+
+  it('rejects a newer version', () => {
+    const result = validateStylePack({ ...validPack(), version: 2 });
+
+    expect(result).toEqual({ ok: false, errors: [{ path: 'version', message: expect.stringMatching(/newer/) }] });
+  });
+
+  it('checks each style field', () => {
+    const input = validPack();
+    expect(errorPaths({
+      ...input,
+      pack: { ...input.pack, author: { name: 'Ana', url: 42 } },
+      styles: [
+        'noir',
+        { id: '-bad id', name: {}, category: ' ', prompt: 'x'.repeat(2001), tags: 'bw' },
+        { id: 'sepia', name: { en: '' }, category: 'Film', prompt: 'ok', tags: ['', 'warm'] },
+        { id: 'sepia', name: { en: 'Again' }, category: 'Film', prompt: 'ok' }
+      ]
+    })).toEqual([
+      'pack.author.url',
+      'styles[0]',
+      'styles[1].id', 'styles[1].name', 'styles[1].category', 'styles[1].prompt', 'styles[1].tags',
+      'styles[2].name.en', 'styles[2].tags[0]',
+      'styles[3].id'
+    ]);
+  });
+});
+
+describe('exportStylePack', () => {
+  it('writes a pack that validates and keeps stable IDs', () => {
+    const pack = exportStylePack([BUILT_IN, { ...CUSTOM, names: { en: 'Noir' }, tags: ['bw'] }], { name: 'Mine', authorName: 'Ana' });
+
+    expect(parse(JSON.parse(JSON.stringify(pack)))).toEqual(pack);
+    expect(pack.styles.map(style => style.id)).toEqual(['builtin-1', 'noir']);
+    expect(pack.styles[0].name).toEqual({ 'zh-CN': '法式' });
+  });
+});
+
+describe('findStylePackConflicts', () => {
+  it('flags custom styles as replaceable and built-in ones as not', () => {
+    const input = validPack();
+    const pack = parse({ ...input, styles: [...input.styles, { ...input.styles[1], id: 'builtin-1' }] });
+
+    expect(findStylePackConflicts(pack, [CUSTOM], [BUILT_IN])).toEqual([
+      { stableId: 'noir', incomingName: 'Film Noir', existing: CUSTOM, canReplace: true },
+      { stableId: 'builtin-1', incomingName: '怀旧', existing: BUILT_IN, canReplace: false }
+    ]);
+  });
+});
+
+describe('applyStylePackImport', () => {
+  const pack = parse(validPack());
+  const conflicts = findStylePackConflicts(pack, [CUSTOM], [BUILT_IN]);
+
+  it('adds new styles and skips conflicts by default', () => {
+    const next = applyStylePackImport(pack, [CUSTOM], conflicts, {});
+
+    expect(next).toHaveLength(2);
+    expect(next[0]).toBe(CUSTOM);
+    expect(next[1]).toMatchObject({
+      id: 100001,
+      name: '怀旧',
+      names: { en: 'Sepia', 'zh-CN': '怀旧' },
+      stableId: 'sepia',
+      packId: 'film-pack',
+      isCustom: true
+    });
+  });
+
+  it('replaces a custom style in place, keeping its numeric ID', () => {
+    const next = applyStylePackImport(pack, [CUSTOM], conflicts, { noir: 'replace' });
+
+    expect(next[0]).toMatchObject({ id: CUSTOM.id, name: 'Film Noir', stableId: 'noir', promptSuffix: 'black and white', tags: ['bw'] });
+    expect(next).toHaveLength(2);
+  });
+
+  it('keeps both under a fresh stable ID', () => {
+    const next = applyStylePackImport(pack, [CUSTOM], conflicts, { noir: 'keepBoth' });
+    const copy = next.find(style => style.name === 'Film Noir');
+
+    expect(next).toHaveLength(3);
+    expect(next[0]).toBe(CUSTOM);
+    expect(copy?.stableId).not.toBe('noir');
+    expect(new Set(next.map(style => style.id)).size).toBe(3);
+  });
+
+  it('never replaces a built-in style', () => {
+    const input = validPack();
+    const builtInPack = parse({ ...input, styles: [{ ...input.styles[0], id: 'builtin-1' }] });
+    const builtInConflicts = findStylePackConflicts(builtInPack, [], [BUILT_IN]);
+
+    expect(applyStylePackImport(builtInPack, [], builtInConflicts, { 'builtin-1': 'replace' })).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+import { PhotoStyle } from '../types';
+import { nextCustomStyleId } from './customStyles';
+
+export const STYLE_PACK_FORMAT = 'ai-photo-studio.style-pack';
+export const STYLE_PACK_VERSION = 1;
+
+const STABLE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const MAX_PROMPT_LENGTH = 2000;
+
+// On-disk format (version 1)
+export interface StylePackStyle {
+  id: string;
+  name: Record<string, string>; // Locale -> display name, at least one entry
+  category: string;
+  prompt: string;
+  tags?: string[];
+}
+
+export interface StylePack {
+  format: typeof STYLE_PACK_FORMAT;
+  version: number;
+  pack: {
+    id: string;
+    name: string;
+    description?: string;
+    author: { name: string; url?: string };
+    createdAt?: string;
+  };
+  styles: StylePackStyle[];
+}
+
+export interface StylePackError {
+  path: string;
+  message: string;
+}
+
+export type StylePackValidation =
+  | { ok: true; pack: StylePack }
+  | { ok: false; errors: StylePackError[] };
+
+export type ConflictResolution = 'skip' | 'replace' | 'keepBoth';
+
+export interface StylePackConflict {
+  stableId: string;
+  incomingName: string;
+  existing: PhotoStyle;
+  canReplace: boolean; // Built-in styles can never be overwritten
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+export function createStableStyleId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function builtInStableId(style: PhotoStyle): string {
+  return style.stableId || `builtin-${style.id}`;
+}
+
+// Collects every problem in one pass so the user can fix a pack without repeated round-trips.
+// The pack is rebuilt from the checked fields, so nothing unvalidated reaches the studio
+export function validateStylePack(input: unknown): StylePackValidation {
+  const errors: StylePackError[] = [];
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  if (!isObject(input)) {
+    return { ok: false, errors: [{ path: '(root)', message: 'must be a JSON object' }] };
+  }
+
+  if (input.format !== STYLE_PACK_FORMAT) {
+    fail('format', `must be "${STYLE_PACK_FORMAT}"`);
+  }
+  const version = input.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    fail('version', 'must be a positive integer');
+  } else if (version > STYLE_PACK_VERSION) {
+    fail('version', `version ${version} is newer than this app supports (${STYLE_PACK_VERSION})`);
+  }
+
+  const meta = parsePackMeta(input.pack, fail);
+  const styles = parsePackStyles(input.styles, fail);
+
+  return errors.length > 0 || !meta || typeof version !== 'number'
+    ? { ok: false, errors }
+    : { ok: true, pack: { format: STYLE_PACK_FORMAT, version, pack: meta, styles } };
+}
+
+type Fail = (path: string, message: string) => void;
+
+function parsePackMeta(value: unknown, fail: Fail): StylePack['pack'] | null {
+  if (!isObject(value)) {
+    fail('pack', 'must be an object with id, name and author');
+    return null;
+  }
+  const { id, name, description, author, createdAt } = value;
+  if (!isNonEmptyString(id)) fail('pack.id', 'must be a non-empty string');
+  if (!isNonEmptyString(name)) fail('pack.name', 'must be a non-empty string');
+  if (description !== undefined && typeof description !== 'string') {
+    fail('pack.description', 'must be a string');
+  }
+  let authorName: string | null = null;
+  let authorUrl: string | undefined;
+  if (!isObject(author)) {
+    fail('pack.author', 'must be an object with a name');
+  } else {
+    if (!isNonEmptyString(author.name)) fail('pack.author.name', 'must be a non-empty string');
+    else authorName = author.name;
+    if (typeof author.url === 'string') authorUrl = author.url;
+    else if (author.url !== undefined) fail('pack.author.url', 'must be a string');
+  }
+  if (!isNonEmptyString(id) || !isNonEmptyString(name) || authorName === null) return null;
+  return {
+    id,
+    name,
+    ...(typeof description === 'string' ? { description } : {}),
+    author: { name: authorName, ...(authorUrl !== undefined ? { url: authorUrl } : {}) },
+    ...(typeof createdAt === 'string' ? { createdAt } : {}),
+  };
+}
+
+function parsePackStyles(value: unknown, fail: Fail): StylePackStyle[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    fail('styles', 'must be a non-empty array');
+    return [];
+  }
+  const seen = new Set<string>();
+  const styles: StylePackStyle[] = [];
+  value.forEach((style: unknown, index: number) => {
+    const at = `styles[${index}]`;
+    if (!isObject(style)) {
+      fail(at, 'must be an object');
+      return;
+    }
+    let valid = true;
+    const check = (ok: boolean, path: string, message: string) => {
+      if (ok) return;
+      fail(path, message);
+      valid = false;
+    };
+
+    const { id, name, category, prompt, tags } = style;
+    if (!isNonEmptyString(id) || !STABLE_ID_PATTERN.test(id)) {
+      check(false, `${at}.id`, 'must be 1-64 letters, digits, ".", "_" or "-", starting with a letter or digit');
+    } else {
+      check(!seen.has(id), `${at}.id`, `duplicate id "${id}" within this pack`);
+      seen.add(id);
+    }
+
+    const names: Record<string, string> = {};
+    if (!isObject(name) || Object.keys(name).length === 0) {
+      check(false, `${at}.name`, 'must map at least one locale to a name, e.g. { "en": "Film Noir" }');
+    } else {
+      Object.entries(name).forEach(([locale, localized]) => {
+        if (isNonEmptyString(localized)) names[locale] = localized;
+        else check(false, `${at}.name.${locale}`, 'must be a non-empty string');
+      });
+    }
+
+    check(isNonEmptyString(category), `${at}.category`, 'must be a non-empty string');
+
+    if (!isNonEmptyString(prompt)) {
+      check(false, `${at}.prompt`, 'must be a non-empty string');
+    } else {
+      check(prompt.length <= MAX_PROMPT_LENGTH, `${at}.prompt`, `must be at most ${MAX_PROMPT_LENGTH} characters`);
+    }
+
+    const tagList: string[] = [];
+    if (tags !== undefined) {
+      if (!Array.isArray(tags)) {
+        check(false, `${at}.tags`, 'must be an array of strings');
+      } else {
+        tags.forEach((tag: unknown, tagIndex: number) => {
+          if (isNonEmptyString(tag)) tagList.push(tag);
+          else check(false, `${at}.tags[${tagIndex}]`, 'must be a non-empty string');
+        });
+      }
+    }
+
+    if (valid && isNonEmptyString(id) && isNonEmptyString(category) && isNonEmptyString(prompt)) {
+      styles.push({ id, name: names, category, prompt, ...(tags !== undefined ? { tags: tagList } : {}) });
+    }
+  });
+  return styles;
+}
+
+// Picks a display name for the studio's catalog; the i18n layer can choose other locales from `names`
+const primaryName = (names: Record<string, string>) =>
+  names['zh-CN'] || names.en || Object.values(names)[0];
+
+export function exportStylePack(
+  styles: PhotoStyle[],
+  meta: { id?: string; name: string; description?: string; authorName: string }
+): StylePack {
+  return {
+    format: STYLE_PACK_FORMAT,
+    version: STYLE_PACK_VERSION,
+    pack: {
+      id: meta.id || createStableStyleId().replace(/^custom-/, 'pack-'),
+      name: meta.name,
+      ...(meta.description ? { description: meta.description } : {}),
+      author: { name: meta.authorName },
+      createdAt: new Date().toISOString(),
+    },
+    styles: styles.map(style => ({
+      id: style.stableId || builtInStableId(style),
+      name: style.names && Object.keys(style.names).length > 0 ? style.names : { 'zh-CN': style.name },
+      category: style.category,
+      prompt: style.promptSuffix,
+      ...(style.tags && style.tags.length > 0 ? { tags: style.tags } : {}),
+    })),
+  };
+}
+
+export function findStylePackConflicts(
+  pack: StylePack,
+  customStyles: PhotoStyle[],
+  builtInStyles: PhotoStyle[]
+): StylePackConflict[] {
+  return pack.styles.flatMap((incoming): StylePackConflict[] => {
+    const custom = customStyles.find(s => s.stableId === incoming.id);
+    if (custom) {
+      return [{ stableId: incoming.id, incomingName: primaryName(incoming.name), existing: custom, canReplace: true }];
+    }
+    const builtIn = builtInStyles.find(s => builtInStableId(s) === incoming.id);
+    if (builtIn) {
+      return [{ stableId: incoming.id, incomingName: primaryName(incoming.name), existing: builtIn, canReplace: false }];
+    }
+    return [];
+  });
+}
+
+// Returns the next list of custom styles after importing `pack` with the given per-ID conflict choices
+export function applyStylePackImport(
+  pack: StylePack,
+  customStyles: PhotoStyle[],
+  conflicts: StylePackConflict[],
+  resolutions: Record<string, ConflictResolution>
+): PhotoStyle[] {
+  const next = [...customStyles];
+
+  pack.styles.forEach(incoming => {
+    const base: Omit<PhotoStyle, 'id'> = {
+      name: primaryName(incoming.name),
+      names: incoming.name,
+      category: incoming.category.trim(),
+      promptSuffix: incoming.prompt.trim(),
+      tags: incoming.tags,
+      stableId: incoming.id,
+      packId: pack.pack.id,
+      isCustom: true,
+    };
+
+    const conflict = conflicts.find(c => c.stableId === incoming.id);
+    if (!conflict) {
+      next.push({ ...base, id: nextCustomStyleId(next) });
+      return;
+    }
+
+    const resolution = resolutions[incoming.id] || 'skip';
+    if (resolution === 'replace' && conflict.canReplace) {
+      const index = next.findIndex(s => s.id === conflict.existing.id);
+      if (index >= 0) next[index] = { ...base, id: conflict.existing.id };
+    } else if (resolution === 'keepBoth') {
+      next.push({ ...base, stableId: createStableStyleId(), id: nextCustomStyleId(next) });
+    }
+  });
+
+  return next;
+}
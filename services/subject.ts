@@ -0,0 +1,67 @@
+import { AgeGroup, Gender, SubjectProfile } from '../types';
+
+export const DEFAULT_SUBJECT: SubjectProfile = {
+  gender: 'unspecified',
+  ageGroup: 'adult',
+  keepFace: false,
+  keepGlasses: false,
+  keepHairstyle: false,
+  keepSkinTone: false
+};
+
+const GENDERS: Gender[] = ['female', 'male', 'nonbinary', 'unspecified'];
+const AGE_GROUPS: AgeGroup[] = ['child', 'adult', 'senior'];
+
+// Field by field from untrusted data (e.g. an imported album), so an unknown gender or age group never
+// reaches describeSubject(); invalid or missing fields keep the fallback's value
+export function parseSubjectProfile(value: Record<string, unknown>, fallback: SubjectProfile): SubjectProfile {
+  const flag = (key: 'keepFace' | 'keepGlasses' | 'keepHairstyle' | 'keepSkinTone') =>
+    typeof value[key] === 'boolean' ? value[key] : fallback[key];
+  return {
+    gender: GENDERS.find(gender => gender === value.gender) ?? fallback.gender,
+    ageGroup: AGE_GROUPS.find(ageGroup => ageGroup === value.ageGroup) ?? fallback.ageGroup,
+    keepFace: flag('keepFace'),
+    keepGlasses: flag('keepGlasses'),
+    keepHairstyle: flag('keepHairstyle'),
+    keepSkinTone: flag('keepSkinTone')
+  };
+}
+
+const SUBJECT_NOUNS: Record<SubjectProfile['ageGroup'], Record<Gender, string>> = {
+  child: { female: 'girl', male: 'boy', nonbinary: 'non-binary child', unspecified: 'child' },
+  adult: { female: 'woman', male: 'man', nonbinary: 'non-binary person', unspecified: 'person' },
+  senior: { female: 'senior woman', male: 'senior man', nonbinary: 'senior non-binary person', unspecified: 'senior person' }
+};
+
+export function describeSubject(subject: SubjectProfile): string {
+  return SUBJECT_NOUNS[subject.ageGroup][subject.gender];
+}
+
+// Face preservation clause; styles can replace it through a prompt override
+export function fidelityClause(subject: SubjectProfile): string {
+  return subject.keepFace
+    ? `STRICTLY preserve the original face. The facial features, structure, and identity of the ${describeSubject(subject)} in the input photo must remain UNCHANGED and IDENTICAL. Do not beautify, refine, or alter the face in any way.`
+    : 'Preserve the facial features and identity of the person in the reference image while applying the style.';
+}
+
+// One prompt requirement per remaining profile option
+export function traitInstructions(subject: SubjectProfile): string[] {
+  const noun = describeSubject(subject);
+  const instructions: string[] = [];
+
+  if (subject.ageGroup === 'child') {
+    instructions.push('Keep the styling, wardrobe and setting age-appropriate for a child, and keep the apparent age unchanged.');
+  } else {
+    instructions.push(`Keep the apparent age of the ${noun} unchanged; do not make them look younger or older.`);
+  }
+  if (subject.keepGlasses) {
+    instructions.push('Keep the glasses exactly as worn in the reference photo: same frame shape, color and size.');
+  }
+  if (subject.keepHairstyle) {
+    instructions.push('Keep the original hairstyle, hair length and hair color; do not restyle the hair to match the theme.');
+  }
+  if (subject.keepSkinTone) {
+    instructions.push('Keep the skin tone exactly as in the reference photo. Do not lighten, darken, smooth or recolor the skin, even if the style lighting or color grade would suggest it.');
+  }
+  return instructions;
+}
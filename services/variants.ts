@@ -0,0 +1,48 @@
+import { GeneratedImage, ImageVariant } from '../types';
+
+export const MAX_VARIANTS = 4;
+
+// The style as a whole reports its busiest candidate; cancelled (idle) ones only count when nothing else is left
+const STATUS_PRIORITY: GeneratedImage['status'][] = ['generating', 'pending', 'completed', 'failed', 'idle'];
+
+// Recomputes the style-level fields from its candidates. The hero stays put while it is still
+// a finished image, otherwise the first finished candidate takes over so the tile fills in early.
+export function withVariants(result: GeneratedImage, variants: ImageVariant[], heroIndex = result.heroIndex): GeneratedImage {
+  if (heroIndex === undefined || variants[heroIndex]?.status !== 'completed') {
+    const firstCompleted = variants.findIndex(v => v.status === 'completed');
+    heroIndex = firstCompleted === -1 ? undefined : firstCompleted;
+  }
+  const hero = heroIndex === undefined ? undefined : variants[heroIndex];
+  const status = STATUS_PRIORITY.find(s => variants.some(v => v.status === s)) || 'idle';
+  const lastError = hero ? undefined : [...variants].reverse().find(v => v.error);
+
+  return {
+    ...result,
+    variants,
+    heroIndex,
+    status,
+    imageUrl: hero?.imageUrl ?? null,
+    model: hero?.model,
+    aspectRatio: hero?.aspectRatio ?? result.aspectRatio,
+    imageSize: hero?.imageSize ?? result.imageSize,
+    error: lastError?.error,
+    errorKind: lastError?.errorKind
+  };
+}
+
+// Starts a fresh run of `count` queued candidates
+export function startVariants(result: GeneratedImage, count: number): GeneratedImage {
+  const variants = Array.from({ length: count }, (): ImageVariant => ({ imageUrl: null, status: 'pending' }));
+  return withVariants(result, variants, undefined);
+}
+
+export function updateVariant(result: GeneratedImage, index: number, patch: Partial<ImageVariant>): GeneratedImage {
+  const variants = [...(result.variants || [])];
+  variants[index] = { imageUrl: null, status: 'pending', ...variants[index], ...patch };
+  return withVariants(result, variants);
+}
+
+export function selectHero(result: GeneratedImage, index: number): GeneratedImage {
+  if (result.variants?.[index]?.status !== 'completed') return result;
+  return withVariants(result, result.variants, index);
+}
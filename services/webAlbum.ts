@@ -0,0 +1,161 @@
+import { AlbumItem, AlbumTheme } from '../types';
+import { ALBUM_THEME_PALETTES, paginate } from './album';
+import { PROVENANCE_SOFTWARE } from './provenance';
+
+export interface WebAlbumOptions {
+  title: string;
+  theme: AlbumTheme;
+  captions: boolean;
+}
+
+// Localized text is passed in so this module stays free of UI concerns
+export interface WebAlbumText {
+  lang: string;
+  subtitle: string;
+  cover: string;
+  previous: string;
+  next: string;
+  hint: string;
+  disclosure: string;
+  collection: (category: string) => string;
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLES = `
+*{box-sizing:border-box;margin:0}
+html,body{height:100%}
+body{background:var(--bg);color:var(--text);font-family:Inter,system-ui,-apple-system,sans-serif;display:flex;flex-direction:column}
+main{flex:1;min-height:0}
+.page{display:flex;align-items:center;justify-content:center;gap:3rem;padding:2rem;min-height:100%}
+.js .page{display:none;height:100%;min-height:0;overflow-y:auto}
+.js .page.active{display:flex}
+img{display:block;max-width:100%;object-fit:contain}
+figure{display:flex;align-items:center;gap:2.5rem}
+h1,h2{font-family:Georgia,'Times New Roman',serif;font-weight:400;line-height:1.15}
+h1{font-size:clamp(2rem,6vw,4rem)}
+h2{font-size:clamp(1.4rem,3vw,2.4rem)}
+p{line-height:1.6}
+.eyebrow{color:var(--accent);text-transform:uppercase;letter-spacing:.2em;font-size:.75rem;font-weight:600;margin-bottom:.75rem}
+.muted{color:var(--muted)}
+.cover img,.single img{max-height:calc(100vh - 9rem)}
+.cover .text{max-width:24rem}
+.cover .muted{margin-top:1rem}
+figcaption{max-width:20rem}
+figcaption p{margin-top:.75rem;font-size:.9rem}
+nav{display:flex;align-items:center;justify-content:center;gap:1.5rem;padding:.75rem;color:var(--muted);font-size:.85rem}
+nav button{background:none;border:1px solid currentColor;color:inherit;border-radius:999px;width:2.5rem;height:2.5rem;font-size:1.25rem;cursor:pointer}
+nav button:hover{color:var(--text)}
+.no-js-hidden{display:none}
+.js .no-js-hidden{display:flex}
+footer{text-align:center;font-size:.7rem;color:var(--muted);padding:0 1rem .75rem}
+.theme-polaroid figure,.theme-minimal figure{flex-direction:column;gap:1rem;text-align:center}
+.theme-polaroid .frame{background:#fff;padding:.75rem .75rem 0;box-shadow:0 20px 40px rgba(0,0,0,.5);transform:rotate(-1deg)}
+.theme-polaroid .page:nth-child(even) .frame{transform:rotate(1deg)}
+.theme-polaroid .frame h2{color:${ALBUM_THEME_PALETTES.polaroid.ink};font-style:italic;text-align:center;padding:.6rem 0 .8rem;font-size:1.5rem}
+.theme-polaroid img{max-height:calc(100vh - 14rem)}
+.theme-minimal h2{font-family:inherit;font-size:1.1rem;font-weight:500;letter-spacing:.05em}
+.theme-minimal img{max-height:calc(100vh - 13rem)}
+.theme-grid .spread{display:grid;grid-template-columns:repeat(2,minmax(0,1fr));gap:1.5rem;width:min(100%,64rem)}
+.theme-grid .spread figure{flex-direction:column;align-items:stretch;gap:.5rem}
+.theme-grid .spread img{width:100%;height:34vh;object-fit:cover}
+.theme-grid .spread h2{font-size:1.1rem}
+.theme-grid .spread p{margin-top:.25rem;font-size:.75rem}
+@media (max-width:720px){
+  .page,figure{flex-direction:column;gap:1.25rem}
+  .page{padding:1rem}
+  .cover img,.single img{max-height:55vh}
+  .theme-grid .page{align-items:flex-start}
+  .theme-grid .spread{grid-template-columns:1fr}
+  .theme-grid .spread img{height:40vh}
+}
+`;
+
+// Arrow keys, swipes and the nav buttons page through; the page number is kept in the URL hash for links
+const SCRIPT = `
+(function(){
+  document.body.classList.add('js');
+  var pages=[].slice.call(document.querySelectorAll('.page'));
+  var counter=document.getElementById('counter');
+  var current=0;
+  function show(index){
+    current=Math.max(0,Math.min(pages.length-1,index));
+    pages.forEach(function(page,i){page.classList.toggle('active',i===current);});
+    counter.textContent=(current+1)+' / '+pages.length;
+    history.replaceState(null,'','#'+(current+1));
+  }
+  document.getElementById('prev').onclick=function(){show(current-1);};
+  document.getElementById('next').onclick=function(){show(current+1);};
+  document.addEventListener('keydown',function(e){
+    if(e.key==='ArrowRight'||e.key===' '||e.key==='PageDown'){e.preventDefault();show(current+1);}
+    else if(e.key==='ArrowLeft'||e.key==='PageUp'){e.preventDefault();show(current-1);}
+    else if(e.key==='Home'){show(0);}
+    else if(e.key==='End'){show(pages.length-1);}
+  });
+  var startX=null,startY=0;
+  document.addEventListener('touchstart',function(e){startX=e.touches[0].clientX;startY=e.touches[0].clientY;},{passive:true});
+  document.addEventListener('touchend',function(e){
+    if(startX===null)return;
+    var dx=e.changedTouches[0].clientX-startX,dy=e.changedTouches[0].clientY-startY;
+    if(Math.abs(dx)>50&&Math.abs(dx)>Math.abs(dy))show(current+(dx<0?1:-1));
+    startX=null;
+  },{passive:true});
+  var hero=document.querySelector('.cover img[data-hero]');
+  var first=document.querySelector('.page:not(.cover) img');
+  if(hero&&first)hero.src=first.src;
+  show((parseInt(location.hash.slice(1),10)||1)-1);
+})();
+`;
+
+// One offline HTML file with every image inlined; `images` are data URLs for `items`, ready to publish as they are
+// Without JavaScript the pages simply stack
+export function createWebAlbum(items: AlbumItem[], images: string[], options: WebAlbumOptions, text: WebAlbumText): Blob {
+  const palette = ALBUM_THEME_PALETTES[options.theme];
+  const light = options.theme === 'minimal';
+  const title = escapeHtml(options.title);
+
+  const figure = (item: AlbumItem, index: number) => {
+    const name = escapeHtml(item.name);
+    const caption = options.captions ? `<p class="muted">${escapeHtml(item.caption)}</p>` : '';
+    const image = `<img src="${images[index]}" alt="${name}">`;
+    if (options.theme === 'polaroid') {
+      return `<figure><div class="frame">${image}<h2>${name}</h2></div><figcaption>${caption}</figcaption></figure>`;
+    }
+    const eyebrow = options.theme === 'magazine' ? `<p class="eyebrow">${escapeHtml(text.collection(item.category))}</p>` : '';
+    return `<figure>${image}<figcaption>${eyebrow}<h2>${name}</h2>${caption}</figcaption></figure>`;
+  };
+
+  const indices = items.map((_item, index) => index);
+  const pages = paginate(options.theme, indices).map(page => options.theme === 'grid'
+    ? `<section class="page"><div class="spread">${page.map(i => figure(items[i], i)).join('')}</div></section>`
+    : `<section class="page single">${figure(items[page[0]], page[0])}</section>`);
+
+  // The cover's photo is filled in from the first page by the script, so it is not inlined twice
+  const cover = `<section class="page cover active">`
+    + `<img data-hero alt="" src="data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7">`
+    + `<div class="text"><p class="eyebrow">${escapeHtml(text.cover)}</p><h1>${title}</h1><p class="muted">${escapeHtml(text.subtitle)}</p></div>`
+    + `</section>`;
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(text.lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="${escapeHtml(PROVENANCE_SOFTWARE)}">
+<title>${title}</title>
+<style>:root{--bg:${palette.background};--text:${light ? palette.ink : '#f8fafc'};--muted:${light ? palette.muted : '#a8b0bd'};--accent:${palette.accent}}${STYLES}</style>
+</head>
+<body class="theme-${options.theme}">
+<main>
+${cover}
+${pages.join('\n')}
+</main>
+<nav class="no-js-hidden" aria-label="${escapeHtml(text.hint)}"><button id="prev" aria-label="${escapeHtml(text.previous)}">&#8249;</button><span id="counter"></span><button id="next" aria-label="${escapeHtml(text.next)}">&#8250;</button></nav>
+<footer>${escapeHtml(text.disclosure)}</footer>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+}
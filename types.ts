@@ -1,10 +1,58 @@
-export type Gender = 'male' | 'female';
+import type { ProviderErrorKind } from './services/providers/types';
+import type { CropSettings } from './services/imageCrop';
+
+export type Gender = 'female' | 'male' | 'nonbinary' | 'unspecified';
+
+export type AgeGroup = 'child' | 'adult' | 'senior';
+
+// Who is in the photos and which of their traits must survive the restyle
+export interface SubjectProfile {
+  gender: Gender;
+  ageGroup: AgeGroup;
+  keepFace: boolean; // Strict identity lock: no beautifying or refining facial features
+  keepGlasses: boolean;
+  keepHairstyle: boolean;
+  keepSkinTone: boolean;
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface OutputSettings {
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+}
 
 export interface PhotoStyle {
   id: number;
   name: string;
   category: string;
   promptSuffix: string; // English translation or description for better prompting
+  isCustom?: boolean; // Created in the in-app style editor rather than shipped in constants.ts
+  stableId?: string; // Portable string ID used by style packs, survives export/import across installs
+  names?: Record<string, string>; // Localized names keyed by locale (e.g. "en", "zh-CN")
+  tags?: string[];
+  packId?: string; // Style pack this style was imported from
+  promptTemplateId?: string; // Prompt template to use instead of the default one
+  promptOverrides?: Partial<Record<PromptSection, string>>;
+}
+
+// Template variables a style may replace with its own wording
+export type PromptSection = 'style' | 'fidelity';
+
+// Prompt text with {{variable}} placeholders, filled in per job
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  builtIn?: boolean;
+}
+
+// Locally edited prompt settings for one style; wins over what the style ships with
+export interface StylePromptConfig {
+  templateId?: string;
+  overrides?: Partial<Record<PromptSection, string>>;
 }
 
 export interface GeneratedImage {
@@ -12,11 +60,97 @@ export interface GeneratedImage {
   imageUrl: string | null;
   status: 'idle' | 'pending' | 'generating' | 'completed' | 'failed';
   error?: string;
+  errorKind?: ProviderErrorKind; // Picks the guidance shown next to the raw error message
+  aspectRatio?: AspectRatio; // Output settings the current image was generated with
+  imageSize?: ImageSize;
+  model?: string;
+  variants?: ImageVariant[]; // Every candidate of the latest run; the top-level fields mirror the hero
+  heroIndex?: number; // Variant picked for the album and ZIP
+  history?: HistoryEntry[]; // Finished attempts, oldest first
+}
+
+// One finished attempt at a style, kept so regenerating never throws an earlier result away
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  imageUrl: string | null; // null when the attempt failed
+  prompt: string; // Exactly what was sent, so the attempt can be replayed
+  model?: string;
+  output: OutputSettings;
+  subject: SubjectProfile;
+  error?: string;
+  errorKind?: ProviderErrorKind;
+  edit?: EditChain; // Set when the attempt edited an earlier image instead of starting from the photos
+}
+
+// Follow-up instructions that turned a generated image into this one, oldest first
+export interface EditChain {
+  parentId?: string; // History entry that was edited, when it was in the history
+  instructions: string[];
+}
+
+// One candidate generated for a style
+export interface ImageVariant {
+  imageUrl: string | null;
+  status: GeneratedImage['status'];
+  error?: string;
+  errorKind?: ProviderErrorKind;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  model?: string;
+}
+
+// A completed result as shown in the album and its exports, with the labels already localized
+export interface AlbumItem {
+  id: number;
+  url: string;
+  name: string; // Page title: the style name unless edited
+  category: string;
+  caption: string;
+  aspectRatio: AspectRatio;
+}
+
+export type AlbumTheme = 'magazine' | 'polaroid' | 'minimal' | 'grid';
+
+// Edited page text; missing fields fall back to the style name and the generated description
+export interface AlbumPageText {
+  title?: string;
+  caption?: string;
+}
+
+// How the album is presented and exported; saved with the session
+export interface AlbumLayout {
+  theme: AlbumTheme;
+  title: string; // Cover title; empty uses the localized default
+  order: number[]; // Style IDs in page order; selected results missing here follow in selection order
+  pages: Record<number, AlbumPageText>;
+}
+
+// One unit of work in the generation queue; settings are captured when the job is enqueued
+export interface QueueJob {
+  id: string;
+  styleId: number;
+  variant: number; // Index into the style's variants; each candidate is its own request
+  variantCount: number;
+  output: OutputSettings;
+  subject: SubjectProfile;
+  prompt?: string; // Sent verbatim instead of building one from the current templates, e.g. when replaying history
+  edit?: EditChain & { baseImageUrl: string }; // The latest instruction is applied to baseImageUrl
+}
+
+// How an uploaded photo was framed, kept so it can be re-cropped from the full photo later
+export interface PhotoCrop {
+  original: string; // Base64, the uncropped photo
+  settings: CropSettings;
 }
 
 export interface AppState {
-  gender: Gender;
-  uploadedImage: string | null; // Base64
-  queue: number[]; // Array of Style IDs waiting to be processed
-  activeRequests: number;
+  subject: SubjectProfile; // Session default for new jobs
+  uploadedImage: string | null; // Base64, the primary reference photo
+  referenceImages: string[]; // Additional Base64 photos of the same person (primary excluded)
+  photoCrops: (PhotoCrop | null)[]; // Primary first, then the references; null for a photo sent uncropped
+  output: OutputSettings; // Session default for new jobs
+  styleAspectOverrides: Record<number, AspectRatio>; // Per-style aspect ratio, wins over the session default
+  variantCount: number; // Candidates generated per style
+  album: AlbumLayout;
 }
\ No newline at end of file